@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {CallGraph, Routine, buildCallGraph} from './callgraph';
+import {getLabelCandidates, getLabelContext} from './labelcheck';
+import {getCompleteLabel} from './grepextra';
+
+
+/**
+ * CallHierarchyProvider for assembly language.
+ * Non-local code labels are treated as routines.
+ * CALL and RST are calls, JP, JR and DJNZ to other routines are tail jumps.
+ */
+export class CallHierarchyProvider implements vscode.CallHierarchyProvider {
+
+    /**
+     * Called from vscode to get the routine at the position.
+     * The position can be on the label definition, on a reference
+     * to the label or anywhere inside the routine.
+     * @param document The current document.
+     * @param position The position.
+     * @param token
+     */
+    public async prepareCallHierarchy(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.CallHierarchyItem | undefined> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.enableCallHierarchy)
+            return undefined;
+        const graph = await this.getCallGraph(config, document);
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex || token.isCancellationRequested)
+            return undefined;
+
+        // Label at the position (definition or reference)
+        const lineContents = document.lineAt(position.line).text;
+        const {label} = getCompleteLabel(lineContents, position.character);
+        if (label) {
+            const {module, nonLocalLabel} = getLabelContext(fileIndex, position.line);
+            const candidates = getLabelCandidates(label.replace(/:$/, ''), module, nonLocalLabel);
+            const routineLabel = candidates.find(candidate => graph.routines.has(candidate));
+            if (routineLabel)
+                return this.createItem(graph.routines.get(routineLabel)!);
+        }
+
+        // Otherwise the routine that contains the position
+        const filePath = document.uri.fsPath;
+        for (const routine of graph.routines.values()) {
+            if (routine.filePath == filePath && routine.symbol.line <= position.line && position.line <= routine.endLine)
+                return this.createItem(routine);
+        }
+        return undefined;
+    }
+
+
+    /**
+     * Returns the routines that call (or jump to) the given routine.
+     * @param item The routine.
+     * @param token
+     */
+    public async provideCallHierarchyIncomingCalls(item: vscode.CallHierarchyItem, token: vscode.CancellationToken): Promise<vscode.CallHierarchyIncomingCall[]> {
+        const {graph, routine} = await this.getRoutineForItem(item);
+        if (!routine || token.isCancellationRequested)
+            return [];
+        const target = routine.symbol.moduleLabel;
+
+        // Group by caller
+        const callers = new Map<string, vscode.Range[]>();
+        for (const call of graph.calls) {
+            if (call.targetRoutine != target)
+                continue;
+            let ranges = callers.get(call.caller);
+            if (!ranges) {
+                ranges = [];
+                callers.set(call.caller, ranges);
+            }
+            ranges.push(new vscode.Range(call.line, call.start, call.line, call.end));
+        }
+
+        const incomingCalls: vscode.CallHierarchyIncomingCall[] = [];
+        for (const [caller, ranges] of callers) {
+            const callerRoutine = graph.routines.get(caller);
+            if (callerRoutine)
+                incomingCalls.push(new vscode.CallHierarchyIncomingCall(this.createItem(callerRoutine), ranges));
+        }
+        return incomingCalls;
+    }
+
+
+    /**
+     * Returns the routines that the given routine calls (or jumps to).
+     * @param item The routine.
+     * @param token
+     */
+    public async provideCallHierarchyOutgoingCalls(item: vscode.CallHierarchyItem, token: vscode.CancellationToken): Promise<vscode.CallHierarchyOutgoingCall[]> {
+        const {graph, routine} = await this.getRoutineForItem(item);
+        if (!routine || token.isCancellationRequested)
+            return [];
+        const caller = routine.symbol.moduleLabel;
+
+        // Group by target
+        const targets = new Map<string, vscode.Range[]>();
+        for (const call of graph.calls) {
+            if (call.caller != caller || call.filePath != routine.filePath)
+                continue;
+            let ranges = targets.get(call.targetRoutine);
+            if (!ranges) {
+                ranges = [];
+                targets.set(call.targetRoutine, ranges);
+            }
+            ranges.push(new vscode.Range(call.line, call.start, call.line, call.end));
+        }
+
+        const outgoingCalls: vscode.CallHierarchyOutgoingCall[] = [];
+        for (const [target, ranges] of targets) {
+            const targetRoutine = graph.routines.get(target);
+            if (targetRoutine)
+                outgoingCalls.push(new vscode.CallHierarchyOutgoingCall(this.createItem(targetRoutine), ranges));
+        }
+        return outgoingCalls;
+    }
+
+
+    /**
+     * Returns the call graph for the files the document is assembled with.
+     * @param config The configuration of the workspace folder.
+     * @param document The document.
+     */
+    protected async getCallGraph(config: Config, document: vscode.TextDocument): Promise<CallGraph> {
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const fileIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, 'asm-collection', config.excludeFiles);
+        const files = fileIndexes
+            .filter(fileIndex => !scope || scope.has(fileIndex.filePath))
+            .map(fileIndex => ({filePath: fileIndex.filePath, lines: fileIndex.lines, fileSymbols: fileIndex, dialect: fileIndex.dialect}));
+        return buildCallGraph(files);
+    }
+
+
+    /**
+     * Returns the routine for a call hierarchy item.
+     * The routine is identified by its file and the line of the label.
+     * @param item The item created by 'createItem'.
+     */
+    protected async getRoutineForItem(item: vscode.CallHierarchyItem): Promise<{graph: CallGraph, routine: Routine | undefined}> {
+        const document = await vscode.workspace.openTextDocument(item.uri);
+        const config = Config.getConfigForDoc(document);
+        if (!config)
+            return {graph: {routines: new Map(), calls: []}, routine: undefined};
+        const graph = await this.getCallGraph(config, document);
+        const filePath = item.uri.fsPath;
+        const line = item.selectionRange.start.line;
+        for (const routine of graph.routines.values()) {
+            if (routine.filePath == filePath && routine.symbol.line == line)
+                return {graph, routine};
+        }
+        return {graph, routine: undefined};
+    }
+
+
+    /**
+     * Creates the vscode item for a routine.
+     * @param routine The routine.
+     */
+    protected createItem(routine: Routine): vscode.CallHierarchyItem {
+        const {symbol} = routine;
+        const uri = vscode.Uri.file(routine.filePath);
+        const range = new vscode.Range(symbol.line, 0, routine.endLine, Number.MAX_SAFE_INTEGER);
+        const selectionRange = new vscode.Range(symbol.line, symbol.start, symbol.line, symbol.end);
+        const module = symbol.moduleLabel.substring(0, symbol.moduleLabel.length - symbol.label.length - 1);
+        const detail = (module ? module + ' - ' : '') + path.basename(routine.filePath);
+        return new vscode.CallHierarchyItem(vscode.SymbolKind.Function, symbol.label, detail, uri, range, selectionRange);
+    }
+}
@@ -4,6 +4,8 @@ import {CommonRegexes} from './regexes/commonregexes';
 import {grep, grepTextDocumentMultiple, reduceLocations} from './grep';
 import {Config} from './config';
 import {DonateInfo} from './donate/donateinfo';
+import {SymbolIndex} from './symbolindex';
+import {formatAddress} from './listfile';
 
 
 
@@ -57,8 +59,9 @@ export class CodeLensProvider implements vscode.CodeLensProvider {
 
         //console.log(document.uri.fsPath);
         const codeLenses: Array<vscode.CodeLens> = [];
-        const regexes = CommonRegexes.regexesLabel(config, languageId);
-        const matches = grepTextDocumentMultiple(document, regexes);
+        const dialect = await SymbolIndex.getDialect(document);
+        const regexes = CommonRegexes.regexesLabel(config, languageId, dialect);
+        const matches = grepTextDocumentMultiple(document, regexes, dialect.commentPrefixes);
         // Loop all matches and create code lenses
         for (const fmatch of matches) {
             // Create codeLens
@@ -92,6 +95,7 @@ export class CodeLensProvider implements vscode.CodeLensProvider {
      * Called by vscode if the codelens should be resolved (displayed).
      * The symbol (matchedText) is searched and the count of references is
      * presented with the text "n references".
+     * Optionally the address of the label is prepended, e.g. "$8123 · n references".
      * @param codeLens An AsmCodeLens object which also includes the symbol and the document.
      * @param token
      */
@@ -108,15 +112,22 @@ export class CodeLensProvider implements vscode.CodeLensProvider {
         const config: Config = codeLens.config;
 
         const languageId = doc.languageId as AllowedLanguageIds;
-        const locations = await grep(searchRegex, config.wsFolderPath, languageId, config.excludeFiles);
+        const scope = await SymbolIndex.getIncludeScope(config, doc);
+        const locations = await grep(searchRegex, config.wsFolderPath, languageId, config.excludeFiles, searchWord, scope, token);
         // Remove any locations because of module information (dot notation)
-        const regexLbls = CommonRegexes.regexesLabel(config, languageId);
-        const reducedLocations = await reduceLocations(regexLbls, locations, doc.fileName, pos, true, true);
+        const regexLbls = CommonRegexes.regexesLabel(config, languageId, await SymbolIndex.getDialect(doc));
+        const reducedLocations = await reduceLocations(regexLbls, locations, doc.fileName, pos, true, true, undefined, token);
         // create title
         const count = reducedLocations.length;
         let title = count + ' reference';
         if (count != 1)
             title += 's';
+        // Prepend the address
+        if (config.codeLensShowAddress) {
+            const address = await SymbolIndex.getLabelAddress(config, doc.uri.fsPath, pos.line);
+            if (address != undefined)
+                title = formatAddress(address, Config.globalHexPrefix) + ' · ' + title;
+        }
         // Add command to show the references (like in "find all references")
         codeLens.command = {
             title: title,
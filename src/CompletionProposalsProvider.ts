@@ -5,65 +5,23 @@ import {getModule, grepMultiple, reduceLocations} from './grep';
 import {CompletionRegexes} from './regexes/completionregexes';
 import {AllowedLanguageIds} from './languageId';
 import {getCompleteLabel, getNonLocalLabel} from './grepextra';
+import {SymbolIndex} from './symbolindex';
+import {getLabelCandidates, getLabelContext} from './labelcheck';
+import {formatFieldInfo, resolveStructType} from './structs';
+import {z80Mnemonics, z80nMnemonics} from './mnemonics';
 
 
-/// All additional completions like Z80 instructions and assembler
-/// directives etc.
-const completions = [
+/// The Z80 completions, i.e. registers and instructions.
+/// The instructions are taken from the mnemonics, the assembler
+/// directives from the dialect.
+const z80Completions = [
     // Z80 registers
     'a', 'b', 'c', 'd', 'e', 'h', 'l',
     'af', 'bc', 'de', 'hl', 'ix', 'iy', 'sp',
     'ixl', 'ixh', 'iyl', 'iyh',
 
-    // Z80 instructions
-	'adc',  'add',  'and',  'bit',  'call', 'ccf',  'cp',   'cpd',
-	'cpdr', 'cpi',  'cpir', 'cpl',  'daa',  'dec',  'di',   'ei',
-	'djnz', 'ex',   'exx',  'halt', 'im',   'inc',  'in',   'ind',
-	'indr', 'ini',  'inir', 'jp',   'jr',   'ld',   'ldd',  'lddr',
-	'ldi',  'ldir', 'neg',  'nop',  'or',   'otdr', 'otir', 'out',
-	'outd', 'outi', 'pop',  'push', 'res',  'ret',  'reti', 'retn',
-	'rl',   'rla',  'rlc',  'rlca', 'rld',  'rr',   'rra',  'rrc',
-	'rrca', 'rrd',  'rst',  'sbc',  'scf',  'set',  'sla',  'slia',
-    'sll',  'swap', 'sra',  'srl',  'sub',  'xor',
-
-    // Z80N instructions
-    'ldix', 'ldws', 'ldirx', 'lddx', 'lddrx', 'ldpirx',
-    'outinb', 'mul', 'swapnib', 'mirror', 'nextreg',
-    'pixeldn', 'pixelad', 'setae', 'test',
-    'bsla', 'bsra', 'bsrl', 'bsrf', 'brlc',
-
-    // sjasmplus fake instructions
-    'sli',
-
-    // sjasmplus
-    'macro', 'endm', 'module', 'endmodule', 'struct', 'ends', 'dup', 'edup',
-    'if', 'ifn', 'ifdef', 'ifndef', 'ifused', 'ifnused', 'else', 'endif',
-    'include', 'incbin',
-    'abyte', 'abytec', 'abytez', 'align', 'assert',
-    'binary', 'block', 'defb', 'defd', 'defg', 'defh', 'defl', 'defm', 'defs', 'defw', 'dephase', 'disp', 'phase', 'unphase',
-    'd24', 'db', 'dc', 'dd', 'dg', 'dh', 'hex', 'dm', 'ds', 'dw', 'dz',
-    'display', 'byte', 'word', 'dword',
-    'emptytap', 'emptytrd', 'encoding',
-    'equ', 'export',
-    'end', 'endlua', 'endt', 'ent',
-    'includelua', 'inchob', 'inctrd', 'insert',
-    'lua', 'labelslist', 'org', 'outend', 'output',
-    'memorymap', 'mmu',
-    'page', 'rept', 'endr', 'savebin', 'savedev', 'savehob', 'savesna', 'savetrd',
-    'savetap', 'basic', 'code', 'numbers', 'chars', 'headless',
-    'savenex', 'core', 'cfg', 'cfg3', 'bar', 'palette', 'default', 'mem', 'bmp', 'screen',
-    'l2', 'l2_320', 'l2_640', 'scr', 'shc', 'shr', 'tile', 'cooper', 'bank', 'auto',
-    'shellexec', 'size', 'slot',
-    'tapend', 'tapout',
-    'textarea',
-    'define', 'undefine',
-    'defarray', 'defarray+',
-    'device', 'ZXSPECTRUM48', 'ZXSPECTRUM128', 'ZXSPECTRUM256', 'ZXSPECTRUM512', 'ZXSPECTRUM1024', 'ZXSPECTRUM2048', 'ZXSPECTRUM4096', 'ZXSPECTRUM8192', 'ZXSPECTRUMNEXT', 'NONE', 'ramtop',
-    'open', 'close',
-    'setbp', 'setbreakpoint',
-    'bplist', 'unreal', 'zesarux',
-    'opt', 'cspectmap', 'fpos',
-    '_sjasmplus', '_version', '_release', '_errors', '_warnings'
+    // Z80 and Z80N instructions
+    ...new Set([...z80Mnemonics, ...z80nMnemonics])
 ];
 
 
@@ -111,9 +69,15 @@ export class CompletionProposalsProvider implements vscode.CompletionItemProvide
         const end = start + rowLabel.label.length;
         const range = new vscode.Range(new vscode.Position(row, start), new vscode.Position(row, end));
 
+        // Fields of a struct, e.g. "POINT.", "player." or "(ix+POINT."
+        const fieldItems = await this.getFieldCompletions(config, document, rowLabel.label, row, start);
+        if (fieldItems)
+            return new vscode.CompletionList(fieldItems, false);
+
         // Get the first non-local label
         const languageId = document.languageId as AllowedLanguageIds;
-        const regexLbls = CommonRegexes.regexesLabel(config, languageId);
+        const dialect = await SymbolIndex.getDialect(document);
+        const regexLbls = CommonRegexes.regexesLabel(config, languageId, dialect);
         let nonLocalLabel;  // Only used for local labels
         if (rowLabel.label.startsWith('.')) {
             nonLocalLabel = getNonLocalLabel(regexLbls, lines, row);
@@ -132,9 +96,10 @@ export class CompletionProposalsProvider implements vscode.CompletionItemProvide
         const searchSjasmMacro = CompletionRegexes.regexEveryMacroForWord(fuzzySearchWord, languageId);
         regexes.push(searchSjasmMacro);
 
-        const locations = await grepMultiple(regexes, config.wsFolderPath, languageId, config.excludeFiles);
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const locations = await grepMultiple(regexes, config.wsFolderPath, languageId, config.excludeFiles, undefined, scope, token);
         // Reduce the found locations.
-        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, true, false);
+        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, true, false, undefined, token);
         // Now put all proposal texts in a map. (A map to make sure every item is listed only once.)
         const proposals = new Map<string, vscode.CompletionItem>();
 
@@ -199,7 +164,8 @@ export class CompletionProposalsProvider implements vscode.CompletionItemProvide
             // No dot.
             // Check if word starts with a capital letter
             const upperCase = (rowLabel.label[0] == rowLabel.label[0].toUpperCase());
-            // Add the instruction proposals
+            // Add the instruction and directive proposals
+            const completions = (dialect.z80) ? [...z80Completions, ...dialect.keywords] : dialect.keywords;
             let i = 0;
             allCompletions = completions.map(text => {
                 if (upperCase)
@@ -228,4 +194,39 @@ export class CompletionProposalsProvider implements vscode.CompletionItemProvide
         return completionList;
     }
 
+
+    /**
+     * Returns the fields of a struct if the label is a struct, a struct
+     * instance or a nested struct field followed by a dot.
+     * @param config The configuration (settings).
+     * @param document The document.
+     * @param label The label at the cursor, e.g. "player.x".
+     * @param row The line number.
+     * @param start The start column of the label.
+     * @returns The completion items or undefined if the label is no field access.
+     */
+    protected async getFieldCompletions(config: Config, document: vscode.TextDocument, label: string, row: number, start: number): Promise<vscode.CompletionItem[] | undefined> {
+        const k = label.lastIndexOf('.');
+        if (k <= 0)
+            return undefined;
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex)
+            return undefined;
+        const prefix = label.substring(0, k);
+        const {module, nonLocalLabel} = getLabelContext(fileIndex, row);
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const model = await SymbolIndex.getStructModel(config, fileIndex.languageId, scope);
+        const struct = resolveStructType(model, prefix, getLabelCandidates(prefix, module, nonLocalLabel));
+        if (!struct)
+            return undefined;
+        // Replace only the part after the dot
+        const range = new vscode.Range(row, start + k + 1, row, start + label.length);
+        return struct.fields.map((field, i) => {
+            const item = new vscode.CompletionItem(field.label, vscode.CompletionItemKind.Field);
+            item.detail = formatFieldInfo(field);
+            item.sortText = i.toString().padStart(3, '0');  // Order of definition
+            item.range = range;
+            return item;
+        });
+    }
 }
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {stripAllComments} from './comments';
+import {Dialect} from './dialects';
+import {formatCycleSum, formatTStates, getLineInstruction, sumCycles} from './z80instructions';
+
+
+/**
+ * Shows the T-states of the Z80/Z80N instructions.
+ * - As inlay hint at the end of each line (setting 'cycles.showInlayHints').
+ * - As code lens with the sum of T-states and bytes above each
+ *   routine (setting 'cycles.showCodeLens'). A routine are the lines from
+ *   a non-local label to the next non-local label.
+ * Furthermore the T-states of a selection can be summed up by a command.
+ */
+export class CyclesProvider implements vscode.InlayHintsProvider, vscode.CodeLensProvider {
+
+    /**
+     * Called from vscode to provide the inlay hints.
+     * @param document The document.
+     * @param range The visible range.
+     * @param token
+     */
+    public async provideInlayHints(document: vscode.TextDocument, range: vscode.Range, token: vscode.CancellationToken): Promise<vscode.InlayHint[]> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.cyclesShowInlayHints)
+            return [];
+        const hints: vscode.InlayHint[] = [];
+        const dialect = await SymbolIndex.getDialect(document);
+        const lines = this.getStrippedLines(document, dialect, range.start.line, range.end.line);
+        if (token.isCancellationRequested)
+            return [];
+        for (let i = 0; i < lines.length; i++) {
+            const instruction = getLineInstruction(lines[i], dialect);
+            if (!instruction)
+                continue;
+            const lineNr = range.start.line + i;
+            const position = document.lineAt(lineNr).range.end;
+            const hint = new vscode.InlayHint(position, formatTStates(instruction) + 'T');
+            hint.paddingLeft = true;
+            hint.tooltip = instruction.opcode + ' (' + instruction.size + ' byte' + ((instruction.size == 1) ? '' : 's') + '), flags: ' + instruction.flags;
+            hints.push(hint);
+        }
+        return hints;
+    }
+
+
+    /**
+     * Called from vscode to provide the code lenses.
+     * Creates a code lens with the summed T-states and bytes for each routine.
+     * @param document The document.
+     * @param token
+     */
+    public async provideCodeLenses(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.CodeLens[]> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.cyclesShowCodeLens)
+            return [];
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex)
+            return [];
+        const lines = this.getStrippedLines(document, fileIndex.dialect, 0, document.lineCount - 1);
+        if (token.isCancellationRequested)
+            return [];
+        const nonLocalSymbols = fileIndex.symbols.filter(symbol => !symbol.local && symbol.kind != 'module' && symbol.kind != 'struct');
+        const codeLenses: vscode.CodeLens[] = [];
+        for (let i = 0; i < nonLocalSymbols.length; i++) {
+            const symbol = nonLocalSymbols[i];
+            if (symbol.kind != 'code')
+                continue;
+            const endLine = (i + 1 < nonLocalSymbols.length) ? nonLocalSymbols[i + 1].line : lines.length;
+            const sum = sumCycles(lines.slice(symbol.line, endLine), fileIndex.dialect);
+            if (sum.instructions == 0)
+                continue;
+            const range = new vscode.Range(symbol.line, symbol.start, symbol.line, symbol.end);
+            codeLenses.push(new vscode.CodeLens(range, {title: formatCycleSum(sum), command: ''}));
+        }
+        return codeLenses;
+    }
+
+
+    /**
+     * Sums up the T-states and bytes of the selected lines of the
+     * active editor and shows the result.
+     */
+    public static async sumSelection() {
+        const editor = vscode.window.activeTextEditor;
+        if (editor?.document.languageId != 'asm-collection')
+            return;
+        const {document, selection} = editor;
+        let endLine = selection.end.line;
+        if (selection.end.character == 0 && endLine > selection.start.line)
+            endLine--;  // Whole lines selected
+        const dialect = await SymbolIndex.getDialect(document);
+        const lines = new CyclesProvider().getStrippedLines(document, dialect, selection.start.line, endLine);
+        const sum = sumCycles(lines, dialect);
+        const count = endLine - selection.start.line + 1;
+        await vscode.window.showInformationMessage(count + ' line' + ((count == 1) ? '' : 's') + ': ' + formatCycleSum(sum) + ' (' + sum.instructions + ' instruction' + ((sum.instructions == 1) ? '' : 's') + ').');
+    }
+
+
+    /**
+     * Returns the comment stripped lines of a document.
+     * Starts at the beginning of the document to find an
+     * open multiline comment.
+     * @param document The document.
+     * @param dialect The assembler dialect of the document.
+     * @param startLine The first line to return.
+     * @param endLine The last line to return.
+     */
+    protected getStrippedLines(document: vscode.TextDocument, dialect: Dialect, startLine: number, endLine: number): string[] {
+        const lines = document.getText(new vscode.Range(0, 0, endLine + 1, 0)).split('\n');
+        lines.length = Math.min(lines.length, endLine + 1);
+        stripAllComments(lines, dialect.commentPrefixes);
+        return lines.slice(startLine);
+    }
+}
@@ -4,6 +4,8 @@ import { DefinitionRegexes } from './regexes/definitionregexes';
 import * as vscode from 'vscode';
 import { grepMultiple, reduceLocations } from './grep';
 import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {getTempLabelAt, resolveTempLabel} from './templabels';
 
 
 
@@ -31,33 +33,41 @@ export class DefinitionProvider implements vscode.DefinitionProvider {
             return undefined;
         }
 
-        // Check for 'include "..."'
+        // Check for 'include "..."' or 'incbin "..."'
         const lineContents = document.lineAt(position.line).text;
-        const match = CommonRegexes.regexInclude().exec(lineContents);
+        const dialect = await SymbolIndex.getDialect(document);
+        const match = CommonRegexes.regexIncludeDirective(dialect.includeDirectives).exec(lineContents);
         if (match) {
             // INCLUDE found
-            return this.getInclude(config, match[1]);
+            return this.getInclude(config, document, match[3]);
         }
         else {
             // Normal definition
-            return this.search(config, document, position);
+            return this.search(config, document, position, token);
         }
     }
 
 
     /**
      * Searches the files that match the 'relPath' path.
+     * The path is resolved relative to the document and the include paths.
+     * If not found there, all files of the workspace folder that match
+     * the 'relPath' are returned.
      * @param config The configuration (settings).
+     * @param document The document that contains the INCLUDE.
      * @param relPath E.g. 'util/zxspectrum.inc'
      * @returns A promise to an array with locations. Normally there is only one entry to the array.
      * Points to the first line of the file.
      */
-    protected async getInclude(config: Config, relPath: string): Promise<vscode.Location[]> {
+    protected async getInclude(config: Config, document: vscode.TextDocument, relPath: string): Promise<vscode.Location[]> {
+        const pos = new vscode.Position(0, 0);
+        const range = new vscode.Range(pos, pos);
+        const includedPath = SymbolIndex.resolveInclude(config, document.uri.fsPath, relPath);
+        if (includedPath)
+            return [new vscode.Location(vscode.Uri.file(includedPath), range)];
         const filePattern = new vscode.RelativePattern(config.wsFolderPath, '**/' + relPath);
         const uris = await vscode.workspace.findFiles(filePattern, null);
         const locations: vscode.Location[] = [];
-        const pos = new vscode.Position(0, 0);
-        const range = new vscode.Range(pos, pos);
         for (const uri of uris) {
             const loc = new vscode.Location(uri, range);
             locations.push(loc);
@@ -71,15 +81,35 @@ export class DefinitionProvider implements vscode.DefinitionProvider {
      * @param config The configuration (settings).
      * @param document The document that contains the word.
      * @param position The word position.
+     * @param token Stops the search if cancelled.
      * @returns A promise to an array with locations. Normally there is only one entry to the array.
      */
-    protected async search(config: Config, document, position): Promise<vscode.Location[] | undefined> {
+    protected async search(config: Config, document, position, token?: vscode.CancellationToken): Promise<vscode.Location[] | undefined> {
         const searchWord = document.getText(document.getWordRangeAtPosition(position)); //, /[a-z0-9_.]+/i));
 
         // Check if search word is in the excludes
         if (config.labelsExcludes.includes(searchWord))
             return undefined;  // Abort
 
+        // Temporary labels, e.g. "1B" or "@f"
+        const tempLabels = await SymbolIndex.getTempLabels(document);
+        const tempLabel = getTempLabelAt(tempLabels, position.line, position.character);
+        if (tempLabel) {
+            const definition = resolveTempLabel(tempLabels, tempLabel);
+            if (!definition)
+                return undefined;
+            const range = new vscode.Range(definition.line, definition.start, definition.line, definition.end);
+            return [new vscode.Location(document.uri, range)];
+        }
+
+        // Struct fields, e.g. "POINT.x" or "player.x" (instance)
+        const structField = await SymbolIndex.getStructFieldAt(config, document, position);
+        if (structField) {
+            const {struct, field} = structField;
+            const range = new vscode.Range(field.line, field.start, field.line, field.end);
+            return [new vscode.Location(vscode.Uri.file(struct.filePath), range)];
+        }
+
         // Find all "something:" (labels) in the document, also labels without colon.
         const languageId = document.languageId as AllowedLanguageIds;
         const regexes = CommonRegexes.regexesLabelForWord(searchWord, config, languageId);
@@ -93,9 +123,10 @@ export class DefinitionProvider implements vscode.DefinitionProvider {
         const searchSjasmStruct = DefinitionRegexes.regexStructForWord(searchWord);
         regexes.push(searchSjasmStruct);
 
-        const locations = await grepMultiple(regexes, config.wsFolderPath, document.languageId, config.excludeFiles);
-        const regexLbls = CommonRegexes.regexesLabel(config, languageId);
-        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, false, true, /\w/);
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const locations = await grepMultiple(regexes, config.wsFolderPath, document.languageId, config.excludeFiles, searchWord, scope, token);
+        const regexLbls = CommonRegexes.regexesLabel(config, languageId, await SymbolIndex.getDialect(document));
+        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, false, true, /\w/, token);
         // There should be only one location.
         // Anyhow return the whole array.
         return reducedLocations;
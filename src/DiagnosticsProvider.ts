@@ -0,0 +1,273 @@
+import * as vscode from 'vscode';
+import {Config, DiagnosticsSeverity} from './config';
+import {SymbolIndex, FileIndex} from './symbolindex';
+import {IndexedSymbol} from './symbolparser';
+import {findLabelReferences, getUniqueDefinitions, isReferenceDefined} from './labelcheck';
+
+
+/**
+ * Creates the diagnostics (the squiggles and the entries in the
+ * 'Problems' view) for the asm files:
+ * - references to undefined labels
+ * - labels that are defined more than once
+ * - INCLUDEs of files that do not exist
+ * - unbalanced MODULE, STRUCT, MACRO and IF blocks
+ * When an asm file changes the open asm files of the same translation
+ * unit are checked again.
+ */
+export class DiagnosticsProvider implements vscode.Disposable {
+    // The diagnostics shown by vscode.
+    protected collection: vscode.DiagnosticCollection;
+
+    // The registered events.
+    protected subscriptions: vscode.Disposable[] = [];
+
+    // Delays the update while typing.
+    protected timer: NodeJS.Timeout | undefined;
+
+    // The files changed since the last update.
+    protected changedFiles = new Set<string>();
+
+    // The files each document was checked with (see getIncludeScope).
+    // Key = file path of the document.
+    protected checkedScopes = new Map<string, Set<string> | undefined>();
+
+
+    /**
+     * Constructor.
+     * Registers for the document events and checks all open documents.
+     */
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('asm-code-lens');
+        this.subscriptions.push(vscode.workspace.onDidOpenTextDocument(document => {
+            this.updateDocument(document);
+        }));
+        this.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
+            const document = event.document;
+            if (document.languageId != 'asm-collection' || document.uri.scheme != 'file')
+                return;
+            this.changedFiles.add(document.uri.fsPath);
+            this.scheduleUpdate();
+        }));
+        this.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+            this.collection.delete(document.uri);
+            this.checkedScopes.delete(document.uri.fsPath);
+        }));
+        this.updateAll();
+    }
+
+
+    /**
+     * Removes all diagnostics and unregisters the events.
+     */
+    public dispose() {
+        if (this.timer)
+            clearTimeout(this.timer);
+        for (const subscription of this.subscriptions)
+            subscription.dispose();
+        this.collection.dispose();
+    }
+
+
+    /**
+     * Updates the documents affected by the changed files after a short delay.
+     * A change in one file (e.g. a removed label) can
+     * change the diagnostics of the other files.
+     */
+    protected scheduleUpdate() {
+        if (this.timer)
+            clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            const changedFiles = this.changedFiles;
+            this.changedFiles = new Set<string>();
+            this.updateChanged(changedFiles);
+        }, 500);
+    }
+
+
+    /**
+     * Updates the diagnostics of the open documents that are affected by
+     * the changed files.
+     * @param changedFiles The paths of the changed files.
+     */
+    protected async updateChanged(changedFiles: Set<string>) {
+        for (const document of vscode.workspace.textDocuments) {
+            if (await this.isAffected(document, changedFiles))
+                await this.updateDocument(document);
+        }
+    }
+
+
+    /**
+     * Checks if the diagnostics of a document might change because of
+     * the changed files. I.e. if a changed file belongs to the translation
+     * unit of the document now or at the last check.
+     * Without translation unit all files of the workspace folder are used.
+     * @param document The document.
+     * @param changedFiles The paths of the changed files.
+     */
+    protected async isAffected(document: vscode.TextDocument, changedFiles: Set<string>): Promise<boolean> {
+        if (document.languageId != 'asm-collection' || document.uri.scheme != 'file')
+            return false;
+        const filePath = document.uri.fsPath;
+        if (changedFiles.has(filePath))
+            return true;
+        const config = Config.getConfigForDoc(document);
+        if (!config)
+            return false;
+        const scopes = [this.checkedScopes.get(filePath)];
+        if (config.diagnosticsUndefinedLabels != 'off' || config.diagnosticsDuplicateLabels != 'off')
+            scopes.push(await SymbolIndex.getIncludeScope(config, document));
+        for (const changedFile of changedFiles) {
+            for (const scope of scopes) {
+                if (scope ? scope.has(changedFile) : vscode.workspace.getWorkspaceFolder(vscode.Uri.file(changedFile))?.uri.fsPath == config.wsFolderPath)
+                    return true;
+            }
+        }
+        return false;
+    }
+
+
+    /**
+     * Updates the diagnostics of all open documents.
+     */
+    protected async updateAll() {
+        for (const document of vscode.workspace.textDocuments)
+            await this.updateDocument(document);
+    }
+
+
+    /**
+     * Updates the diagnostics of a document.
+     * Only asm files are checked, list files are generated by the assembler.
+     * @param document The document to check.
+     */
+    protected async updateDocument(document: vscode.TextDocument) {
+        if (document.languageId != 'asm-collection' || document.uri.scheme != 'file')
+            return;
+        const config = Config.getConfigForDoc(document);
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!config || !fileIndex) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        const diagnostics: vscode.Diagnostic[] = [];
+        const {blocks, errors} = SymbolIndex.getBlocks(fileIndex);
+
+        // Unbalanced blocks
+        if (config.diagnosticsUnbalancedBlocks != 'off') {
+            for (const error of errors) {
+                const range = new vscode.Range(error.line, error.start, error.line, error.end);
+                diagnostics.push(this.createDiagnostic(range, error.message, config.diagnosticsUnbalancedBlocks));
+            }
+        }
+
+        // Unresolved includes
+        if (config.diagnosticsUnresolvedIncludes != 'off') {
+            for (const include of fileIndex.includes) {
+                if (SymbolIndex.resolveInclude(config, fileIndex.filePath, include.path))
+                    continue;
+                const range = new vscode.Range(include.line, include.start, include.line, include.end);
+                diagnostics.push(this.createDiagnostic(range, "File '" + include.path + "' not found.", config.diagnosticsUnresolvedIncludes));
+            }
+        }
+
+        // Labels (the other files are used only for the labels)
+        let scope: Set<string> | undefined = new Set([fileIndex.filePath]);
+        if (config.diagnosticsUndefinedLabels != 'off' || config.diagnosticsDuplicateLabels != 'off') {
+            scope = await SymbolIndex.getIncludeScope(config, document);
+            const allFileIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, 'asm-collection', config.excludeFiles);
+            const fileIndexes = allFileIndexes.filter(fi => !scope || scope.has(fi.filePath));
+
+            // Undefined labels
+            if (config.diagnosticsUndefinedLabels != 'off') {
+                const symbolMap = await SymbolIndex.getSymbolMap(config, 'asm-collection', scope, true);
+                const references = findLabelReferences(fileIndex.lines, fileIndex, blocks, fileIndex.dialect);
+                for (const reference of references) {
+                    if (config.labelsExcludes.includes(reference.label.toLowerCase()))
+                        continue;
+                    if (isReferenceDefined(reference, moduleLabel => symbolMap.get(moduleLabel)))
+                        continue;
+                    const range = new vscode.Range(reference.line, reference.start, reference.line, reference.end);
+                    diagnostics.push(this.createDiagnostic(range, "Label '" + reference.label + "' is not defined.", config.diagnosticsUndefinedLabels));
+                }
+            }
+
+            // Duplicate labels (within the translation unit or the file)
+            if (config.diagnosticsDuplicateLabels != 'off') {
+                const duplicates = this.getDuplicateDiagnostics(fileIndex, scope ? fileIndexes : [fileIndex], config.diagnosticsDuplicateLabels);
+                diagnostics.push(...duplicates);
+            }
+        }
+
+        this.checkedScopes.set(fileIndex.filePath, scope);
+        this.collection.set(document.uri, diagnostics);
+    }
+
+
+    /**
+     * Returns the diagnostics for labels that are defined more than once.
+     * @param fileIndex The file to check.
+     * @param fileIndexes All files that are assembled together (incl. fileIndex).
+     * @param severity The severity to use.
+     * @returns The diagnostics for fileIndex.
+     */
+    protected getDuplicateDiagnostics(fileIndex: FileIndex, fileIndexes: FileIndex[], severity: DiagnosticsSeverity): vscode.Diagnostic[] {
+        // Collect all definitions
+        const definitions = new Map<string, {filePath: string, symbol: IndexedSymbol}[]>();
+        for (const fi of fileIndexes) {
+            const {blocks} = SymbolIndex.getBlocks(fi);
+            for (const symbol of getUniqueDefinitions(fi.lines, fi.symbols, blocks)) {
+                let list = definitions.get(symbol.moduleLabel);
+                if (!list) {
+                    list = [];
+                    definitions.set(symbol.moduleLabel, list);
+                }
+                list.push({filePath: fi.filePath, symbol});
+            }
+        }
+
+        // Report the definitions of the file
+        const diagnostics: vscode.Diagnostic[] = [];
+        for (const [moduleLabel, list] of definitions) {
+            if (list.length < 2)
+                continue;
+            for (const def of list) {
+                if (def.filePath != fileIndex.filePath)
+                    continue;
+                const symbol = def.symbol;
+                const range = new vscode.Range(symbol.line, symbol.start, symbol.line, symbol.end);
+                const diagnostic = this.createDiagnostic(range, "Label '" + moduleLabel + "' is defined more than once.", severity);
+                diagnostic.relatedInformation = list.filter(other => other != def).map(other => {
+                    const otherRange = new vscode.Range(other.symbol.line, other.symbol.start, other.symbol.line, other.symbol.end);
+                    const location = new vscode.Location(vscode.Uri.file(other.filePath), otherRange);
+                    return new vscode.DiagnosticRelatedInformation(location, 'Other definition');
+                });
+                diagnostics.push(diagnostic);
+            }
+        }
+        return diagnostics;
+    }
+
+
+    /**
+     * Creates a diagnostic.
+     * @param range The range in the document.
+     * @param message The text to show.
+     * @param severity The severity from the settings.
+     */
+    protected createDiagnostic(range: vscode.Range, message: string, severity: DiagnosticsSeverity): vscode.Diagnostic {
+        let vscodeSeverity: vscode.DiagnosticSeverity;
+        switch (severity) {
+            case 'warning': vscodeSeverity = vscode.DiagnosticSeverity.Warning; break;
+            case 'information': vscodeSeverity = vscode.DiagnosticSeverity.Information; break;
+            case 'hint': vscodeSeverity = vscode.DiagnosticSeverity.Hint; break;
+            default: vscodeSeverity = vscode.DiagnosticSeverity.Error; break;
+        }
+        const diagnostic = new vscode.Diagnostic(range, message, vscodeSeverity);
+        diagnostic.source = 'asm-code-lens';
+        return diagnostic;
+    }
+}
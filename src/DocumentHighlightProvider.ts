@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {findHighlights} from './highlights';
+import {findTempLabelOccurrences, getTempLabelAt} from './templabels';
+
+
+/**
+ * DocumentHighlightProvider for assembly language.
+ * Highlights the occurrences of the label under the cursor. Other than
+ * the plain word highlighting of vscode local labels are highlighted only
+ * in the scope of their non-local label and module prefixes are resolved.
+ */
+export class DocumentHighlightProvider implements vscode.DocumentHighlightProvider {
+    /**
+     * Called from vscode if the cursor is placed on a word.
+     * @param document The current document.
+     * @param position The cursor position.
+     * @param token
+     */
+    public async provideDocumentHighlights(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<vscode.DocumentHighlight[] | undefined> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.enableDocumentHighlights)
+            return undefined;
+        // Temporary labels: the definition and the references that resolve to it
+        const tempLabels = await SymbolIndex.getTempLabels(document);
+        if (token.isCancellationRequested)
+            return undefined;
+        if (getTempLabelAt(tempLabels, position.line, position.character)) {
+            const occurrences = findTempLabelOccurrences(tempLabels, position.line, position.character);
+            return occurrences.map(({direction, line, start, end}) => new vscode.DocumentHighlight(
+                new vscode.Range(line, start, line, end),
+                (direction) ? vscode.DocumentHighlightKind.Read : vscode.DocumentHighlightKind.Write
+            ));
+        }
+
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex || token.isCancellationRequested)
+            return undefined;
+        const {blocks} = SymbolIndex.getBlocks(fileIndex);
+        const highlights = findHighlights(fileIndex.lines, fileIndex, blocks, position.line, position.character, fileIndex.dialect);
+        return highlights.map(({kind, line, start, end}) => new vscode.DocumentHighlight(
+            new vscode.Range(line, start, line, end),
+            (kind == 'write') ? vscode.DocumentHighlightKind.Write : vscode.DocumentHighlightKind.Read
+        ));
+    }
+}
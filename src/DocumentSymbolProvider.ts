@@ -2,6 +2,7 @@ import { AllowedLanguageIds } from './languageId';
 import * as vscode from 'vscode';
 import {stripAllComments} from './comments';
 import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
 import {DocSymbolRegexes} from './regexes/docsymbolregexes';
 
 
@@ -19,7 +20,7 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
      * @return An array of document highlights or a thenable that resolves to such. The lack of a result can be
      * signaled by returning `undefined`, `null`, or an empty array.
      */
-    public provideDocumentSymbols(document: vscode.TextDocument, token: vscode.CancellationToken): vscode.ProviderResult<vscode.SymbolInformation[] | vscode.DocumentSymbol[]> {
+    public async provideDocumentSymbols(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.SymbolInformation[] | vscode.DocumentSymbol[] | undefined> {
         // Check which workspace
         const config = Config.getConfigForDoc(document);
         if (!config?.enableOutlineView)
@@ -41,18 +42,21 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
                 regexLabel = DocSymbolRegexes.regexLabelWithColon(languageId);
             else {
                 if (languageId == 'asm-list-file')
-                    return undefined as any; // In list files labels without colons are not supported.
+                    return undefined; // In list files labels without colons are not supported.
                 regexLabel = DocSymbolRegexes.regexLabelWithoutColon();
             }
         }
 
-        const regexModule = DocSymbolRegexes.regexModuleLabel();
+        const dialect = await SymbolIndex.getDialect(document);
+        const {moduleDirectives, endModuleDirectives, macroDirectives, endMacroDirectives, globalLabelPrefix} = dialect;
+        const regexModule = DocSymbolRegexes.regexModuleLabel(moduleDirectives, endModuleDirectives);
         const regexStruct = DocSymbolRegexes.regexStructLabel();
+        const endKeywords = [...endModuleDirectives, 'ends'];
         //const regexNotLabels = /^(include|if|endif|else|elif)$/i;
-        const excludes = ['include', ...config.labelsExcludes];
+        const excludes = ['include', ...moduleDirectives, ...endModuleDirectives, ...macroDirectives, ...endMacroDirectives, ...config.labelsExcludes];
         const regexConst = DocSymbolRegexes.regexConst();
         const regexData = DocSymbolRegexes.regexData();
-        const regexMacro = DocSymbolRegexes.regexMacro(languageId);
+        const regexMacro = DocSymbolRegexes.regexMacro(languageId, macroDirectives);
         let lastSymbol;
         let lastSymbols = new Array<vscode.DocumentSymbol>();
         let lastAbsSymbolChildren;
@@ -61,7 +65,7 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
 
         // Strip all comments
         const lines = document.getText().split('\n');
-        stripAllComments(lines);
+        stripAllComments(lines, dialect.commentPrefixes);
 
         // Go through all lines
         const len = lines.length;
@@ -75,7 +79,7 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
                 const label = match[2]; // Label without ':'
 
                 // Check that label is not excluded
-                if (!excludes.includes(label)) {
+                if (!excludes.includes(label.toLowerCase())) {
                     // Check for label
                     // Create range
                     const range = new vscode.Range(line, 0, line, 10000);
@@ -90,7 +94,7 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
                         // Relative label
                         lastAbsSymbolChildren?.push(lastSymbol);
                     }
-                    else if (label.startsWith('@')) {
+                    else if (globalLabelPrefix && label.startsWith(globalLabelPrefix)) {
                         // Absolute label ignoring MODULE
                         symbols.push(lastSymbol);
                     }
@@ -124,12 +128,13 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
                     const range = new vscode.Range(line, 0, line, 10000);
                     const macroSymbol = new vscode.DocumentSymbol(macroName, '', vscode.SymbolKind.Method, range, range);
                     symbols.push(macroSymbol);
+                    continue;
                 }
-                continue;
             }
 
             // Now check for MODULE or STRUCT
-            let matchModule = regexModule.exec(lineContents);
+            let matchModule = regexModule?.exec(lineContents);
+            const isModule = !!matchModule;
             if (!matchModule)
                 matchModule = regexStruct.exec(lineContents);
             if (matchModule) {
@@ -140,7 +145,7 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
                     // Create range
                     const range = new vscode.Range(line, 0, line, 10000);
                     // Create symbol
-                    const kind = (keyword.startsWith("module")) ? vscode.SymbolKind.Module : vscode.SymbolKind.Struct;
+                    const kind = (isModule) ? vscode.SymbolKind.Module : vscode.SymbolKind.Struct;
                     const moduleSymbol = new vscode.DocumentSymbol(moduleName, '', kind, range, range);
                     // Add to children of last module
                     const len = lastModules.length;
@@ -155,7 +160,7 @@ export class DocumentSymbolProvider implements vscode.DocumentSymbolProvider {
                 }
 
                 // Check for ENDMODULE
-                if (keyword == "endmodule" || keyword == "ends") {
+                if (endKeywords.includes(keyword)) {
                     // Handle ENDMODULE
                     lastModules.pop();
                     lastAbsSymbolChildren = undefined;
@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {getFoldingRanges} from './folding';
+
+
+/**
+ * FoldingRangeProvider for assembly language.
+ * Folds MODULE, STRUCT, MACRO, DUP/REPT and IF/ELSE/ENDIF blocks and
+ * comment blocks. Optionally also the routines.
+ * (The indentation based folding of vscode is of little use for assembler.)
+ */
+export class FoldingRangeProvider implements vscode.FoldingRangeProvider {
+    /**
+     * Called from vscode to get the folding ranges of the document.
+     * @param document The document.
+     * @param context
+     * @param token
+     */
+    public async provideFoldingRanges(document: vscode.TextDocument, context: vscode.FoldingContext, token: vscode.CancellationToken): Promise<vscode.FoldingRange[] | undefined> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.enableFolding)
+            return undefined;
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex || token.isCancellationRequested)
+            return undefined;
+        const origLines = document.getText().split('\n');
+        const {blocks} = SymbolIndex.getBlocks(fileIndex);
+        const ranges = getFoldingRanges(fileIndex.lines, origLines, fileIndex, blocks, config.foldingRoutines);
+        return ranges.map(({start, end, kind}) => new vscode.FoldingRange(start, end, (kind == 'comment') ? vscode.FoldingRangeKind.Comment : vscode.FoldingRangeKind.Region));
+    }
+}
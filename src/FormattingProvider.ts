@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {stripAllComments} from './comments';
+import {FormatOptions, formatLines} from './formatter';
+
+
+/**
+ * Document and range formatting for assembly language.
+ * Labels are moved to column 0, mnemonics, operands and trailing comments
+ * are aligned to the columns of the 'format.*' settings.
+ * Quoted text, comment-only lines and block comments are not changed.
+ */
+export class FormattingProvider implements vscode.DocumentFormattingEditProvider, vscode.DocumentRangeFormattingEditProvider {
+    /**
+     * Called from vscode to format the whole document.
+     * @param document The document.
+     * @param options The tab size and whether to use spaces.
+     * @param token
+     */
+    public async provideDocumentFormattingEdits(document: vscode.TextDocument, options: vscode.FormattingOptions, token: vscode.CancellationToken): Promise<vscode.TextEdit[]> {
+        return this.format(document, options, 0, document.lineCount - 1);
+    }
+
+
+    /**
+     * Called from vscode to format a selection.
+     * @param document The document.
+     * @param range The lines to format.
+     * @param options The tab size and whether to use spaces.
+     * @param token
+     */
+    public async provideDocumentRangeFormattingEdits(document: vscode.TextDocument, range: vscode.Range, options: vscode.FormattingOptions, token: vscode.CancellationToken): Promise<vscode.TextEdit[]> {
+        return this.format(document, options, range.start.line, range.end.line);
+    }
+
+
+    /**
+     * Formats the lines of a document.
+     * @param document The document.
+     * @param formattingOptions The tab size and whether to use spaces.
+     * @param startLine The first line to format.
+     * @param endLine The last line to format (inclusive).
+     * @returns The edits for the changed lines.
+     */
+    protected async format(document: vscode.TextDocument, formattingOptions: vscode.FormattingOptions, startLine: number, endLine: number): Promise<vscode.TextEdit[]> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.enableFormatting)
+            return [];
+        const dialect = await SymbolIndex.getDialect(document);
+
+        // The whole document is stripped to know the block comments before the range
+        const origLines: string[] = [];
+        for (let i = 0; i < document.lineCount; i++)
+            origLines.push(document.lineAt(i).text);
+        const lines = [...origLines];
+        stripAllComments(lines, dialect.commentPrefixes);
+
+        const options: FormatOptions = {
+            mnemonicColumn: config.formatMnemonicColumn,
+            operandColumn: config.formatOperandColumn,
+            commentColumn: config.formatCommentColumn,
+            case: config.formatCase,
+            labelsWithColons: config.labelsWithColons,
+            labelsWithoutColons: config.labelsWithoutColons,
+            useTabs: !formattingOptions.insertSpaces,
+            tabSize: formattingOptions.tabSize
+        };
+        return formatLines(origLines, lines, dialect, options, startLine, endLine).map(({line, text}) =>
+            vscode.TextEdit.replace(document.lineAt(line).range, text));
+    }
+}
@@ -3,11 +3,36 @@ import * as path from 'path';
 import {readFileSync} from 'fs';
 import {PackageInfo} from './whatsnew/packageinfo';
 import {DonateInfo} from './donate/donateinfo';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {IndexedSymbol, evaluateSymbol} from './symbolparser';
+import {CalculatorState, addToHistory, evaluateCalculatorInput, getLastResult, interpretWord} from './calculator';
+import {GlobalStorage} from './globalstorage';
 
 
 export class HexCalcProvider implements vscode.WebviewViewProvider {
-	// The webview is stored here.
-	protected webview: vscode.Webview;
+	// Global storage property for the history, word size etc.
+	protected static STATE_ID = 'hexCalculatorState';
+
+	// The max. number of values kept in the history (same as in the webview).
+	protected static MAX_HISTORY_LENGTH = 100;
+
+	// All hex calculators (explorer and debug view).
+	protected static providers: HexCalcProvider[] = [];
+
+	// The webview is stored here. undefined if the view is not opened (or disposed).
+	protected webview?: vscode.Webview;
+
+	// The ID of the view, e.g. 'asm-code-lens.calcview-explorer'.
+	protected viewType: string;
+
+
+	/**
+	 * Remembers the provider to send values from the editor.
+	 */
+	constructor() {
+		HexCalcProvider.providers.push(this);
+	}
 
 
 	/**
@@ -16,6 +41,10 @@ export class HexCalcProvider implements vscode.WebviewViewProvider {
 	resolveWebviewView(webviewView: vscode.WebviewView, context: vscode.WebviewViewResolveContext<unknown>, token: vscode.CancellationToken): void | Thenable<void> {
 		// Store webview
 		this.webview = webviewView.webview;
+		this.viewType = webviewView.viewType;
+		webviewView.onDidDispose(() => {
+			this.webview = undefined;
+		});
 
 		// Allow scripts in the webview
 		this.webview.options = {
@@ -28,6 +57,15 @@ export class HexCalcProvider implements vscode.WebviewViewProvider {
 				case 'donateClicked':
 					DonateInfo.openDonateWebView();
 					break;
+				case 'evaluate':
+					this.evaluate(message.input, message.radix, message.lastResult);
+					break;
+				case 'saveState':
+					this.saveState(message.state);
+					break;
+				case 'insert':
+					this.insertIntoEditor(message.text);
+					break;
 			}
 		});
 
@@ -36,6 +74,141 @@ export class HexCalcProvider implements vscode.WebviewViewProvider {
 	}
 
 
+	/**
+	 * Stores the state (history, word size etc.) of the calculator and
+	 * sends it to the other opened calculator so that both show the same
+	 * history.
+	 * @param state The state of this calculator.
+	 */
+	protected saveState(state: CalculatorState) {
+		GlobalStorage.Set(HexCalcProvider.STATE_ID, state);
+		for (const provider of HexCalcProvider.providers) {
+			if (provider != this)
+				provider.webview?.postMessage({command: 'restoreState', state});
+		}
+	}
+
+
+	/**
+	 * Evaluates an input line of the calculator and sends the result (or
+	 * the error) back to the webview.
+	 * Labels and EQUs are resolved in the workspace folder of the active editor.
+	 * @param input The expression, e.g. "SCREEN_BASE + 32*row" or "+ 5".
+	 * @param radix 10 or 16. The radix of numbers without prefix or suffix.
+	 * @param lastResult The last result. Used if the input starts with an operator.
+	 */
+	protected async evaluate(input: string, radix: number, lastResult: number) {
+		try {
+			const value = await HexCalcProvider.calculate(input, radix, lastResult);
+			await this.webview?.postMessage({command: 'result', input, value});
+		}
+		catch (e) {
+			await this.webview?.postMessage({command: 'error', input, message: e.message});
+		}
+	}
+
+
+	/**
+	 * Evaluates an input line of the calculator.
+	 * @param input The expression, e.g. "SCREEN_BASE + 32*row" or "+ 5".
+	 * @param radix 10 or 16. The radix of numbers without prefix or suffix.
+	 * @param lastResult The last result. Used if the input starts with an operator.
+	 * @returns The value. Throws an exception if the input cannot be evaluated.
+	 */
+	protected static async calculate(input: string, radix: number, lastResult: number): Promise<number> {
+		const symbolMap = await this.getSymbolMap();
+		const resolve = (name: string) => {
+			const symbol = symbolMap.get(name);
+			return symbol && evaluateSymbol(symbol, moduleLabel => symbolMap.get(moduleLabel));
+		};
+		return evaluateCalculatorInput(input, lastResult, resolve, radix);
+	}
+
+
+	/**
+	 * Inserts a value at the cursor(s) of the active assembler editor.
+	 * @param text The value as shown in the calculator, e.g. "0x4000".
+	 */
+	protected async insertIntoEditor(text: string) {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor || editor.document.languageId != 'asm-collection') {
+			vscode.window.showWarningMessage("There is no active assembler editor to insert '" + text + "'.");
+			return;
+		}
+		await editor.edit(builder => {
+			for (const selection of editor.selections)
+				builder.replace(selection, text);
+		});
+		// Continue typing in the editor
+		await vscode.window.showTextDocument(editor.document, editor.viewColumn);
+	}
+
+
+	/**
+	 * Command: sends the selected number (or the number at the cursor) of
+	 * the active editor to the calculator and shows the calculator.
+	 * The selection can also be an expression or a label.
+	 */
+	public static async sendSelectionToCalculator() {
+		const editor = vscode.window.activeTextEditor;
+		if (!editor)
+			return;
+		const {document, selection} = editor;
+		const range = (selection.isEmpty) ? document.getWordRangeAtPosition(selection.active, /[$#%]?\w+/) : selection;
+		const input = range && document.getText(range).trim();
+		if (!input) {
+			vscode.window.showWarningMessage("There is no number at the cursor.");
+			return;
+		}
+
+		// Evaluate
+		const state = GlobalStorage.Get<CalculatorState>(this.STATE_ID);
+		let value: number;
+		try {
+			value = await this.calculate(input, 10, getLastResult(state));
+		}
+		catch (e) {
+			vscode.window.showWarningMessage("Cannot evaluate '" + input + "': " + e.message);
+			return;
+		}
+
+		// Send to the calculator that is shown. If it is not opened yet the
+		// value is added to the stored history which is shown when the view
+		// opens. The other calculator gets the history when it is saved.
+		const configuration = PackageInfo.getConfiguration();
+		const inExplorer = configuration.get<boolean>('hexCalculator.showInExplorer');
+		const viewId = (inExplorer) ? 'asm-code-lens.calcview-explorer' : 'asm-code-lens.calcview-debug';
+		const provider = this.providers.find(p => p.webview && p.viewType == viewId);
+		if (provider) {
+			await provider.webview?.postMessage({command: 'result', input, value});
+		}
+		else {
+			const newState: CalculatorState = state ?? {wordSize: 16, signed: false, history: []};
+			addToHistory(newState.history, {input, value: interpretWord(value, newState.wordSize, newState.signed)}, this.MAX_HISTORY_LENGTH);
+			GlobalStorage.Set(this.STATE_ID, newState);
+			for (const calculator of this.providers)
+				await calculator.webview?.postMessage({command: 'restoreState', state: newState});
+		}
+
+		// Show the calculator
+		await vscode.commands.executeCommand(viewId + '.focus');
+	}
+
+
+	/**
+	 * Returns the symbols of the workspace folder of the active editor
+	 * (or of the first workspace folder).
+	 * @returns A map: full label (incl. module) -> symbol.
+	 */
+	protected static async getSymbolMap(): Promise<Map<string, IndexedSymbol>> {
+		const document = vscode.window.activeTextEditor?.document;
+		const config = (document && Config.getConfigForDoc(document)) || Config.configs.values().next().value;
+		if (!config)
+			return new Map<string, IndexedSymbol>();
+		return SymbolIndex.getSymbolMap(config, 'asm-collection');
+	}
+
+
 	/**
 	 * Returns the html code to display the calculator.
 	 */
@@ -55,9 +228,14 @@ export class HexCalcProvider implements vscode.WebviewViewProvider {
 		// Get hex prefix
 		const configuration = PackageInfo.getConfiguration();
 		const hexPrefix = configuration.get<string>('hexCalculator.hexPrefix');
-		// Add to initialization
-		mainHtml = mainHtml.replace('//${init}', `
-let hexPrefix = "${hexPrefix}";`
+		// Get the stored history etc.
+		const state = GlobalStorage.Get<CalculatorState>(HexCalcProvider.STATE_ID);
+		// '<' is escaped to not end the script by an input like "</script>"
+		const stateJson = (state) ? JSON.stringify(state).replace(/</g, '\\u003c') : 'undefined';
+		// Add to initialization (function to not interpret '$' in the inputs)
+		mainHtml = mainHtml.replace('//${init}', () => `
+let hexPrefix = "${hexPrefix}";
+let savedState = ${stateJson};`
 		);
 
 		// Get donated state
@@ -3,8 +3,16 @@ import { CommonRegexes } from './regexes/commonregexes';
 import * as vscode from 'vscode';
 import {grepMultiple, reduceLocations} from './grep';
 import {Config} from './config';
-import {readCommentsForLine} from './comments';
+import {readCommentsForLine, stripAllComments} from './comments';
 import {getCompleteLabel} from './grepextra';
+import {SymbolIndex} from './symbolindex';
+import {IndexedSymbol, evaluateSymbol} from './symbolparser';
+import {formatValue} from './expression';
+import {formatAddress} from './listfile';
+import {getInstruction} from './asmblocks';
+import {getDirectiveDoc, getInstructionDoc, getRegisterDoc} from './instructiondocs';
+import {formatMacroSignature, getMacroAt, parseMacros} from './macros';
+import {StructModel, formatFieldInfo} from './structs';
 
 
 /**
@@ -24,6 +32,26 @@ export class HoverProvider implements vscode.HoverProvider {
         if (!config?.enableHovering)
             return undefined;   // Don't show any hover.
 
+        // Check for instructions, directives and registers
+        const docHover = await this.getDocHover(document, position);
+        if (docHover)
+            return docHover;
+
+        // Check for macro parameters
+        const paramHover = await this.getMacroParameterHover(document, position);
+        if (paramHover)
+            return paramHover;
+
+        // Check for struct fields, e.g. "POINT.x" or "player.x"
+        const structField = await SymbolIndex.getStructFieldAt(config, document, position);
+        if (structField) {
+            const {struct, field} = structField;
+            const doc = await vscode.workspace.openTextDocument(struct.filePath);
+            const foundTexts = readCommentsForLine(doc.getText().split('\n'), field.line);
+            foundTexts.push('`' + field.moduleLabel + '`: ' + formatFieldInfo(field));
+            return new vscode.Hover(foundTexts.map(line => new vscode.MarkdownString(line)));
+        }
+
         // Search the word:
 
         // Check for local label
@@ -48,14 +76,17 @@ export class HoverProvider implements vscode.HoverProvider {
         const searchSjasmMacro = CommonRegexes.regexMacroForWord(searchWord);
         regexes.push(searchSjasmMacro);
 
-        const locations = await grepMultiple(regexes, config.wsFolderPath, languageId, config.excludeFiles);
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const locations = await grepMultiple(regexes, config.wsFolderPath, languageId, config.excludeFiles, searchWord, scope, token);
         // Reduce the found locations.
-        const regexLbls = CommonRegexes.regexesLabel(config, languageId);
-        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, false, true, regexEnd);
+        const regexLbls = CommonRegexes.regexesLabel(config, languageId, await SymbolIndex.getDialect(document));
+        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, false, true, regexEnd, token);
 
         // Now read the comment lines above the document.
         // Normally there is only one but e.g. if there are 2 modules with the same name there could be more.
         const hoverTexts = new Array<vscode.MarkdownString>();
+        let symbolMap: Map<string, IndexedSymbol> | undefined;
+        let structModel: StructModel | undefined;
         // Check for end
         for (const loc of reducedLocations) {
             // Check if included in exclusion list
@@ -71,6 +102,37 @@ export class HoverProvider implements vscode.HoverProvider {
 
             // Now find all comments above the found line
             const foundTexts = readCommentsForLine(lines, lineNr);
+
+            // Add the parameters of a macro
+            const fileIndex = await SymbolIndex.getFileIndex(filePath);
+            const macro = fileIndex && parseMacros(fileIndex.lines, fileIndex.dialect).find(m => m.line == lineNr);
+            if (macro)
+                foundTexts.unshift('```asm\n' + formatMacroSignature(macro) + '\n```');
+
+            // Add the size of a struct
+            const structSymbol = fileIndex?.symbols.find(s => s.line == lineNr && s.kind == 'struct');
+            if (structSymbol) {
+                if (!structModel)
+                    structModel = await SymbolIndex.getStructModel(config, languageId, scope);
+                const struct = structModel.structs.get(structSymbol.moduleLabel);
+                if (struct)
+                    foundTexts.push('`' + struct.moduleLabel + '`: size ' + (struct.size ?? '?'));
+            }
+
+            // Add the value of a constant
+            const symbol = fileIndex?.symbols.find(s => s.line == lineNr && s.kind == 'equ' && s.value != undefined);
+            if (symbol) {
+                if (!symbolMap)
+                    symbolMap = await SymbolIndex.getSymbolMap(config, languageId, scope);
+                foundTexts.push(this.getValueText(symbol, symbolMap));
+            }
+            else {
+                // Add the address of a label
+                const address = await SymbolIndex.getLabelAddress(config, filePath, lineNr);
+                if (address != undefined)
+                    foundTexts.push('`' + searchWord + '`: address ' + formatAddress(address, Config.globalHexPrefix));
+            }
+
             if (foundTexts.length > 0) {
                 // Separate several found texts
                 if (hoverTexts.length > 0)
@@ -90,4 +152,89 @@ export class HoverProvider implements vscode.HoverProvider {
         return hover;
     }
 
+
+    /**
+     * Returns the documentation if the position is on an instruction,
+     * a directive or a register (in the operands).
+     * Only for asm files.
+     * @param document The current document.
+     * @param position The hovered position.
+     * @returns The hover or undefined if the position is on something else.
+     */
+    protected async getDocHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        if (document.languageId != 'asm-collection')
+            return undefined;
+        let range = document.getWordRangeAtPosition(position, /\.?\w+/);
+        if (!range)
+            return undefined;
+        const lines = [document.lineAt(position.line).text];
+        const dialect = await SymbolIndex.getDialect(document);
+        stripAllComments(lines, dialect.commentPrefixes);
+        const instr = getInstruction(lines[0], dialect);
+        if (!instr)
+            return undefined;
+        let word = document.getText(range);
+        const instrEnd = instr.start + instr.instruction.length;
+        let doc: string | undefined;
+        if (range.start.character == instr.start) {
+            // E.g. "DEFARRAY+"
+            if (lines[0][instrEnd] == '+') {
+                word += '+';
+                range = range.with(undefined, range.end.translate(0, 1));
+            }
+            doc = getInstructionDoc(word) ?? getDirectiveDoc(word);
+        }
+        else if (range.start.character >= instrEnd && range.end.character <= lines[0].length && lines[0][range.start.character] != ' ') {
+            // Note: strings and comments are blanked in the stripped line
+            doc = getRegisterDoc(word);
+        }
+        if (!doc)
+            return undefined;
+        return new vscode.Hover(new vscode.MarkdownString(doc), range);
+    }
+
+
+    /**
+     * Returns the hover for a parameter inside a macro body.
+     * @param document The current document.
+     * @param position The hovered position.
+     * @returns The signature of the macro or undefined if the position is
+     * not on a parameter.
+     */
+    protected async getMacroParameterHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+        const range = document.getWordRangeAtPosition(position, /\w+/);
+        if (!range)
+            return undefined;
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex)
+            return undefined;
+        const macro = getMacroAt(parseMacros(fileIndex.lines, fileIndex.dialect), position.line);
+        const word = document.getText(range);
+        if (!macro?.params.includes(word))
+            return undefined;
+        // Not inside comments or strings
+        const stripped = fileIndex.lines[position.line];
+        if (stripped.substring(range.start.character, range.end.character) != word)
+            return undefined;
+        const text = '(parameter) `' + word + '` of macro\n```asm\n' + formatMacroSignature(macro) + '\n```';
+        return new vscode.Hover(new vscode.MarkdownString(text), range);
+    }
+
+
+    /**
+     * Evaluates a constant and returns the text to show.
+     * @param symbol The constant (EQU).
+     * @param symbolMap All symbols. Used to resolve the symbols in the expression.
+     * @returns E.g. "`COLOR` = 123, 0x7B, 0b01111011".
+     */
+    protected getValueText(symbol: IndexedSymbol, symbolMap: Map<string, IndexedSymbol>): string {
+        try {
+            const value = evaluateSymbol(symbol, moduleLabel => symbolMap.get(moduleLabel));
+            const {dec, hex, bin} = formatValue(value, Config.globalHexPrefix);
+            return '`' + symbol.label + '` = ' + dec + ', ' + hex + ', ' + bin;
+        }
+        catch (e) {
+            return '`' + symbol.label + '`: ' + e.message;
+        }
+    }
 }
@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {Config} from './config';
+import {stripAllComments} from './comments';
+import {MacroProvider} from './MacroProvider';
+import {SymbolIndex} from './symbolindex';
+import {expandMacro, formatMacroSignature, splitMacroArguments} from './macros';
+
+
+/**
+ * Shows the expansion of the macro invocation under the cursor
+ * ('Preview Macro Expansion').
+ * The expanded body is shown in a read-only virtual document.
+ * Nested macro invocations are not expanded.
+ */
+export class MacroExpansionView implements vscode.TextDocumentContentProvider {
+    // The URI scheme of the virtual documents.
+    protected static readonly scheme = 'asm-code-lens-macro';
+
+    // Used to inform vscode about changed contents.
+    protected changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    // The contents of the virtual documents. Key = URI.
+    protected contents = new Map<string, string>();
+
+
+    /**
+     * Constructor.
+     * Registers the content provider, the command and removes the contents
+     * of closed virtual documents.
+     * @param context The extension context.
+     */
+    constructor(context: vscode.ExtensionContext) {
+        context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(MacroExpansionView.scheme, this));
+        context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
+            // Setting the language (see previewExpansion) closes the
+            // document with the previous language, too
+            if (document.uri.scheme == MacroExpansionView.scheme && document.languageId == 'asm-collection')
+                this.contents.delete(document.uri.toString());
+        }));
+        context.subscriptions.push(vscode.commands.registerCommand('asm-code-lens.preview-macro-expansion', async () => {
+            await this.previewExpansion();
+        }));
+    }
+
+
+    /**
+     * Called from vscode to get the contents of a virtual document.
+     * @param uri The URI of the virtual document.
+     */
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+
+    /**
+     * Expands the macro invocation at the cursor of the active editor
+     * and shows it beside the editor.
+     */
+    protected async previewExpansion() {
+        const editor = vscode.window.activeTextEditor;
+        const document = editor?.document;
+        if (document?.languageId != 'asm-collection')
+            return;
+        const config = Config.getConfigForDoc(document);
+        if (!config)
+            return;
+
+        // Get the invocation and the macro
+        const lineNr = editor!.selection.active.line;
+        const dialect = await SymbolIndex.getDialect(document);
+        const {line, invocation} = MacroProvider.getInvocationAt(document, lineNr, dialect);
+        const found = invocation && await MacroProvider.findMacro(config, document, invocation.name, lineNr);
+        if (!found) {
+            vscode.window.showWarningMessage('No macro invocation found at the cursor.');
+            return;
+        }
+        const {macro, filePath} = found;
+
+        // Expand
+        const macroDoc = await vscode.workspace.openTextDocument(filePath);
+        const origLines = macroDoc.getText().split(/\r?\n/);
+        const lines = [...origLines];
+        const macroDialect = await SymbolIndex.getDialect(macroDoc);
+        stripAllComments(lines, macroDialect.commentPrefixes);
+        const args = splitMacroArguments(line, invocation.argsStart).map(arg => arg.text);
+        const expanded = expandMacro(macro, origLines, lines, args);
+        const header = [
+            '; Expansion of: ' + line.trim(),
+            '; Macro: ' + formatMacroSignature(macro) + ' (' + path.basename(filePath) + ':' + (macro.line + 1) + ')'
+        ];
+
+        // Show
+        const uri = vscode.Uri.from({scheme: MacroExpansionView.scheme, path: '/' + macro.name + '.asm', query: document.uri.fsPath + ':' + lineNr});
+        this.contents.set(uri.toString(), [...header, ...expanded].join('\n') + '\n');
+        this.changeEmitter.fire(uri);
+        const expansionDoc = await vscode.workspace.openTextDocument(uri);
+        await vscode.languages.setTextDocumentLanguage(expansionDoc, 'asm-collection');
+        await vscode.window.showTextDocument(expansionDoc, {viewColumn: vscode.ViewColumn.Beside, preserveFocus: true, preview: true});
+    }
+}
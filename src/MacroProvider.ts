@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import {Config} from './config';
+import {SymbolIndex, FileIndex} from './symbolindex';
+import {readCommentsForLine, stripAllComments} from './comments';
+import {getLabelCandidates, getLabelContext} from './labelcheck';
+import {MacroDefinition, formatMacroSignature, getActiveArgument, getInvocation, parseMacros} from './macros';
+import {Dialect} from './dialects';
+
+
+/**
+ * SignatureHelpProvider for macros.
+ * Shows the formal parameters of a macro (and the comments above its
+ * definition) while typing the arguments of a macro invocation.
+ */
+export class MacroProvider implements vscode.SignatureHelpProvider {
+
+    /**
+     * Called from vscode while typing the arguments.
+     * @param document The current document.
+     * @param position The cursor position.
+     * @param token
+     * @param context
+     */
+    public async provideSignatureHelp(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken, context: vscode.SignatureHelpContext): Promise<vscode.SignatureHelp | undefined> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.enableSignatureHelp)
+            return undefined;
+
+        // Get the macro
+        const dialect = await SymbolIndex.getDialect(document);
+        const {line, invocation} = MacroProvider.getInvocationAt(document, position.line, dialect);
+        if (!invocation || position.character <= invocation.argsStart || position.character > line.length)
+            return undefined;
+        const found = await MacroProvider.findMacro(config, document, invocation.name, position.line);
+        if (!found)
+            return undefined;
+        const {macro, filePath} = found;
+
+        // Create the signature
+        const label = formatMacroSignature(macro);
+        const signature = new vscode.SignatureInformation(label);
+        const comments = await MacroProvider.getMacroComments(filePath, macro);
+        if (comments.length > 0)
+            signature.documentation = new vscode.MarkdownString(comments.join('\n'));
+        let k = macro.name.length + 1;
+        for (const param of macro.params) {
+            signature.parameters.push(new vscode.ParameterInformation([k, k + param.length]));
+            k += param.length + 2;	// ', '
+        }
+        const help = new vscode.SignatureHelp();
+        help.signatures = [signature];
+        help.activeSignature = 0;
+        help.activeParameter = getActiveArgument(line, invocation.argsStart, position.character);
+        return help;
+    }
+
+
+    /**
+     * Returns the macro invocation of a line.
+     * @param document The document.
+     * @param lineNr The line number.
+     * @param dialect The assembler dialect of the document.
+     * @returns The line (cut at the comment, strings are kept) and the
+     * invocation (undefined if the line has no instruction).
+     */
+    public static getInvocationAt(document: vscode.TextDocument, lineNr: number, dialect: Dialect): {line: string, invocation: ReturnType<typeof getInvocation>} {
+        const lineContents = document.lineAt(lineNr).text;
+        const lines = [lineContents];
+        stripAllComments(lines, dialect.commentPrefixes);
+        return {
+            line: lineContents.substring(0, lines[0].length),
+            invocation: getInvocation(lines[0], dialect)
+        };
+    }
+
+
+    /**
+     * Searches the definition of a macro.
+     * The name is resolved like a label (module, nesting), the current file
+     * is searched first.
+     * @param config The configuration of the workspace folder.
+     * @param document The document with the invocation.
+     * @param name The name of the macro as used in the invocation.
+     * @param lineNr The line of the invocation.
+     * @returns The macro and the path of the file that defines it.
+     * undefined if there is no macro with that name.
+     */
+    public static async findMacro(config: Config, document: vscode.TextDocument, name: string, lineNr: number): Promise<{macro: MacroDefinition, filePath: string} | undefined> {
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex)
+            return undefined;
+        const {module, nonLocalLabel} = getLabelContext(fileIndex, lineNr);
+        const candidates = getLabelCandidates(name, module, nonLocalLabel);
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const fileIndexes: FileIndex[] = [fileIndex];
+        for (const other of await SymbolIndex.getFileIndexes(config.wsFolderPath, fileIndex.languageId, config.excludeFiles)) {
+            if (other != fileIndex && (!scope || scope.has(other.filePath)))
+                fileIndexes.push(other);
+        }
+        for (const candidate of candidates) {
+            for (const {filePath, lines, symbols, dialect} of fileIndexes) {
+                const symbol = symbols.find(s => s.kind == 'macro' && s.moduleLabel == candidate);
+                if (!symbol)
+                    continue;
+                const macro = parseMacros(lines, dialect).find(m => m.line == symbol.line);
+                if (macro)
+                    return {macro, filePath};
+            }
+        }
+        return undefined;
+    }
+
+
+    /**
+     * Returns the comments above (or on) the MACRO line.
+     * @param filePath The file with the macro.
+     * @param macro The macro.
+     */
+    public static async getMacroComments(filePath: string, macro: MacroDefinition): Promise<string[]> {
+        const doc = await vscode.workspace.openTextDocument(filePath);
+        const lines = doc.getText().split('\n');
+        return readCommentsForLine(lines, macro.line);
+    }
+}
@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {NumberFormat, NumberLiteral, findNumberLiterals, getNumberConversions, getNumberLiteralAt, normalizeNumberLiteral, removeTempLabels} from './numberformat';
+
+
+/**
+ * Converts number literals between decimal, hex, binary and character
+ * literals.
+ * On a number the quick actions (light bulb) offer the conversions into
+ * the other formats. The command 'Normalize Number Literals' changes all
+ * hex and binary literals of a file to the preferred style (settings
+ * 'numbers.hexStyle' and 'numbers.binaryStyle').
+ */
+export class NumberFormatProvider implements vscode.CodeActionProvider {
+    // The names of the formats used in the titles.
+    protected static readonly formatNames: {[format in NumberFormat]: string} = {
+        decimal: 'decimal',
+        hex: 'hex',
+        binary: 'binary',
+        octal: 'octal',
+        char: 'character'
+    };
+
+
+    /**
+     * Constructor.
+     * Registers the code actions and the command.
+     * @param context The extension context.
+     */
+    constructor(context: vscode.ExtensionContext) {
+        const asmFiles: vscode.DocumentSelector = {scheme: "file", language: 'asm-collection'};
+        context.subscriptions.push(vscode.languages.registerCodeActionsProvider(asmFiles, this, {providedCodeActionKinds: [vscode.CodeActionKind.RefactorRewrite]}));
+        context.subscriptions.push(vscode.commands.registerCommand('asm-code-lens.normalize-numbers', async () => {
+            await this.normalizeNumbers();
+        }));
+    }
+
+
+    /**
+     * Called by vscode to get the code actions at the cursor.
+     * @param document The document.
+     * @param range The selected range or the cursor position.
+     * @returns The conversions of the number at the cursor.
+     */
+    public async provideCodeActions(document: vscode.TextDocument, range: vscode.Range | vscode.Selection): Promise<vscode.CodeAction[]> {
+        const config = Config.getConfigForDoc(document);
+        if (!config)
+            return [];
+        const {line, character} = range.start;
+        const literals = await this.getNumberLiterals(document, line);
+        const literal = getNumberLiteralAt(literals, character);
+        if (!literal)
+            return [];
+
+        const literalRange = new vscode.Range(line, literal.start, line, literal.end);
+        return getNumberConversions(literal, config.numbersHexStyle, config.numbersBinaryStyle).map(conversion => {
+            const title = 'Convert to ' + NumberFormatProvider.formatNames[conversion.format] + ': ' + conversion.text;
+            const action = new vscode.CodeAction(title, vscode.CodeActionKind.RefactorRewrite);
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, literalRange, conversion.text);
+            return action;
+        });
+    }
+
+
+    /**
+     * Returns the number literals of a line.
+     * Temporary labels (e.g. "1B") are not returned although they look like
+     * binary numbers.
+     * @param document The document.
+     * @param line The line number.
+     */
+    protected async getNumberLiterals(document: vscode.TextDocument, line: number): Promise<NumberLiteral[]> {
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        const strippedLine = fileIndex?.lines[line];
+        if (strippedLine == undefined)
+            return [];
+        const tempLabels = await SymbolIndex.getTempLabels(document);
+        const literals = findNumberLiterals(strippedLine, document.lineAt(line).text);
+        return removeTempLabels(literals, tempLabels, line);
+    }
+
+
+    /**
+     * Changes all hex and binary literals of the active editor to the
+     * preferred style. The number of digits is kept.
+     */
+    protected async normalizeNumbers() {
+        const editor = vscode.window.activeTextEditor;
+        const document = editor?.document;
+        if (document?.languageId != 'asm-collection')
+            return;
+        const config = Config.getConfigForDoc(document);
+        if (!config)
+            return;
+
+        const wsEdit = new vscode.WorkspaceEdit();
+        let count = 0;
+        for (let line = 0; line < document.lineCount; line++) {
+            const literals = await this.getNumberLiterals(document, line);
+            for (const literal of literals) {
+                const text = normalizeNumberLiteral(literal, config.numbersHexStyle, config.numbersBinaryStyle);
+                if (text == undefined)
+                    continue;
+                wsEdit.replace(document.uri, new vscode.Range(line, literal.start, line, literal.end), text);
+                count++;
+            }
+        }
+        await vscode.workspace.applyEdit(wsEdit);
+        vscode.window.showInformationMessage(count + ' number literal' + ((count == 1) ? '' : 's') + ' changed.');
+    }
+}
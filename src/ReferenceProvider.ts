@@ -2,7 +2,11 @@ import { Config } from './config';
 import { AllowedLanguageIds } from './languageId';
 import { CommonRegexes } from './regexes/commonregexes';
 import * as vscode from 'vscode';
-import { grep, reduceLocations } from './grep';
+import { grep, reduceLocations, yieldToEventLoop } from './grep';
+import {SymbolIndex} from './symbolindex';
+import {findLabelReferences} from './labelcheck';
+import {StructDefinition, StructField, StructModel, resolveFieldAccess} from './structs';
+import {findTempLabelOccurrences, getTempLabelAt} from './templabels';
 
 
 
@@ -23,14 +27,69 @@ export class ReferenceProvider implements vscode.ReferenceProvider {
         if (!config?.enableFindAllReferences)
             return undefined;   // Don't show any references.
 
+        // Temporary labels are resolved in the same file
+        const tempLabels = await SymbolIndex.getTempLabels(document);
+        if (getTempLabelAt(tempLabels, position.line, position.character)) {
+            const occurrences = findTempLabelOccurrences(tempLabels, position.line, position.character);
+            return occurrences.map(({line, start, end}) => new vscode.Location(document.uri, new vscode.Range(line, start, line, end)));
+        }
+
+        // Struct fields are resolved through the struct model
+        const structField = await SymbolIndex.getStructFieldAt(config, document, position);
+        if (structField)
+            return this.getFieldReferences(config, document, structField, token);
+
         // Search
         const searchWord = document.getText(document.getWordRangeAtPosition(position));
         const searchRegex = CommonRegexes.regexAnyReferenceForWord(searchWord);
 
         const languageId = document.languageId as AllowedLanguageIds;
-        const locations = await grep(searchRegex, config.wsFolderPath, languageId, config.excludeFiles);
-        const regexLbls = CommonRegexes.regexesLabel(config, languageId);
-        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, false, true, /\w/);
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const locations = await grep(searchRegex, config.wsFolderPath, languageId, config.excludeFiles, searchWord, scope, token);
+        const regexLbls = CommonRegexes.regexesLabel(config, languageId, await SymbolIndex.getDialect(document));
+        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, false, true, /\w/, token);
         return reducedLocations;
     }
+
+
+    /**
+     * Returns the definition and all accesses of a struct field.
+     * E.g. "POINT.x", "(ix+POINT.x)" or "player.x" (instance of POINT).
+     * @param config The configuration (settings).
+     * @param document The document that contains the field.
+     * @param structField The field and the struct model.
+     * @param token Stops the search if cancelled.
+     * @returns The locations.
+     */
+    protected async getFieldReferences(config: Config, document: vscode.TextDocument, structField: {struct: StructDefinition, field: StructField, model: StructModel}, token?: vscode.CancellationToken): Promise<vscode.Location[]> {
+        const {struct, field, model} = structField;
+        const locations = [new vscode.Location(vscode.Uri.file(struct.filePath), new vscode.Range(field.line, field.start, field.line, field.end))];
+        const languageId = document.languageId as AllowedLanguageIds;
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const fileIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, languageId, config.excludeFiles);
+        for (const fileIndex of fileIndexes) {
+            if (scope && !scope.has(fileIndex.filePath))
+                continue;
+            if (!SymbolIndex.containsWord(fileIndex, field.label))
+                continue;
+            if (token) {
+                await yieldToEventLoop();
+                if (token.isCancellationRequested)
+                    return [];
+            }
+            const uri = vscode.Uri.file(fileIndex.filePath);
+            const {blocks} = SymbolIndex.getBlocks(fileIndex);
+            for (const reference of findLabelReferences(fileIndex.lines, fileIndex, blocks, fileIndex.dialect)) {
+                if (!reference.label.includes('.'))
+                    continue;
+                const access = resolveFieldAccess(model, reference.label, reference.candidates);
+                if (access?.field != field)
+                    continue;
+                // Only the field part, e.g. "x" in "player.x"
+                const start = reference.end - field.label.length;
+                locations.push(new vscode.Location(uri, new vscode.Range(reference.line, start, reference.line, reference.end)));
+            }
+        }
+        return locations;
+    }
 }
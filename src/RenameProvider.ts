@@ -4,20 +4,79 @@ import {CommonRegexes} from './regexes/commonregexes';
 import * as vscode from 'vscode';
 import {grep, reduceLocations} from './grep';
 import {RenameRegexes} from './regexes/renameregexes';
+import {SymbolIndex} from './symbolindex';
+import {Dialect} from './dialects';
+import {IndexedSymbol} from './symbolparser';
+import {getTempLabelAt} from './templabels';
+import {checkNewName, findRenameConflict, getRenamedLabel, isReservedWord, resolveRenameTarget} from './renamecheck';
+import {isSourceOfListFile, mapWordColumn} from './listfile';
 
 
+/**
+ * The symbol to rename together with the information needed to check
+ * the new name.
+ */
+interface RenameTarget {
+    /// The range of the word under the cursor.
+    range: vscode.Range,
+    /// The word under the cursor, e.g. "loop" for ".loop".
+    oldName: string,
+    /// The symbol the word refers to.
+    symbol: IndexedSymbol,
+    /// All symbols in the scope (the include scope or the workspace folder).
+    symbols: IndexedSymbol[],
+    /// Returns the symbol for a full label (incl. module).
+    findSymbol: (moduleLabel: string) => IndexedSymbol | undefined,
+    /// The dialect of the document.
+    dialect: Dialect
+}
+
+
+/**
+ * An occurrence that is renamed.
+ */
+interface RenamedOccurrence {
+    /// The location of the word.
+    location: vscode.Location,
+    /// Set if the user needs to confirm the edit.
+    metadata?: vscode.WorkspaceEditEntryMetadata
+}
+
 
 /**
  * RenameProvider for assembly language.
  * User selects "Rename symbol".
+ * Only labels, MODULE, STRUCT and MACRO names that are defined in the
+ * workspace can be renamed. The new name is checked against the dialect
+ * and against the existing labels.
  */
 export class RenameProvider implements vscode.RenameProvider {
+    /**
+     * Called from vscode before the user enters the new name.
+     * Rejects words that cannot be renamed, e.g. instructions or registers,
+     * by throwing an error. vscode shows the message.
+     * @param document The current document.
+     * @param position The position of the word to rename.
+     * @param token
+     * @returns The range of the word and the old name as placeholder.
+     */
+    public async prepareRename(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): Promise<{range: vscode.Range, placeholder: string}> {
+        const config = Config.getConfigForDoc(document);
+        if (!config)
+            throw new Error("Document is in no workspace folder.");
+        if (!config.enableRenaming)
+            throw new Error("Renaming is disabled for this workspace folder.");
+        const {range, oldName} = await this.getRenameTarget(config, document, position);
+        return {range, placeholder: oldName};
+    }
+
+
     /**
      * Called from vscode if the user selects "Rename symbol".
      * @param document The current document.
      * @param position The position of the word for which the references should be found.
-     * @param options
-     * @param token
+     * @param newName The new name of the symbol.
+     * @param token Stops the search if cancelled.
      */
     public async provideRenameEdits(document: vscode.TextDocument, position: vscode.Position, newName: string, token: vscode.CancellationToken): Promise<vscode.WorkspaceEdit|undefined> {
         // Check which workspace
@@ -31,14 +90,31 @@ export class RenameProvider implements vscode.RenameProvider {
             return new vscode.WorkspaceEdit();  // Empty = no change
         }
 
+        // Check the new name
+        const target = await this.getRenameTarget(config, document, position);
+        const {oldName, symbol, symbols, findSymbol, dialect} = target;
+        const error = checkNewName(newName, dialect);
+        if (error)
+            throw new Error(error);
+        const newLabel = getRenamedLabel(symbol.moduleLabel, newName);
+        const conflict = findRenameConflict(symbols, symbol.moduleLabel, newLabel);
+        if (conflict)
+            throw new Error("Cannot rename '" + symbol.moduleLabel + "': '" + conflict.moduleLabel + "' already exists.");
+
         // Rename
-        const oldName = document.getText(document.getWordRangeAtPosition(position));
         const searchRegex = RenameRegexes.regexAnyReferenceForWordGlobal(oldName);
-
         const languageId = document.languageId as AllowedLanguageIds;
-        const locations = await grep(searchRegex, config.wsFolderPath, languageId, config.excludeFiles);
-        const regexLbls = CommonRegexes.regexesLabel(config, languageId);
-        const reducedLocations = await reduceLocations(regexLbls, locations, document.fileName, position, false, true, /\w/);
+        const reducedLocations = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: "Renaming '" + oldName + "'"
+        }, async () => {
+            const scope = await SymbolIndex.getIncludeScope(config, document);
+            const locations = await grep(searchRegex, config.wsFolderPath, languageId, config.excludeFiles, oldName, scope, token);
+            const regexLbls = CommonRegexes.regexesLabel(config, languageId, dialect);
+            return reduceLocations(regexLbls, locations, document.fileName, position, false, true, /\w/, token);
+        });
+        if (token.isCancellationRequested)
+            return undefined;
 
         // Change to WorkSpaceEdits.
         // Note: WorkSpaceEdits do work on all (even not opened files) in the workspace.
@@ -48,11 +124,161 @@ export class RenameProvider implements vscode.RenameProvider {
         // - not opened in text editor
         // - opened in text editor and saved
         // - opened in text editor and unsaved. The file in the editor will be saved, but this is normal behavior also e.g. in typescript renaming.
+
+        // Occurrences that cannot be resolved (e.g. inside macros) need to be
+        // confirmed by the user in the refactor preview.
+        const unresolved: vscode.WorkspaceEditEntryMetadata = {
+            needsConfirmation: true,
+            label: "Unresolved occurrences",
+            description: "Not recognized as reference to '" + symbol.moduleLabel + "'"
+        };
         const wsEdit = new vscode.WorkspaceEdit();
+        const renamed: RenamedOccurrence[] = [];
         for (const loc of reducedLocations) {
-            wsEdit.replace(loc.uri, loc.range, newName);
+            // Skip words that refer to another label, e.g. a label with
+            // the same name in another module or another local scope
+            const fileIndex = await SymbolIndex.getFileIndex(loc.uri.fsPath);
+            const {start} = loc.range;
+            const resolved = fileIndex && resolveRenameTarget(fileIndex.lines, fileIndex, start.line, start.character, findSymbol);
+            if (resolved && resolved.moduleLabel != symbol.moduleLabel)
+                continue;
+            const metadata = (resolved) ? undefined : unresolved;
+            wsEdit.replace(loc.uri, loc.range, newName, metadata);
+            renamed.push({location: loc, metadata});
         }
 
+        // The same occurrences in the list files (or the sources of a list file)
+        if (config.renameIncludeListFiles)
+            await this.addCorrespondingEdits(config, languageId, renamed, oldName, newName, wsEdit);
+
         return wsEdit;
     }
+
+
+    /**
+     * Adds the edits for the corresponding occurrences in the other
+     * reference space: for asm files in the list files generated from
+     * them, for list files in their source files.
+     * The list file lines are mapped to the source lines by their line
+     * numbers and the "# file opened:" markers, see 'parseListSourceLines'.
+     * @param config The configuration (settings).
+     * @param languageId The language ID of the renamed document.
+     * @param renamed The renamed occurrences.
+     * @param oldName The word that is renamed.
+     * @param newName The new name.
+     * @param wsEdit The edits are added here.
+     */
+    protected async addCorrespondingEdits(config: Config, languageId: AllowedLanguageIds, renamed: RenamedOccurrence[], oldName: string, newName: string, wsEdit: vscode.WorkspaceEdit) {
+        const added = new Set<string>();
+        const addEdit = (filePath: string, line: number, column: number, metadata?: vscode.WorkspaceEditEntryMetadata) => {
+            const key = filePath + ':' + line + ':' + column;
+            if (added.has(key))
+                return;
+            added.add(key);
+            const range = new vscode.Range(line, column, line, column + oldName.length);
+            wsEdit.replace(vscode.Uri.file(filePath), range, newName, metadata);
+        };
+
+        if (languageId == 'asm-collection') {
+            // Source files -> list files
+            const listFileIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, 'asm-list-file', config.excludeFiles);
+            for (const listIndex of listFileIndexes) {
+                // Source line number -> list file lines
+                const rowsOfLine = new Map<number, {row: number, file?: string}[]>();
+                listIndex.sourceLines?.forEach((sourceLine, row) => {
+                    if (sourceLine)
+                        rowsOfLine.set(sourceLine.line, [...(rowsOfLine.get(sourceLine.line) ?? []), {row, file: sourceLine.file}]);
+                });
+                for (const {location, metadata} of renamed) {
+                    const {line, character} = location.range.start;
+                    const rows = rowsOfLine.get(line);
+                    if (!rows)
+                        continue;
+                    const sourcePath = location.uri.fsPath;
+                    const sourceIndex = await SymbolIndex.getFileIndex(sourcePath);
+                    if (!sourceIndex)
+                        continue;
+                    for (const {row, file} of rows) {
+                        if (!isSourceOfListFile(sourcePath, listIndex.filePath, file))
+                            continue;
+                        const column = mapWordColumn(sourceIndex.lines[line], listIndex.lines[row], oldName, character);
+                        if (column != undefined)
+                            addEdit(listIndex.filePath, row, column, metadata);
+                    }
+                }
+            }
+        }
+        else {
+            // List files -> source files
+            const sourceIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, 'asm-collection', config.excludeFiles);
+            for (const {location, metadata} of renamed) {
+                const listPath = location.uri.fsPath;
+                const listIndex = await SymbolIndex.getFileIndex(listPath);
+                const {line, character} = location.range.start;
+                const sourceLine = listIndex?.sourceLines?.[line];
+                if (!listIndex || !sourceLine)
+                    continue;
+                for (const sourceIndex of sourceIndexes) {
+                    if (!isSourceOfListFile(sourceIndex.filePath, listPath, sourceLine.file))
+                        continue;
+                    const column = mapWordColumn(listIndex.lines[line], sourceIndex.lines[sourceLine.line] ?? '', oldName, character);
+                    if (column != undefined)
+                        addEdit(sourceIndex.filePath, sourceLine.line, column, metadata);
+                }
+            }
+        }
+    }
+
+
+    /**
+     * Returns the symbol at the position that should be renamed.
+     * @param config The configuration (settings).
+     * @param document The document that contains the word.
+     * @param position The position of the word.
+     * @returns The word and the symbol it refers to.
+     * Throws an error if the word cannot be renamed.
+     */
+    protected async getRenameTarget(config: Config, document: vscode.TextDocument, position: vscode.Position): Promise<RenameTarget> {
+        const range = document.getWordRangeAtPosition(position);
+        if (!range)
+            throw new Error("There is no label at the cursor.");
+        const oldName = document.getText(range);
+
+        // Temporary labels, e.g. "1B" or "@f"
+        const tempLabels = await SymbolIndex.getTempLabels(document);
+        if (getTempLabelAt(tempLabels, position.line, position.character))
+            throw new Error("Temporary labels cannot be renamed.");
+
+        // Instructions, registers and directives
+        const dialect = await SymbolIndex.getDialect(document);
+        if (isReservedWord(oldName, dialect))
+            throw new Error("'" + oldName + "' is an instruction, register or directive and cannot be renamed.");
+
+        // All symbols (incl. MODULEs and STRUCTs) of the scope
+        const languageId = document.languageId as AllowedLanguageIds;
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const fileIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, languageId, config.excludeFiles);
+        const symbols: IndexedSymbol[] = [];
+        const symbolMap = new Map<string, IndexedSymbol>();
+        for (const fileIndex of fileIndexes) {
+            if (scope && !scope.has(fileIndex.filePath))
+                continue;
+            for (const symbol of fileIndex.symbols) {
+                symbols.push(symbol);
+                if (!symbolMap.has(symbol.moduleLabel))
+                    symbolMap.set(symbol.moduleLabel, symbol);
+            }
+        }
+        const findSymbol = (moduleLabel: string) => symbolMap.get(moduleLabel);
+
+        // The symbol at the position
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        const symbol = fileIndex && resolveRenameTarget(fileIndex.lines, fileIndex, position.line, position.character, findSymbol);
+        if (!symbol)
+            throw new Error("'" + oldName + "' is no label defined in the workspace.");
+        if (getRenamedLabel(symbol.moduleLabel, oldName) != symbol.moduleLabel)
+            throw new Error("Only the last part of '" + symbol.moduleLabel + "' can be renamed.");
+
+        return {range, oldName, symbol, symbols, findSymbol, dialect};
+    }
 }
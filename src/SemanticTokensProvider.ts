@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import {Config} from './config';
+import {SymbolIndex} from './symbolindex';
+import {IndexedSymbol} from './symbolparser';
+import {getSemanticTokens, tokenModifiers, tokenTypes} from './semantictokens';
+
+
+/**
+ * DocumentSemanticTokensProvider for assembly language.
+ * Colors labels, local labels, constants, macros, struct fields and
+ * modules by their meaning (the TextMate grammar can only color lexically).
+ * For list files the address and byte columns are marked as numbers.
+ */
+export class SemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    /// The token types and modifiers.
+    public static readonly legend = new vscode.SemanticTokensLegend(tokenTypes, tokenModifiers);
+
+
+    /**
+     * Called from vscode to get the tokens of the document.
+     * @param document The document.
+     * @param token
+     */
+    public async provideDocumentSemanticTokens(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<vscode.SemanticTokens | undefined> {
+        const config = Config.getConfigForDoc(document);
+        if (!config?.enableSemanticTokens)
+            return undefined;
+        const fileIndex = await SymbolIndex.getFileIndex(document.uri.fsPath);
+        if (!fileIndex)
+            return undefined;
+
+        // All symbols of the files assembled together (incl. modules, structs and macros)
+        const scope = await SymbolIndex.getIncludeScope(config, document);
+        const symbolMap = new Map<string, IndexedSymbol>();
+        const fileIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, fileIndex.languageId, config.excludeFiles);
+        if (token.isCancellationRequested)
+            return undefined;
+        for (const {filePath, symbols} of [fileIndex, ...fileIndexes]) {
+            if (scope && !scope.has(filePath))
+                continue;
+            for (const symbol of symbols) {
+                if (!symbolMap.has(symbol.moduleLabel))
+                    symbolMap.set(symbol.moduleLabel, symbol);
+            }
+        }
+
+        // Create the tokens
+        const isListFile = (fileIndex.languageId == 'asm-list-file');
+        const tokens = getSemanticTokens(fileIndex.lines, fileIndex, moduleLabel => symbolMap.get(moduleLabel), isListFile, fileIndex.dialect);
+        const builder = new vscode.SemanticTokensBuilder(SemanticTokensProvider.legend);
+        for (const {line, start, length, type, modifiers} of tokens) {
+            const range = new vscode.Range(line, start, line, start + length);
+            builder.push(range, type, modifiers);
+        }
+        return builder.build();
+    }
+}
@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {AllowedLanguageIds} from './languageId';
+import {Config} from './config';
+import {Commands, FileSymbol} from './Commands';
+import {PackageInfo} from './whatsnew/packageinfo';
+
+
+/**
+ * An item of the tree: a file, a module or a label.
+ */
+class LabelTreeItem extends vscode.TreeItem {
+    /// The child items (for files and modules).
+    public children: LabelTreeItem[] = [];
+
+    /// The label (for label items).
+    public fileSymbol?: FileSymbol;
+}
+
+
+/**
+ * Shows the result of 'Find Labels with no Reference'.
+ * The labels are shown in a tree view grouped by file and module.
+ * Alternatively (see setting 'unreferencedLabels.showAsDiagnostics')
+ * they are published as warnings in the 'Problems' view.
+ * Labels can be ignored, i.e. added to the 'labels.excludes' setting,
+ * from the tree view or by a quick fix.
+ */
+export class UnreferencedLabelsView implements vscode.TreeDataProvider<LabelTreeItem>, vscode.CodeActionProvider {
+    // The diagnostic code used for unreferenced labels.
+    protected static readonly diagnosticCode = 'unreferenced-label';
+
+    // Used to inform vscode about changes of the tree.
+    protected changeEmitter = new vscode.EventEmitter<LabelTreeItem | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    // The tree view.
+    protected treeView: vscode.TreeView<LabelTreeItem>;
+
+    // The diagnostics (if shown as diagnostics).
+    protected diagnostics: vscode.DiagnosticCollection;
+
+    // The file items of the tree.
+    protected rootItems: LabelTreeItem[] = [];
+
+    // The workspace folder and language of the last search. Used for re-run.
+    protected wsFolderPath: string | undefined;
+    protected languageId: AllowedLanguageIds | undefined;
+
+
+    /**
+     * Constructor.
+     * Registers the tree view, the commands and the quick fixes.
+     * @param context The extension context.
+     */
+    constructor(context: vscode.ExtensionContext) {
+        this.treeView = vscode.window.createTreeView('asm-code-lens.unreferenced-labels', {treeDataProvider: this});
+        this.diagnostics = vscode.languages.createDiagnosticCollection('asm-code-lens-unreferenced');
+        context.subscriptions.push(this.treeView, this.diagnostics);
+        context.subscriptions.push(vscode.commands.registerCommand('asm-code-lens.refresh-unreferenced-labels', async () => {
+            await this.refresh();
+        }));
+        context.subscriptions.push(vscode.commands.registerCommand('asm-code-lens.ignore-label', async (arg: LabelTreeItem | {filePath: string, label: string}) => {
+            if (arg instanceof LabelTreeItem) {
+                if (arg.fileSymbol)
+                    await this.ignoreLabel(arg.fileSymbol.filePath, arg.fileSymbol.symbol.label);
+            }
+            else if (arg) {
+                await this.ignoreLabel(arg.filePath, arg.label);
+            }
+        }));
+        const asmListFiles: vscode.DocumentSelector = [
+            {scheme: "file", language: 'asm-collection'},
+            {scheme: "file", language: 'asm-list-file'}
+        ];
+        context.subscriptions.push(vscode.languages.registerCodeActionsProvider(asmListFiles, this, {providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]}));
+    }
+
+
+    /**
+     * Searches the labels without reference and shows them.
+     * @param config The configuration of the workspace folder.
+     * @param languageId Either 'asm-collection' or 'asm-list-file'.
+     */
+    public async findLabels(config: Config, languageId: AllowedLanguageIds) {
+        this.wsFolderPath = config.wsFolderPath;
+        this.languageId = languageId;
+        const fileSymbols = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: 'Searching unreferenced labels'
+        }, () => Commands.findLabelsWithNoReference(config, languageId));
+
+        this.diagnostics.clear();
+        if (config.unreferencedLabelsAsDiagnostics) {
+            this.setDiagnostics(fileSymbols);
+            this.rootItems = [];
+            this.changeEmitter.fire(undefined);
+            await vscode.commands.executeCommand('setContext', 'asm-code-lens.showUnreferencedLabels', false);
+            return;
+        }
+
+        // Tree view
+        this.rootItems = this.createTree(config.wsFolderPath, fileSymbols);
+        this.changeEmitter.fire(undefined);
+        const typename = (languageId == 'asm-list-file') ? 'list' : 'asm';
+        const count = fileSymbols.length;
+        const countText = (count == 0) ? 'No' : count.toString();
+        this.treeView.message = countText + ' unreferenced label' + ((count == 1) ? '' : 's') + ' in ' + typename + ' files of ' + path.basename(config.wsFolderPath) + '.';
+        await vscode.commands.executeCommand('setContext', 'asm-code-lens.showUnreferencedLabels', true);
+        await vscode.commands.executeCommand('asm-code-lens.unreferenced-labels.focus');
+    }
+
+
+    /**
+     * Re-runs the last search.
+     * The configuration is read again as the excludes might have changed.
+     */
+    public async refresh() {
+        if (!this.wsFolderPath || !this.languageId)
+            return;
+        const config = Config.configs.get(this.wsFolderPath);
+        if (config)
+            await this.findLabels(config, this.languageId);
+    }
+
+
+    /**
+     * Adds a label to the 'labels.excludes' setting of the workspace folder
+     * and removes it from the shown results.
+     * @param filePath The file that contains the label.
+     * @param label The label, e.g. "init".
+     */
+    protected async ignoreLabel(filePath: string, label: string) {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
+        if (!workspaceFolder)
+            return;
+        const settings = PackageInfo.getConfiguration(workspaceFolder);
+        const excludes = (settings.get<string>('labels.excludes') || '').split(';').filter(exclude => exclude);
+        if (!excludes.map(exclude => exclude.toLowerCase()).includes(label.toLowerCase()))
+            excludes.push(label);
+        await settings.update('labels.excludes', excludes.join(';'), vscode.ConfigurationTarget.WorkspaceFolder);
+        await this.refresh();
+    }
+
+
+    /**
+     * Creates the tree items: file -> module -> label.
+     * Labels without module are direct children of the file.
+     * @param wsFolderPath The workspace folder. The file names are shown relative to it.
+     * @param fileSymbols The labels, sorted by file.
+     * @returns The file items.
+     */
+    protected createTree(wsFolderPath: string, fileSymbols: FileSymbol[]): LabelTreeItem[] {
+        const fileItems: LabelTreeItem[] = [];
+        let fileItem: LabelTreeItem | undefined;
+        const moduleItems = new Map<string, LabelTreeItem>();
+        for (const fileSymbol of fileSymbols) {
+            const {filePath, symbol} = fileSymbol;
+            const uri = vscode.Uri.file(filePath);
+            // File
+            if (fileItem?.resourceUri?.fsPath != filePath) {
+                fileItem = new LabelTreeItem(path.relative(wsFolderPath, filePath), vscode.TreeItemCollapsibleState.Expanded);
+                fileItem.resourceUri = uri;
+                fileItem.iconPath = vscode.ThemeIcon.File;
+                fileItems.push(fileItem);
+                moduleItems.clear();
+            }
+            // Module
+            let parent = fileItem;
+            const module = symbol.moduleLabel.substring(0, symbol.moduleLabel.length - symbol.label.length - 1);
+            if (module) {
+                let moduleItem = moduleItems.get(module);
+                if (!moduleItem) {
+                    moduleItem = new LabelTreeItem(module, vscode.TreeItemCollapsibleState.Expanded);
+                    moduleItem.iconPath = new vscode.ThemeIcon('symbol-module');
+                    fileItem.children.push(moduleItem);
+                    moduleItems.set(module, moduleItem);
+                }
+                parent = moduleItem;
+            }
+            // Label
+            const range = new vscode.Range(symbol.line, symbol.start, symbol.line, symbol.end);
+            const labelItem = new LabelTreeItem(symbol.label, vscode.TreeItemCollapsibleState.None);
+            labelItem.fileSymbol = fileSymbol;
+            labelItem.description = 'line ' + (symbol.line + 1);
+            labelItem.iconPath = new vscode.ThemeIcon((symbol.kind == 'data') ? 'symbol-variable' : 'symbol-method');
+            labelItem.contextValue = 'unreferencedLabel';
+            labelItem.command = {
+                title: 'Open',
+                command: 'vscode.open',
+                arguments: [uri, {selection: range}]
+            };
+            parent.children.push(labelItem);
+        }
+        return fileItems;
+    }
+
+
+    /**
+     * Publishes the labels as warnings.
+     * @param fileSymbols The unreferenced labels.
+     */
+    protected setDiagnostics(fileSymbols: FileSymbol[]) {
+        const fileDiagnostics = new Map<string, vscode.Diagnostic[]>();
+        for (const {filePath, symbol} of fileSymbols) {
+            let list = fileDiagnostics.get(filePath);
+            if (!list) {
+                list = [];
+                fileDiagnostics.set(filePath, list);
+            }
+            const range = new vscode.Range(symbol.line, symbol.start, symbol.line, symbol.end);
+            const diagnostic = new vscode.Diagnostic(range, "Label '" + symbol.label + "' is not referenced.", vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'asm-code-lens';
+            diagnostic.code = UnreferencedLabelsView.diagnosticCode;
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            list.push(diagnostic);
+        }
+        for (const [filePath, diagnostics] of fileDiagnostics)
+            this.diagnostics.set(vscode.Uri.file(filePath), diagnostics);
+    }
+
+
+    /**
+     * Returns the children of an item or the file items.
+     */
+    public getChildren(element?: LabelTreeItem): LabelTreeItem[] {
+        return element ? element.children : this.rootItems;
+    }
+
+
+    /**
+     * Returns the item itself.
+     */
+    public getTreeItem(element: LabelTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+
+    /**
+     * Provides the quick fix to ignore an unreferenced label.
+     * @param document The document.
+     * @param range The range of the cursor/selection.
+     * @param context Contains the diagnostics at the range.
+     */
+    public provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.code != UnreferencedLabelsView.diagnosticCode)
+                continue;
+            const label = document.getText(diagnostic.range);
+            const action = new vscode.CodeAction("Ignore label '" + label + "' (add to 'labels.excludes')", vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.command = {
+                title: action.title,
+                command: 'asm-code-lens.ignore-label',
+                arguments: [{filePath: document.uri.fsPath, label}]
+            };
+            actions.push(action);
+        }
+        return actions;
+    }
+}
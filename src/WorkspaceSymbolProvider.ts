@@ -2,25 +2,40 @@ import { AllowedLanguageIds } from './languageId';
 import * as vscode from 'vscode';
 import {Config} from './config';
 import {CommonRegexes} from './regexes/commonregexes';
-import {CompletionRegexes} from './regexes/completionregexes';
-import {grepMultiple} from './grep';
+import {SymbolIndex} from './symbolindex';
+import {yieldToEventLoop} from './grep';
+import {IndexedSymbol, IndexedSymbolKind, getContainerLabel} from './symbolparser';
 
 
 
+/// The symbol kinds shown for the indexed symbols.
+/// MACROs are shown as 'Methods' as in the outline view.
+const symbolKinds = new Map<IndexedSymbolKind, vscode.SymbolKind>([
+    ['code', vscode.SymbolKind.Function],
+    ['data', vscode.SymbolKind.Variable],
+    ['equ', vscode.SymbolKind.Constant],
+    ['macro', vscode.SymbolKind.Method],
+    ['module', vscode.SymbolKind.Module],
+    ['struct', vscode.SymbolKind.Struct]
+]);
+
+
 /**
  * The WorkspaceSymbolProvider.
  * In a multiroot environment the WorkspaceSymbolProvider can take quite some time.
- * E.g. 5 secs.
- * Therefore the following restirctions have been used to not increase the search time further:
- * 1. The Symbol-kind is undefined, so that vscode does not show any symbol
- * Recognizing the correct symbol would be quite complicated as it depends also on
- * the previous lines (e.g. data vs. function).
- * 2. MODULE information is not extracted. This would also require more analyzes
- * on the file.
- * The benefit for both is quite minimal, so it has been dropped.
+ * Therefore the symbols and their ranges are taken from the symbol index.
+ * If the file has changed since the search the range of the symbol that is
+ * selected by the user is updated in 'resolveWorkspaceSymbol'.
+ * The symbols are named by their full label (incl. MODULE), e.g. "audio.init",
+ * the container is the module (or struct), e.g. "audio".
+ * Asm files and list files are searched.
  */
 export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
 
+    // The indexed symbol for each returned symbol. Used to resolve the range.
+    protected indexedSymbols = new WeakMap<vscode.SymbolInformation, IndexedSymbol>();
+
+
     /**
      * Project-wide search for a symbol matching the given query string.
      *
@@ -59,7 +74,7 @@ export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
                         continue;   // Skip
 
                     // Get all symbols
-                    const wsSymbols = await this.getWsSymbols(config, query);
+                    const wsSymbols = await this.getWsSymbols(config, query, token);
                     symbols.push(...wsSymbols);
                 }
             }
@@ -69,39 +84,68 @@ export class WorkspaceSymbolProvider implements vscode.WorkspaceSymbolProvider {
     }
 
 
+    /**
+     * Updates the range of a symbol selected by the user.
+     * As the file might have changed since the search the symbol is
+     * searched again in the index.
+     * @param symbol A symbol returned by provideWorkspaceSymbols.
+     * @param token A cancellation token.
+     * @returns The symbol with the current location.
+     */
+    public async resolveWorkspaceSymbol(symbol: vscode.SymbolInformation, token: vscode.CancellationToken): Promise<vscode.SymbolInformation> {
+        const indexedSymbol = this.indexedSymbols.get(symbol);
+        if (!indexedSymbol)
+            return symbol;
+        const uri = symbol.location.uri;
+        const fileIndex = await SymbolIndex.getFileIndex(uri.fsPath);
+        let found: IndexedSymbol | undefined = indexedSymbol;
+        if (fileIndex && !fileIndex.symbols.includes(indexedSymbol))
+            found = fileIndex.symbols.find(s => s.moduleLabel == indexedSymbol.moduleLabel && s.kind == indexedSymbol.kind);
+        const {line, start, end} = found ?? indexedSymbol;
+        symbol.location = new vscode.Location(uri, new vscode.Range(line, start, line, end));
+        return symbol;
+    }
+
+
     /** Returns the symbols found in one workspace folder that match the query.
      * @param config The workspace configuration (includes workspace folder.
      * @param query The query to check for symbols.
+     * @param token Stops the search if cancelled.
      */
-    protected async getWsSymbols(config: Config, query: string): Promise<vscode.SymbolInformation[]> {
-        // Allow symbols only for asm files (not list files)
-        const languageId: AllowedLanguageIds = 'asm-collection';
-
+    protected async getWsSymbols(config: Config, query: string, token?: vscode.CancellationToken): Promise<vscode.SymbolInformation[]> {
         // Prepare search
         const fuzzySearchWord = CommonRegexes.regexPrepareFuzzy(query);
+        const regex = new RegExp(fuzzySearchWord, 'i');
 
-        // regexes for labels with and without colon
-        const regexes = CompletionRegexes.regexesEveryLabelForWord(fuzzySearchWord, config, languageId);
-        // Find all sjasmplus MODULEs in the document
-        const searchSjasmModule = CompletionRegexes.regexEveryModuleForWord(fuzzySearchWord, languageId);
-        regexes.push(searchSjasmModule);
-        // Find all sjasmplus MACROs in the document
-        const searchSjasmMacro = CompletionRegexes.regexEveryMacroForWord(fuzzySearchWord, languageId);
-        regexes.push(searchSjasmMacro);
-
-        const locations = await grepMultiple(regexes, config.wsFolderPath, languageId, config.excludeFiles);
-
-        // Go through all found locations
+        // Go through all symbols of asm and list files
         const symbols: vscode.SymbolInformation[] = [];
-        for (const loc of locations) {
-            const text = loc.symbol;
-            if (config.labelsExcludes.includes(text))
-                continue;   // Skip if excluded
-
-            // Add to symbol list
-            const location = new vscode.Location(loc.uri, loc.range);
-            const symb = new vscode.SymbolInformation(text, undefined as any, '', location);
-            symbols.push(symb);
+        const languageIds: AllowedLanguageIds[] = ['asm-collection', 'asm-list-file'];
+        for (const languageId of languageIds) {
+            const fileIndexes = await SymbolIndex.getFileIndexes(config.wsFolderPath, languageId, config.excludeFiles);
+            for (const fileIndex of fileIndexes) {
+                // Stop if vscode has discarded the request
+                if (token) {
+                    await yieldToEventLoop();
+                    if (token.isCancellationRequested)
+                        return [];
+                }
+                const uri = vscode.Uri.file(fileIndex.filePath);
+                for (const symbol of fileIndex.symbols) {
+                    if (symbol.local)
+                        continue;   // Skip local labels
+                    if (config.labelsExcludes.includes(symbol.label.toLowerCase()))
+                        continue;   // Skip if excluded
+                    const name = symbol.moduleLabel;
+                    if (!regex.exec(name))
+                        continue;   // Skip if not matching
+
+                    // Add to symbol list
+                    const location = new vscode.Location(uri, new vscode.Range(symbol.line, symbol.start, symbol.line, symbol.end));
+                    const symb = new vscode.SymbolInformation(name, symbolKinds.get(symbol.kind)!, getContainerLabel(symbol), location);
+                    this.indexedSymbols.set(symb, symbol);
+                    symbols.push(symb);
+                }
+            }
         }
 
         return symbols;
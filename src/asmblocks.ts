@@ -0,0 +1,237 @@
+/**
+ * Analyzes the block structure of a file, i.e. MODULE/ENDMODULE,
+ * STRUCT/ENDS, MACRO/ENDM, DUP/EDUP (REPT/ENDR) and IF/ENDIF.
+ */
+
+import {Dialect, DialectId, defaultDialect} from './dialects';
+
+
+/**
+ * The kind of a block.
+ */
+export type AsmBlockKind = 'module' | 'struct' | 'macro' | 'dup' | 'if';
+
+
+/**
+ * A (balanced) block.
+ */
+export interface AsmBlock {
+	/// The kind of block.
+	kind: AsmBlockKind,
+	/// The line of the opening directive, e.g. MACRO.
+	startLine: number,
+	/// The line of the closing directive, e.g. ENDM.
+	endLine: number,
+	/// The lines of ELSE/ELSEIF (for IF blocks).
+	elseLines: number[]
+}
+
+
+/**
+ * An unbalanced directive, e.g. an ENDM without MACRO.
+ */
+export interface BlockError {
+	/// E.g. "MACRO without ENDM".
+	message: string,
+	/// The line number:
+	line: number,
+	/// The start column of the directive:
+	start: number,
+	/// The end column of the directive:
+	end: number
+}
+
+
+/// The opening directives that do not depend on the dialect.
+/// The MODULE and MACRO directives are taken from the dialect.
+const openDirectives = new Map<string, AsmBlockKind>([
+	['struct', 'struct'],
+	['dup', 'dup'], ['rept', 'dup'],
+	['if', 'if'], ['ifn', 'if'], ['ifdef', 'if'], ['ifndef', 'if'], ['ifused', 'if'], ['ifnused', 'if']
+]);
+
+/// The closing directives that do not depend on the dialect.
+/// ENDM closes a DUP (sjasmplus) and, depending on the dialect, a MACRO.
+const closeDirectives = new Map<string, AsmBlockKind[]>([
+	['ends', ['struct']],
+	['endm', ['dup']],
+	['edup', ['dup']], ['endr', ['dup']],
+	['endif', ['if']]
+]);
+
+/// The directives in the middle of an IF block.
+const elseDirectives = new Set<string>(['else', 'elseif', 'elif']);
+
+/// The names used in the messages.
+const blockNames = new Map<AsmBlockKind, {open: string, close: string}>([
+	['struct', {open: 'STRUCT', close: 'ENDS'}],
+	['dup', {open: 'DUP', close: 'EDUP'}],
+	['if', {open: 'IF', close: 'ENDIF'}]
+]);
+
+
+/**
+ * The block directives of a dialect (without leading dot).
+ */
+interface BlockDirectives {
+	open: Map<string, AsmBlockKind>,
+	close: Map<string, AsmBlockKind[]>,
+	names: Map<AsmBlockKind, {open: string, close: string}>
+}
+
+/// The block directives for each dialect. Created on first use.
+const dialectDirectives = new Map<DialectId, BlockDirectives>();
+
+
+/**
+ * Returns the block directives of a dialect, i.e. the common
+ * directives plus the MODULE and MACRO directives of the dialect.
+ */
+function getBlockDirectives(dialect: Dialect): BlockDirectives {
+	let directives = dialectDirectives.get(dialect.id);
+	if (!directives) {
+		const open = new Map(openDirectives);
+		const close = new Map(closeDirectives);
+		const names = new Map(blockNames);
+		const addKind = (kind: AsmBlockKind, openers: string[], closers: string[]) => {
+			if (openers.length == 0)
+				return;
+			for (const opener of openers)
+				open.set(opener.replace(/^\./, ''), kind);
+			for (const closer of closers) {
+				const name = closer.replace(/^\./, '');
+				close.set(name, [kind, ...(close.get(name) ?? [])]);
+			}
+			names.set(kind, {open: openers[0].replace(/^\./, '').toUpperCase(), close: closers[0].replace(/^\./, '').toUpperCase()});
+		};
+		addKind('module', dialect.moduleDirectives, dialect.endModuleDirectives);
+		addKind('macro', dialect.macroDirectives, dialect.endMacroDirectives);
+		directives = {open, close, names};
+		dialectDirectives.set(dialect.id, directives);
+	}
+	return directives;
+}
+
+
+/**
+ * Returns the instruction (or directive) of a line.
+ * A leading label (with or without colon) is skipped.
+ * A block directive is also recognized at the start of the line, e.g. "ENDIF".
+ * @param line A comment stripped line, e.g. "label: ld a,5" or " MACRO mac1".
+ * @param dialect The assembler dialect.
+ * @returns The instruction as written (e.g. "ld") and its start column.
+ * Or undefined if the line contains no instruction.
+ */
+export function getInstruction(line: string, dialect = defaultDialect): {instruction: string, start: number} | undefined {
+	let k = 0;
+	const matchLabel = /^([\w.@]+)(:?)/.exec(line);
+	if (matchLabel) {
+		const word = matchLabel[1].toLowerCase();
+		const {open, close} = getBlockDirectives(dialect);
+		if (!matchLabel[2] && (open.has(word) || close.has(word) || elseDirectives.has(word)))
+			return {instruction: matchLabel[1], start: 0};
+		k = matchLabel[0].length;
+	}
+	const regex = (line[k - 1] == ':') ? /^\s*([.\w]+)/ : /^\s+([.\w]+)/;
+	const match = regex.exec(line.substring(k));
+	if (!match)
+		return undefined;
+	const instruction = match[1];
+	return {instruction, start: k + match[0].length - instruction.length};
+}
+
+
+/**
+ * Parses the lines for blocks.
+ * @param lines The comment stripped lines of a file.
+ * @param dialect The assembler dialect. Defines the MODULE and MACRO directives.
+ * @returns The balanced blocks (sorted by start line) and the
+ * unbalanced directives.
+ */
+export function parseBlocks(lines: string[], dialect = defaultDialect): {blocks: AsmBlock[], errors: BlockError[]} {
+	const {open, close, names} = getBlockDirectives(dialect);
+	const blocks: AsmBlock[] = [];
+	const errors: BlockError[] = [];
+	const stack: {block: AsmBlock, start: number, end: number}[] = [];
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		const instr = getInstruction(lines[row], dialect);
+		if (!instr)
+			continue;
+		const start = instr.start;
+		const end = start + instr.instruction.length;
+		const directive = instr.instruction.toLowerCase().replace(/^\./, '');
+
+		// Open
+		const openKind = open.get(directive);
+		if (openKind) {
+			stack.push({block: {kind: openKind, startLine: row, endLine: -1, elseLines: []}, start, end});
+			continue;
+		}
+
+		// Else
+		if (elseDirectives.has(directive)) {
+			const top = stack[stack.length - 1];
+			if (top?.block.kind == 'if')
+				top.block.elseLines.push(row);
+			else
+				errors.push({message: directive.toUpperCase() + ' without IF', line: row, start, end});
+			continue;
+		}
+
+		// Close
+		const closeKinds = close.get(directive);
+		if (!closeKinds)
+			continue;
+		let i = stack.length - 1;
+		while (i >= 0 && !closeKinds.includes(stack[i].block.kind))
+			i--;
+		if (i < 0) {
+			errors.push({message: directive.toUpperCase() + ' without ' + names.get(closeKinds[0])!.open, line: row, start, end});
+			continue;
+		}
+		// Blocks in between are not closed
+		while (stack.length - 1 > i) {
+			const unclosed = stack.pop()!;
+			errors.push(getUnclosedError(unclosed, names));
+		}
+		const {block} = stack.pop()!;
+		block.endLine = row;
+		blocks.push(block);
+	}
+
+	// Remaining blocks are not closed
+	for (const unclosed of stack)
+		errors.push(getUnclosedError(unclosed, names));
+
+	blocks.sort((a, b) => a.startLine - b.startLine);
+	errors.sort((a, b) => a.line - b.line);
+	return {blocks, errors};
+}
+
+
+/**
+ * Returns the error for a block that has no closing directive.
+ */
+function getUnclosedError(unclosed: {block: AsmBlock, start: number, end: number}, names: Map<AsmBlockKind, {open: string, close: string}>): BlockError {
+	const name = names.get(unclosed.block.kind)!;
+	return {
+		message: name.open + ' without ' + name.close,
+		line: unclosed.block.startLine,
+		start: unclosed.start,
+		end: unclosed.end
+	};
+}
+
+
+/**
+ * Checks if a line is inside a block of the given kinds.
+ * The lines of the opening and closing directive are not inside.
+ * @param blocks The blocks.
+ * @param line The line number.
+ * @param kinds The block kinds to check.
+ * @returns true if inside.
+ */
+export function isLineInsideBlocks(blocks: AsmBlock[], line: number, kinds: AsmBlockKind[]): boolean {
+	return blocks.some(block => block.startLine < line && line < block.endLine && kinds.includes(block.kind));
+}
@@ -0,0 +1,203 @@
+/**
+ * Functions for the hex calculator.
+ * An input line is an expression (see expression.ts), e.g.
+ * "SCREEN_BASE + 32*row". If it starts with a binary operator, e.g. "+ 5"
+ * or "AND 0Fh", the last result is used as left operand.
+ */
+
+import {SymbolResolver, evaluateExpression} from './expression';
+
+
+/**
+ * Checks if an input line continues the last result, i.e. starts with
+ * a binary operator.
+ * @param input E.g. "+ 5", "and 0x0F" or "3*4".
+ */
+export function continuesLastResult(input: string): boolean {
+	return /^\s*(?:<<|>>|[-+*/%&|^])/.test(input) || /^\s*(?:and|or|xor|mod|shl|shr)\b/i.test(input);
+}
+
+
+/**
+ * Evaluates an input line of the calculator.
+ * @param input The expression, e.g. "SCREEN_BASE + 32*row" or "+ 5".
+ * @param lastResult The result of the previous calculation. Used if the
+ * input starts with a binary operator.
+ * @param resolve Called for each symbol (label, EQU) to get its value.
+ * @param defaultRadix 10 for the decimal input, 16 for the hex input:
+ * the radix of numbers without prefix or suffix.
+ * @returns The value.
+ * Throws an exception with a description if the input cannot be evaluated.
+ */
+export function evaluateCalculatorInput(input: string, lastResult: number, resolve: SymbolResolver, defaultRadix = 10): number {
+	let expr = input.trim();
+	if (continuesLastResult(expr)) {
+		// With prefix so that the value is read correctly in both radixes
+		const last = ((lastResult < 0) ? '-' : '') + '0x' + Math.abs(lastResult).toString(16);
+		expr = '(' + last + ')' + expr;
+	}
+	return evaluateExpression(expr, resolve, undefined, defaultRadix);
+}
+
+
+/**
+ * The word sizes of the calculator in bits.
+ */
+export type WordSize = 8 | 16 | 24 | 32;
+
+
+/**
+ * The carry and overflow of a result for a word size.
+ */
+export interface ResultFlags {
+	/// true if the result does not fit into the word as unsigned value,
+	/// e.g. 256 or -1 for 8 bit (carry or borrow).
+	carry: boolean,
+	/// true if the result does not fit into the word as signed
+	/// (two's complement) value, e.g. 128 or -129 for 8 bit.
+	overflow: boolean
+}
+
+
+/**
+ * Returns the value truncated to the word size.
+ * Negative values are converted to two's complement.
+ * @param value E.g. -1 or 0x1234.
+ * @param bits The word size.
+ * @returns The unsigned word, e.g. 0xFF or 0x34 for 8 bit.
+ */
+export function toWord(value: number, bits: WordSize): number {
+	const range = 2 ** bits;
+	return ((value % range) + range) % range;
+}
+
+
+/**
+ * Interprets a word as two's complement value.
+ * @param word The unsigned word, e.g. 0xFF.
+ * @param bits The word size.
+ * @returns E.g. -1 for 0xFF and 8 bit.
+ */
+export function toSigned(word: number, bits: WordSize): number {
+	return (word >= 2 ** (bits - 1)) ? word - 2 ** bits : word;
+}
+
+
+/**
+ * Returns the value that is shown for a word.
+ * @param value The value, e.g. 255.
+ * @param bits The word size.
+ * @param signed true to interpret the word as two's complement value.
+ * @returns The truncated value, e.g. -1 for 255 signed 8 bit.
+ */
+export function interpretWord(value: number, bits: WordSize, signed: boolean): number {
+	const word = toWord(value, bits);
+	return (signed) ? toSigned(word, bits) : word;
+}
+
+
+/**
+ * Returns the carry and overflow of a result.
+ * @param value The (untruncated) result of a calculation.
+ * @param bits The word size.
+ */
+export function getResultFlags(value: number, bits: WordSize): ResultFlags {
+	const range = 2 ** bits;
+	return {
+		carry: value < 0 || value >= range,
+		overflow: value < -range / 2 || value >= range / 2
+	};
+}
+
+
+/**
+ * Formats a word as hex value with all digits of the word size.
+ * @param value The value. Negative values are shown as two's complement.
+ * @param bits The word size.
+ * @param hexPrefix The prefix for hex values, e.g. '0x' or '$'.
+ * @returns E.g. "0x00FF" for 16 bit.
+ */
+export function formatWordHex(value: number, bits: WordSize, hexPrefix: string): string {
+	return hexPrefix + toWord(value, bits).toString(16).toUpperCase().padStart(bits / 4, '0');
+}
+
+
+/**
+ * Returns the bits of a word.
+ * @param value The value. Negative values are converted to two's complement.
+ * @param bits The word size.
+ * @returns The bits (0 or 1), the most significant bit first.
+ */
+export function getWordBits(value: number, bits: WordSize): number[] {
+	const word = toWord(value, bits);
+	const result: number[] = [];
+	for (let i = bits - 1; i >= 0; i--)
+		result.push(Math.floor(word / 2 ** i) % 2);
+	return result;
+}
+
+
+/**
+ * Toggles a bit of a word.
+ * @param value The value.
+ * @param bit The index of the bit, 0 = least significant bit.
+ * @param bits The word size.
+ * @param signed true to return the result as two's complement value.
+ * @returns The changed value.
+ */
+export function toggleBit(value: number, bit: number, bits: WordSize, signed: boolean): number {
+	const word = toWord(value, bits);
+	const mask = 2 ** bit;
+	const toggled = (Math.floor(word / mask) % 2) ? word - mask : word + mask;
+	return interpretWord(toggled, bits, signed);
+}
+
+
+/**
+ * An entry of the calculator history.
+ */
+export interface HistoryEntry {
+	/// The input line, e.g. "SCREEN_BASE + 32*row". Undefined if the
+	/// value was not calculated, e.g. a toggled bit.
+	input?: string,
+	/// The value, truncated to the word size.
+	value: number
+}
+
+
+/**
+ * The state of the calculator that is restored after a reload.
+ */
+export interface CalculatorState {
+	/// The selected word size.
+	wordSize: WordSize,
+	/// true if the values are shown as two's complement values.
+	signed: boolean,
+	/// The values, the last result last.
+	history: HistoryEntry[]
+}
+
+
+/**
+ * Appends an entry to the history. The oldest entries are removed if the
+ * history is too long.
+ * @param history The history. Is changed.
+ * @param entry The new entry.
+ * @param maxLength The max. number of entries.
+ */
+export function addToHistory(history: HistoryEntry[], entry: HistoryEntry, maxLength: number) {
+	history.push(entry);
+	if (history.length > maxLength)
+		history.splice(0, history.length - maxLength);
+}
+
+
+/**
+ * Returns the last result of a stored state.
+ * @param state The state or undefined if nothing was stored yet.
+ * @returns The value of the last history entry or 0.
+ */
+export function getLastResult(state: CalculatorState | undefined): number {
+	const history = state?.history ?? [];
+	return history.length ? history[history.length - 1].value : 0;
+}
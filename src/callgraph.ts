@@ -0,0 +1,183 @@
+/**
+ * Creates the call graph, i.e. which routine calls (or jumps to) which
+ * other routines.
+ * A routine starts at a non-local code label and ends at the next non-local
+ * label or at an unconditional RET or JP (unless a local label follows).
+ */
+
+import {getInstruction} from './asmblocks';
+import {Dialect, defaultDialect} from './dialects';
+import {getLabelCandidates} from './labelcheck';
+import {FileSymbols, IndexedSymbol} from './symbolparser';
+
+
+/**
+ * A routine, i.e. a non-local code label.
+ */
+export interface Routine {
+	/// The file path:
+	filePath: string,
+	/// The label definition.
+	symbol: IndexedSymbol,
+	/// The last line of the routine.
+	endLine: number
+}
+
+
+/**
+ * A CALL, RST, JP, JR or DJNZ to a label.
+ */
+export interface CallSite {
+	/// 'call' for CALL and RST, 'jump' for JP, JR and DJNZ.
+	kind: 'call' | 'jump',
+	/// The full label of the calling routine.
+	caller: string,
+	/// The target as written, e.g. "init".
+	target: string,
+	/// The full labels the target could refer to, in order of precedence.
+	candidates: string[],
+	/// The file path:
+	filePath: string,
+	/// The line number:
+	line: number,
+	/// The start column of the target:
+	start: number,
+	/// The end column of the target:
+	end: number
+}
+
+
+/**
+ * The call graph of several files.
+ */
+export interface CallGraph {
+	/// All routines. Key = full label (incl. module).
+	routines: Map<string, Routine>,
+	/// All calls and jumps to other routines.
+	/// The target is already resolved, i.e. 'targetRoutine' is the full label.
+	calls: (CallSite & {targetRoutine: string})[]
+}
+
+
+/// The instructions that are calls or jumps.
+const callInstructions = new Map<string, 'call' | 'jump'>([
+	['call', 'call'],
+	['rst', 'call'],
+	['jp', 'jump'],
+	['jr', 'jump'],
+	['djnz', 'jump']
+]);
+
+
+/**
+ * Analyzes the routines and calls of a file.
+ * @param filePath The file path.
+ * @param lines The comment stripped lines of the file.
+ * @param fileSymbols The symbols of the file.
+ * @param dialect The assembler dialect.
+ * @returns The routines and the call sites. The call sites are not resolved yet.
+ */
+export function analyzeCalls(filePath: string, lines: string[], fileSymbols: FileSymbols, dialect = defaultDialect): {routines: Routine[], callSites: CallSite[]} {
+	const routines: Routine[] = [];
+	const callSites: CallSite[] = [];
+	const regexTarget = /^(\s*(?:[a-z]+\s*,\s*)?)(@?[a-z_.][\w.]*)\s*$/i;
+	const {modStructInfos, symbols} = fileSymbols;
+	let modIndex = -1;
+	let module = '';
+	let symbolIndex = 0;
+	let routine: Routine | undefined;
+	let ended = false;	// true after RET or JP
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		// Update module and routine
+		while (modIndex + 1 < modStructInfos.length && modStructInfos[modIndex + 1].row <= row) {
+			modIndex++;
+			module = modStructInfos[modIndex].label;
+		}
+		while (symbolIndex < symbols.length && symbols[symbolIndex].line <= row) {
+			const symbol = symbols[symbolIndex++];
+			if (symbol.local) {
+				// Code after a local label is reachable again
+				ended = false;
+				continue;
+			}
+			if (symbol.kind == 'module' || symbol.kind == 'struct' || symbol.kind == 'macro')
+				continue;
+			routine = undefined;
+			if (symbol.kind == 'code') {
+				routine = {filePath, symbol, endLine: row};
+				routines.push(routine);
+				ended = false;
+			}
+		}
+		if (!routine || ended)
+			continue;
+
+		// Check the instruction
+		const line = lines[row];
+		const instr = getInstruction(line, dialect);
+		if (!instr)
+			continue;
+		routine.endLine = row;
+		const instruction = instr.instruction.toLowerCase();
+		const operandsStart = instr.start + instr.instruction.length;
+		const operands = line.substring(operandsStart);
+		const conditional = operands.includes(',');
+		if (instruction == 'ret' || instruction == 'reti' || instruction == 'retn') {
+			if (!operands.trim())
+				ended = true;
+			continue;
+		}
+		const kind = callInstructions.get(instruction);
+		if (!kind)
+			continue;
+		if ((instruction == 'jp' || instruction == 'jr') && !conditional)
+			ended = true;
+		const match = regexTarget.exec(operands);
+		if (!match)
+			continue;	// E.g. "jp (hl)" or "rst 38h"
+		const target = match[2];
+		const start = operandsStart + match[1].length;
+		callSites.push({
+			kind,
+			caller: routine.symbol.moduleLabel,
+			target,
+			candidates: getLabelCandidates(target, module, routine.symbol.moduleLabel),
+			filePath,
+			line: row,
+			start,
+			end: start + target.length
+		});
+	}
+	return {routines, callSites};
+}
+
+
+/**
+ * Creates the call graph for several files.
+ * Jumps inside a routine (e.g. to a local label) are not part of the graph.
+ * @param files The files with their comment stripped lines, symbols and dialect.
+ * @returns The routines and the calls between them.
+ */
+export function buildCallGraph(files: {filePath: string, lines: string[], fileSymbols: FileSymbols, dialect?: Dialect}[]): CallGraph {
+	const routines = new Map<string, Routine>();
+	const callSites: CallSite[] = [];
+	for (const {filePath, lines, fileSymbols, dialect} of files) {
+		const result = analyzeCalls(filePath, lines, fileSymbols, dialect);
+		for (const routine of result.routines) {
+			if (!routines.has(routine.symbol.moduleLabel))
+				routines.set(routine.symbol.moduleLabel, routine);
+		}
+		callSites.push(...result.callSites);
+	}
+
+	// Resolve the targets
+	const calls: CallGraph['calls'] = [];
+	for (const callSite of callSites) {
+		const targetRoutine = callSite.candidates.find(candidate => routines.has(candidate));
+		if (!targetRoutine || targetRoutine == callSite.caller)
+			continue;
+		calls.push({...callSite, targetRoutine});
+	}
+	return {routines, calls};
+}
@@ -1,3 +1,5 @@
+import {escapeRegex} from './dialects';
+
 
 
 // Is set on start and whenever the settings change.
@@ -6,12 +8,19 @@ let commentEtcPrefixes: RegExp;
 let commentHoverPrefixes: RegExp;
 let commentHoverPrefixesSameLine: RegExp;
 let singleLineCommentsSet: Set<string>;
+let customCommentPrefix: string | undefined;
+
+// The regexes to strip the comments for other single line comment
+// prefixes (e.g. of a dialect). Key = the joined prefixes.
+const dialectCommentPrefixes = new Map<string, {regex: RegExp, prefixesSet: Set<string>}>();
 
 /**
  * Sets the characters used as comments.
  * @param prefix Text from toggleCommentPrefix.
  */
 export function setCustomCommentPrefix(prefix?: string) {
+	customCommentPrefix = prefix;
+	dialectCommentPrefixes.clear();
 	singleLineCommentsSet = new Set<string>([';', '//']);
 	if (prefix)
 		singleLineCommentsSet.add(prefix);
@@ -30,13 +39,43 @@ export function setCustomCommentPrefix(prefix?: string) {
 }
 
 
+/**
+ * Returns the regex to strip the comments for other single line comment
+ * prefixes than ';' and '//'. The custom prefix is added.
+ * @param prefixes E.g. ['#'].
+ */
+function getCommentPrefixes(prefixes: string[]): {regex: RegExp, prefixesSet: Set<string>} {
+	const key = prefixes.join(' ');
+	let entry = dialectCommentPrefixes.get(key);
+	if (!entry) {
+		const prefixesSet = new Set<string>(prefixes);
+		if (customCommentPrefix)
+			prefixesSet.add(customCommentPrefix);
+		const escaped = Array.from(prefixesSet).map(escapeRegex);
+		const regex = new RegExp('("|\'|/\\*|' + escaped.join('|') + ')', 'g');
+		entry = {regex, prefixesSet};
+		dialectCommentPrefixes.set(key, entry);
+	}
+	return entry;
+}
+
+
 /**
  * Strips all comments, line (; //) and multiline (/* ...).
  * Additionally all quoted text is blanked out.
  * @param lines [in, out] An array of strings. During processing the array is modified.
  * I.e. lines with comments are stripped.
+ * @param prefixes The single line comment prefixes of the dialect, e.g. ['#'].
+ * If omitted ';', '//' and the custom prefix are used.
  */
-export function stripAllComments(lines: Array<string>) {
+export function stripAllComments(lines: Array<string>, prefixes?: string[]) {
+	let regex = commentEtcPrefixes;
+	let lineCommentsSet = singleLineCommentsSet;
+	if (prefixes) {
+		const entry = getCommentPrefixes(prefixes);
+		regex = entry.regex;
+		lineCommentsSet = entry.prefixesSet;
+	}
 	let insideMultilineComment = false;
 	const len = lines.length;
 
@@ -59,9 +98,9 @@ export function stripAllComments(lines: Array<string>) {
 		// insideMultilineComment is true if we reach here
 
 		// Search for opening
-		commentEtcPrefixes.lastIndex = 0;
+		regex.lastIndex = 0;
 		let match;
-		while ((match = commentEtcPrefixes.exec(line))) {
+		while ((match = regex.exec(line))) {
 			const j1 = match.index;
 			// Which opening
 			const opening = match[1];
@@ -71,7 +110,7 @@ export function stripAllComments(lines: Array<string>) {
 				if (j2 >= 0) {
 					// blank out between quotes
 					line = line.substring(0, j1) + ' '.repeat(j2 - j1 + 1) + line.substring(j2 + 1);
-					commentEtcPrefixes.lastIndex = j2 + 1;
+					regex.lastIndex = j2 + 1;
 				}
 				else {
 					// Cut off
@@ -85,7 +124,7 @@ export function stripAllComments(lines: Array<string>) {
 				if (j2 >= 0) {
 					// blank out between /*...*/
 					line = line.substring(0, j1) + ' '.repeat(j2 - j1 + 2) + line.substring(j2 + 2);
-					commentEtcPrefixes.lastIndex = j2 + 2;
+					regex.lastIndex = j2 + 2;
 				}
 				else {
 					// Cut off
@@ -94,7 +133,7 @@ export function stripAllComments(lines: Array<string>) {
 					break;
 				}
 			}
-			else if (singleLineCommentsSet.has(opening)) {
+			else if (lineCommentsSet.has(opening)) {
 				// Single line comment: Cut off
 				line = line.substring(0, j1);
 				break;
@@ -1,5 +1,15 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import {PackageInfo} from "./whatsnew/packageinfo";
+import {BinaryStyle, HexStyle} from './numberformat';
+import {FormatCase} from './formatter';
+
+
+/**
+ * The severity of a diagnostic as used in the settings.
+ * 'off' disables the diagnostic.
+ */
+export type DiagnosticsSeverity = 'error' | 'warning' | 'information' | 'hint' | 'off';
 
 
  /**
@@ -28,25 +38,52 @@ export class Config {
 	// true if code lenses should be enabled.
 	public static globalEnableCompletions: boolean;
 
+	// true if the signature help for macros should be enabled.
+	public static globalEnableSignatureHelp: boolean;
+
 	// true if code lenses should be enabled.
 	public static globalEnableGotoDefinition: boolean;
 
 	// true if code lenses should be enabled.
 	public static globalEnableFindAllReferences: boolean;
 
+	// true if the occurrences of a label should be highlighted.
+	public static globalEnableDocumentHighlights: boolean;
+
 	// true if code lenses should be enabled.
 	public static globalEnableRenaming: boolean;
 
+	// true if the call hierarchy should be enabled.
+	public static globalEnableCallHierarchy: boolean;
+
+	// true if the T-states should be shown (inlay hints or code lenses).
+	public static globalEnableCycles: boolean;
+
+	// true if the semantic tokens should be enabled.
+	public static globalEnableSemanticTokens: boolean;
+
 	// true if code lenses should be enabled.
 	public static globalEnableOutlineView: boolean;
 
+	// true if the folding ranges should be enabled.
+	public static globalEnableFolding: boolean;
+
+	// true if the formatting should be enabled.
+	public static globalEnableFormatting: boolean;
+
 	// true if workspace symbols should be enabled
 	public static globalEnableWorkspaceSymbols: boolean;
 
+	// true if any diagnostic is enabled.
+	public static globalEnableDiagnostics: boolean;
+
 	// The custom prefix to use for toggle line comment. Depends on language
 	// id and can therefore only be set globally.
 	public static globalToggleCommentPrefix: string;
 
+	// The prefix to use for hex values, e.g. '0x' or '$'.
+	public static globalHexPrefix: string;
+
 	// A map with the configs for all workspace folders
 	public static configs = new Map<string, Config>();
 
@@ -57,27 +94,77 @@ export class Config {
 	// true if code lenses should be enabled.
 	public enableCodeLenses: boolean;
 
+	// true if the address of a label (from the list file) should be shown in the code lens.
+	public codeLensShowAddress: boolean;
+
 	// true if code lenses should be enabled.
 	public enableHovering: boolean;
 
 	// true if code lenses should be enabled.
 	public enableCompletions: boolean;
 
+	// true if the signature help for macros should be enabled.
+	public enableSignatureHelp: boolean;
+
 	// true if code lenses should be enabled.
 	public enableGotoDefinition: boolean;
 
 	// true if code lenses should be enabled.
 	public enableFindAllReferences: boolean;
 
+	// true if the occurrences of a label should be highlighted.
+	public enableDocumentHighlights: boolean;
+
 	// true if code lenses should be enabled.
 	public enableRenaming: boolean;
 
+	// true if a rename in asm files also renames the label in the list files
+	// generated from them (and vice versa).
+	public renameIncludeListFiles: boolean;
+
+	// true if the call hierarchy should be enabled.
+	public enableCallHierarchy: boolean;
+
+	// true if the T-states of each line should be shown as inlay hint.
+	public cyclesShowInlayHints: boolean;
+
+	// true if the summed T-states of each routine should be shown as code lens.
+	public cyclesShowCodeLens: boolean;
+
+	// true if labels, constants, macros etc. should be colored by semantic tokens.
+	public enableSemanticTokens: boolean;
+
 	// true if code lenses should be enabled.
 	public enableOutlineView: boolean;
 
+	// true if blocks and comments can be folded.
+	public enableFolding: boolean;
+
+	// true if also routines can be folded.
+	public foldingRoutines: boolean;
+
+	// true if documents can be formatted.
+	public enableFormatting: boolean;
+
+	// The column of the instructions when formatting.
+	public formatMnemonicColumn: number;
+
+	// The column of the operands when formatting.
+	public formatOperandColumn: number;
+
+	// The column of trailing comments when formatting.
+	public formatCommentColumn: number;
+
+	// The case of instructions, directives and registers when formatting.
+	public formatCase: FormatCase;
+
 	// true if workspace symbols are enabled
 	public enableWorkspaceSymbols: boolean;	// TODO: implement
 
+	// The assembler dialect, e.g. 'sjasmplus' or 'rasm'.
+	// Can be overridden per file by a modeline.
+	public dialect: string;
+
 	// true if labels with colons should be searched.
 	public labelsWithColons: boolean;
 
@@ -90,6 +177,36 @@ export class Config {
 	// Exclude files (glob pattern)
 	public excludeFiles: string;
 
+	// Additional (absolute) directories to search for included files.
+	public includePaths: string[];
+
+	// true if the label search should be restricted to the files
+	// that are included together (the translation unit).
+	public restrictToTranslationUnit: boolean;
+
+	// The severity for references to undefined labels.
+	public diagnosticsUndefinedLabels: DiagnosticsSeverity;
+
+	// The severity for labels that are defined more than once.
+	public diagnosticsDuplicateLabels: DiagnosticsSeverity;
+
+	// The severity for INCLUDEs of files that are not found.
+	public diagnosticsUnresolvedIncludes: DiagnosticsSeverity;
+
+	// The severity for unbalanced MODULE, STRUCT, MACRO and IF blocks.
+	public diagnosticsUnbalancedBlocks: DiagnosticsSeverity;
+
+	// true if the unreferenced labels should be shown as diagnostics
+	// instead of in the tree view.
+	public unreferencedLabelsAsDiagnostics: boolean;
+
+	// The preferred style for hex numbers, e.g. '$' or 'h'.
+	// Used for conversions of number literals.
+	public numbersHexStyle: HexStyle;
+
+	// The preferred style for binary numbers, e.g. '%' or 'b'.
+	public numbersBinaryStyle: BinaryStyle;
+
 	// Required minimum length for completions.
 	public completionsRequiredLength: number;
 
@@ -103,15 +220,24 @@ export class Config {
 		// Set global variables (variables with 'window' scope)
 		const globalSettings = PackageInfo.getConfiguration();
 		Config.globalToggleCommentPrefix = globalSettings.comments.toggleLineCommentPrefix;
+		Config.globalHexPrefix = globalSettings.hexCalculator?.hexPrefix ?? '0x';
 
 		// Clear global/local variables (variables with 'resource' scope)
 		Config.globalEnableCodeLenses = false;
 		Config.globalEnableHovering = false;
 		Config.globalEnableCompletions = false;
+		Config.globalEnableSignatureHelp = false;
 		Config.globalEnableGotoDefinition = false;
 		Config.globalEnableFindAllReferences = false;
+		Config.globalEnableDocumentHighlights = false;
 		Config.globalEnableRenaming = false;
+		Config.globalEnableCallHierarchy = false;
+		Config.globalEnableCycles = false;
+		Config.globalEnableSemanticTokens = false;
 		Config.globalEnableOutlineView = false;
+		Config.globalEnableFolding = false;
+		Config.globalEnableFormatting = false;
+		Config.globalEnableDiagnostics = false;
 
 		// Go through each setting
 		const workspaceFolders = vscode.workspace.workspaceFolders || [];
@@ -124,6 +250,7 @@ export class Config {
 			//console.log("workspacefolder=" + fsPath);
 			config.wsFolderPath = fsPath;
 			const settings = PackageInfo.getConfiguration(workspaceFolder);
+			config.dialect = settings.dialect ?? 'sjasmplus';
 			config.labelsWithColons = true;
 			config.labelsWithoutColons = true;
 			const labelsColon = (settings.labels?.colon || '').toLowerCase();
@@ -134,13 +261,31 @@ export class Config {
 			const labelsExcludesString = settings.labels?.excludes || '';
 			config.labelsExcludes = labelsExcludesString.toLowerCase().split(';');
 			config.excludeFiles = settings.excludeFiles;
+			const includePaths: string[] = settings.includes?.paths || [];
+			config.includePaths = includePaths.map(includePath => path.resolve(fsPath, includePath));
+			config.restrictToTranslationUnit = settings.includes?.restrictToTranslationUnit ?? true;
 			config.enableCodeLenses = settings.enableCodeLenses;
+			config.codeLensShowAddress = settings.codeLens?.showAddress ?? false;
 			config.enableHovering = settings.enableHovering;
 			config.enableCompletions = settings.enableCompletions;
+			config.enableSignatureHelp = settings.enableSignatureHelp ?? true;
 			config.enableGotoDefinition = settings.enableGotoDefinition;
 			config.enableFindAllReferences = settings.enableFindAllReferences;
+			config.enableDocumentHighlights = settings.enableDocumentHighlights ?? true;
 			config.enableRenaming = settings.enableRenaming;
+			config.renameIncludeListFiles = settings.rename?.includeListFiles ?? false;
+			config.enableCallHierarchy = settings.enableCallHierarchy ?? true;
+			config.cyclesShowInlayHints = settings.cycles?.showInlayHints ?? false;
+			config.cyclesShowCodeLens = settings.cycles?.showCodeLens ?? false;
+			config.enableSemanticTokens = settings.enableSemanticTokens ?? true;
 			config.enableOutlineView = settings.enableOutlineView;
+			config.enableFolding = settings.enableFolding ?? true;
+			config.foldingRoutines = settings.folding?.routines ?? false;
+			config.enableFormatting = settings.enableFormatting ?? true;
+			config.formatMnemonicColumn = settings.format?.mnemonicColumn ?? 8;
+			config.formatOperandColumn = settings.format?.operandColumn ?? 16;
+			config.formatCommentColumn = settings.format?.commentColumn ?? 40;
+			config.formatCase = settings.format?.case ?? 'keep';
 			config.completionsRequiredLength = settings.completionsRequiredLength || 0;
 			if (config.completionsRequiredLength < 1)
 				config.completionsRequiredLength = 1;
@@ -148,17 +293,35 @@ export class Config {
 			if (config.workspaceSymbolsRequiredLength < 1)
 				config.workspaceSymbolsRequiredLength = 1;
 			config.enableWorkspaceSymbols = settings.enableWorkspaceSymbols;
+			config.diagnosticsUndefinedLabels = settings.diagnostics?.undefinedLabels ?? 'warning';
+			config.diagnosticsDuplicateLabels = settings.diagnostics?.duplicateLabels ?? 'error';
+			config.diagnosticsUnresolvedIncludes = settings.diagnostics?.unresolvedIncludes ?? 'error';
+			config.diagnosticsUnbalancedBlocks = settings.diagnostics?.unbalancedBlocks ?? 'error';
+			config.unreferencedLabelsAsDiagnostics = settings.unreferencedLabels?.showAsDiagnostics ?? false;
+			config.numbersHexStyle = settings.numbers?.hexStyle ?? '$';
+			config.numbersBinaryStyle = settings.numbers?.binaryStyle ?? '%';
 			// Store
 			Config.configs.set(fsPath, config);
 			// Set global variables
 			Config.globalEnableCodeLenses ||= settings.enableCodeLenses;
 			Config.globalEnableHovering ||= config.enableHovering;
 			Config.globalEnableCompletions ||= config.enableCompletions;
+			Config.globalEnableSignatureHelp ||= config.enableSignatureHelp;
 			Config.globalEnableGotoDefinition ||= config.enableGotoDefinition;
 			Config.globalEnableFindAllReferences ||= config.enableFindAllReferences;
+			Config.globalEnableDocumentHighlights ||= config.enableDocumentHighlights;
 			Config.globalEnableRenaming ||= config.enableRenaming;
+			Config.globalEnableCallHierarchy ||= config.enableCallHierarchy;
+			Config.globalEnableCycles ||= config.cyclesShowInlayHints || config.cyclesShowCodeLens;
+			Config.globalEnableSemanticTokens ||= config.enableSemanticTokens;
 			Config.globalEnableOutlineView ||= config.enableOutlineView;
+			Config.globalEnableFolding ||= config.enableFolding;
+			Config.globalEnableFormatting ||= config.enableFormatting;
 			Config.globalEnableWorkspaceSymbols ||= config.enableWorkspaceSymbols;
+			Config.globalEnableDiagnostics ||= config.diagnosticsUndefinedLabels != 'off'
+				|| config.diagnosticsDuplicateLabels != 'off'
+				|| config.diagnosticsUnresolvedIncludes != 'off'
+				|| config.diagnosticsUnbalancedBlocks != 'off';
 		}
 	}
 
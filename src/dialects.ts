@@ -0,0 +1,261 @@
+/**
+ * The assembler dialects. A dialect supplies the assembler specific rules
+ * to the parsers and providers: local labels, module/namespace directives,
+ * macro syntax, comment characters, include directives and keywords.
+ * The dialect is selected per workspace folder in the settings or per file
+ * via a modeline, e.g. "; asm-code-lens: dialect=rasm".
+ */
+
+
+/**
+ * The IDs of the supported dialects.
+ */
+export type DialectId = 'sjasmplus' | 'z80asm' | 'pasmo' | 'rasm' | 'gnu-as';
+
+
+/**
+ * The assembler specific rules.
+ */
+export interface Dialect {
+	/// The ID as used in the settings and in modelines.
+	id: DialectId,
+	/// The name shown to the user, e.g. "z88dk z80asm".
+	name: string,
+	/// true if the Z80 instructions and registers are used (e.g. for completions).
+	z80: boolean,
+	/// true if the assembler has numeric temporary labels, e.g. "1"
+	/// referenced by "1B" (backward) and "1F" (forward).
+	tempLabels: boolean,
+	/// The prefix of local labels, e.g. "." for ".loop".
+	/// Undefined if the assembler has no local labels that are
+	/// scoped by the previous non-local label.
+	localLabelPrefix?: string,
+	/// The prefix that makes a label global inside a module, e.g. "@".
+	globalLabelPrefix?: string,
+	/// The directives that open a module (namespace), e.g. "module".
+	moduleDirectives: string[],
+	/// The directives that close a module, e.g. "endmodule".
+	endModuleDirectives: string[],
+	/// The directives that open a macro, e.g. "macro".
+	macroDirectives: string[],
+	/// The directives that close a macro, e.g. "endm".
+	endMacroDirectives: string[],
+	/// The single line comment prefixes, e.g. ";".
+	commentPrefixes: string[],
+	/// The directives that include source or binary files, e.g. "include".
+	includeDirectives: string[],
+	/// The assembler directives, e.g. used for completions.
+	keywords: string[]
+}
+
+
+/// The supported dialects.
+export const dialects = new Map<DialectId, Dialect>([
+	['sjasmplus', {
+		id: 'sjasmplus',
+		name: 'sjasmplus',
+		z80: true,
+		tempLabels: true,
+		localLabelPrefix: '.',
+		globalLabelPrefix: '@',
+		moduleDirectives: ['module'],
+		endModuleDirectives: ['endmodule', 'endmod'],
+		macroDirectives: ['macro'],
+		endMacroDirectives: ['endm', 'endmacro'],
+		commentPrefixes: [';', '//'],
+		includeDirectives: ['include', 'incbin', 'binary', 'insert'],
+		keywords: [
+			// Fake instructions
+			'sli',
+			// Directives
+			'macro', 'endm', 'module', 'endmodule', 'struct', 'ends', 'dup', 'edup',
+			'if', 'ifn', 'ifdef', 'ifndef', 'ifused', 'ifnused', 'else', 'endif',
+			'include', 'incbin',
+			'abyte', 'abytec', 'abytez', 'align', 'assert',
+			'binary', 'block', 'defb', 'defd', 'defg', 'defh', 'defl', 'defm', 'defs', 'defw', 'dephase', 'disp', 'phase', 'unphase',
+			'd24', 'db', 'dc', 'dd', 'dg', 'dh', 'hex', 'dm', 'ds', 'dw', 'dz',
+			'display', 'byte', 'word', 'dword',
+			'emptytap', 'emptytrd', 'encoding',
+			'equ', 'export',
+			'end', 'endlua', 'endt', 'ent',
+			'includelua', 'inchob', 'inctrd', 'insert',
+			'lua', 'labelslist', 'org', 'outend', 'output',
+			'memorymap', 'mmu',
+			'page', 'rept', 'endr', 'savebin', 'savedev', 'savehob', 'savesna', 'savetrd',
+			'savetap', 'basic', 'code', 'numbers', 'chars', 'headless',
+			'savenex', 'core', 'cfg', 'cfg3', 'bar', 'palette', 'default', 'mem', 'bmp', 'screen',
+			'l2', 'l2_320', 'l2_640', 'scr', 'shc', 'shr', 'tile', 'cooper', 'bank', 'auto',
+			'shellexec', 'size', 'slot',
+			'tapend', 'tapout',
+			'textarea',
+			'define', 'undefine',
+			'defarray', 'defarray+',
+			'device', 'ZXSPECTRUM48', 'ZXSPECTRUM128', 'ZXSPECTRUM256', 'ZXSPECTRUM512', 'ZXSPECTRUM1024', 'ZXSPECTRUM2048', 'ZXSPECTRUM4096', 'ZXSPECTRUM8192', 'ZXSPECTRUMNEXT', 'NONE', 'ramtop',
+			'open', 'close',
+			'setbp', 'setbreakpoint',
+			'bplist', 'unreal', 'zesarux',
+			'opt', 'cspectmap', 'fpos',
+			'_sjasmplus', '_version', '_release', '_errors', '_warnings'
+		]
+	}],
+	['z80asm', {
+		id: 'z80asm',
+		name: 'z88dk z80asm',
+		z80: true,
+		tempLabels: false,
+		// MODULE only names the object file, it is no namespace
+		moduleDirectives: [],
+		endModuleDirectives: [],
+		macroDirectives: ['macro'],
+		endMacroDirectives: ['endm'],
+		commentPrefixes: [';'],
+		includeDirectives: ['include', 'binary', 'incbin'],
+		keywords: [
+			'module', 'section', 'org', 'align', 'phase', 'dephase',
+			'public', 'extern', 'global', 'xdef', 'xref', 'lib', 'xlib',
+			'defb', 'defw', 'defq', 'defm', 'defs', 'defc', 'defvars', 'defgroup', 'db', 'dw', 'dm', 'ds',
+			'if', 'ifdef', 'ifndef', 'else', 'elif', 'endif',
+			'include', 'binary', 'incbin',
+			'macro', 'endm', 'local', 'exitm', 'rept', 'repti', 'reptc', 'endr',
+			'lstoff', 'lston', 'line', 'c_line', 'assert'
+		]
+	}],
+	['pasmo', {
+		id: 'pasmo',
+		name: 'Pasmo',
+		z80: true,
+		tempLabels: false,
+		moduleDirectives: [],
+		endModuleDirectives: [],
+		macroDirectives: ['macro'],
+		endMacroDirectives: ['endm'],
+		commentPrefixes: [';'],
+		includeDirectives: ['include', 'incbin'],
+		keywords: [
+			'org', 'equ', 'defl', 'end',
+			'defb', 'db', 'defm', 'dm', 'defw', 'dw', 'defs', 'ds',
+			'include', 'incbin',
+			'if', 'ifdef', 'ifndef', 'else', 'endif',
+			'macro', 'endm', 'exitm', 'rept', 'irp', 'irpc', 'local', 'proc', 'endp', 'public',
+			'.shift', '.error', '.warning', '.z80', '.8080', '.phase', '.dephase'
+		]
+	}],
+	['rasm', {
+		id: 'rasm',
+		name: 'RASM',
+		z80: true,
+		tempLabels: false,
+		localLabelPrefix: '.',
+		moduleDirectives: [],
+		endModuleDirectives: [],
+		macroDirectives: ['macro'],
+		endMacroDirectives: ['mend', 'endm'],
+		commentPrefixes: [';', '//'],
+		includeDirectives: ['include', 'read', 'incbin', 'incl48', 'inclz4', 'incexo', 'incapu', 'inczx7'],
+		keywords: [
+			'org', 'align', 'limit', 'protect', 'nocode', 'code', 'run',
+			'bank', 'bankset', 'buildsna', 'buildcpr', 'save', 'print', 'assert', 'fail', 'stop',
+			'defb', 'defw', 'defs', 'db', 'dw', 'ds', 'str', 'charset',
+			'include', 'read', 'incbin', 'incl48', 'inclz4', 'incexo', 'incapu', 'inczx7',
+			'if', 'ifdef', 'ifndef', 'ifused', 'ifnused', 'else', 'elseif', 'endif',
+			'macro', 'mend', 'repeat', 'rend', 'until', 'while', 'wend',
+			'switch', 'case', 'default', 'break', 'endswitch',
+			'struct', 'endstruct', 'let', 'ticker'
+		]
+	}],
+	['gnu-as', {
+		id: 'gnu-as',
+		name: 'GNU as',
+		z80: false,
+		tempLabels: true,
+		moduleDirectives: [],
+		endModuleDirectives: [],
+		macroDirectives: ['.macro'],
+		endMacroDirectives: ['.endm'],
+		commentPrefixes: ['#'],
+		includeDirectives: ['.include', '.incbin'],
+		keywords: [
+			'.text', '.data', '.bss', '.section', '.globl', '.global', '.extern', '.local', '.comm', '.lcomm',
+			'.byte', '.word', '.short', '.long', '.quad', '.ascii', '.asciz', '.string',
+			'.space', '.skip', '.fill', '.zero', '.align', '.balign', '.p2align', '.org',
+			'.equ', '.set', '.equiv',
+			'.macro', '.endm', '.exitm', '.rept', '.endr', '.irp', '.irpc',
+			'.if', '.ifdef', '.ifndef', '.else', '.elseif', '.endif',
+			'.include', '.incbin',
+			'.type', '.size', '.file', '.ident',
+			'.intel_syntax', '.att_syntax', '.code16', '.code32', '.code64'
+		]
+	}]
+]);
+
+
+/// The dialect used if nothing else is configured.
+export const defaultDialect = dialects.get('sjasmplus')!;
+
+
+/**
+ * Returns the dialect for an ID.
+ * @param id E.g. "rasm". Case-insensitive.
+ * @returns The dialect or undefined if the ID is unknown.
+ */
+export function getDialect(id: string | undefined): Dialect | undefined {
+	if (!id)
+		return undefined;
+	return dialects.get(id.toLowerCase() as DialectId);
+}
+
+
+/**
+ * Searches the first and the last lines of a file for a modeline,
+ * e.g. "; asm-code-lens: dialect=rasm".
+ * The comment character in front of the modeline does not matter.
+ * @param lines The (original) lines of the file.
+ * @param maxLines The number of lines searched at the start and at the end.
+ * @returns The dialect or undefined if there is no modeline with a known dialect.
+ */
+export function getModelineDialect(lines: string[], maxLines = 5): Dialect | undefined {
+	const regex = /\basm-code-lens:\s*dialect\s*=\s*([\w-]+)/i;
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		if (row == maxLines && len - maxLines > row)
+			row = len - maxLines;
+		const match = regex.exec(lines[row]);
+		if (match)
+			return getDialect(match[1]);
+	}
+	return undefined;
+}
+
+
+/**
+ * Returns the dialect of a file: the modeline, if any, else the configured one.
+ * @param lines The (original) lines of the file.
+ * @param configuredId The dialect of the workspace folder settings.
+ * @returns The dialect. sjasmplus if nothing (valid) is configured.
+ */
+export function selectDialect(lines: string[], configuredId?: string): Dialect {
+	return getModelineDialect(lines) ?? getDialect(configuredId) ?? defaultDialect;
+}
+
+
+/**
+ * Escapes a text to be used literally inside a regular expression.
+ * @param text E.g. ".macro"
+ * @returns E.g. "\\.macro"
+ */
+export function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+
+/**
+ * Returns a regex alternation for directives.
+ * A directive without leading dot also matches with a leading dot.
+ * @param directives E.g. ["macro", ".macro"]
+ * @returns E.g. "\\.?macro|\\.macro". Or undefined if the list is empty.
+ */
+export function getDirectivesPattern(directives: string[]): string | undefined {
+	if (directives.length == 0)
+		return undefined;
+	return directives.map(directive => (directive.startsWith('.') ? '' : '\\.?') + escapeRegex(directive)).join('|');
+}
@@ -0,0 +1,306 @@
+/**
+ * Parser and evaluator for assembler expressions.
+ * E.g. "(SCREEN + 32*8) & 0xFF00".
+ * Supported:
+ * - Operators (in order of precedence): unary + - ~ !, * / %, + -, << >>, &, ^, |
+ * - Operators as words: NOT, MOD, SHL, SHR, AND, XOR, OR (case insensitive).
+ * - Parentheses
+ * - Number formats: decimal, hex (0x1F, $1F, #1F, 1Fh), binary (%0101, 0b0101, 0101b),
+ *   octal (0q17, 17o, 17q) and character literals ('A', "A").
+ * - $ for the current address.
+ * - Symbols (labels) that are resolved via a callback.
+ */
+
+
+/**
+ * The token types.
+ */
+type TokenType = 'number' | 'symbol' | 'operator' | '(' | ')' | 'address';
+
+
+/**
+ * A token of the expression.
+ */
+interface Token {
+	type: TokenType,
+	text: string,
+	value?: number
+}
+
+
+/**
+ * Called to resolve a symbol (a label) in an expression.
+ * Returns undefined if the symbol is unknown.
+ */
+export type SymbolResolver = (name: string) => number | undefined;
+
+
+/**
+ * Converts a number literal into a number.
+ * @param text E.g. "0x1F", "$1F", "#1F", "1Fh", "%0101", "0b0101", "0101b", "17o" or "123".
+ * @returns The value or undefined if text is no number.
+ */
+export function parseNumber(text: string): number | undefined {
+	let match = /^(?:0x|\$|#)([0-9a-f]+)$/i.exec(text);
+	if (match)
+		return parseInt(match[1], 16);
+	match = /^([0-9][0-9a-f]*)h$/i.exec(text);
+	if (match)
+		return parseInt(match[1], 16);
+	match = /^(?:%|0b)([01]+)$/i.exec(text);
+	if (match)
+		return parseInt(match[1], 2);
+	match = /^([01]+)b$/i.exec(text);
+	if (match)
+		return parseInt(match[1], 2);
+	match = /^0q([0-7]+)$/i.exec(text);
+	if (match)
+		return parseInt(match[1], 8);
+	match = /^([0-7]+)[oq]$/i.exec(text);
+	if (match)
+		return parseInt(match[1], 8);
+	match = /^[0-9]+$/.exec(text);
+	if (match)
+		return parseInt(text, 10);
+	return undefined;
+}
+
+
+/// The operators that can be written as words and the corresponding operator.
+const wordOperators = new Map<string, string>([
+	['not', '~'],
+	['mod', '%'],
+	['shl', '<<'],
+	['shr', '>>'],
+	['and', '&'],
+	['xor', '^'],
+	['or', '|']
+]);
+
+
+/**
+ * Splits the expression into tokens.
+ * @param expr The expression, e.g. "label+2*(3-1)".
+ * @param defaultRadix 16 to read words that consist only of hex digits
+ * (e.g. "FF" or "1B") as hex numbers. Otherwise numbers without prefix
+ * or suffix are decimal.
+ * @returns An array of tokens.
+ * Throws an exception if an unknown character is found.
+ */
+function tokenize(expr: string, defaultRadix = 10): Token[] {
+	const tokens: Token[] = [];
+	const regexToken = /\s*(?:((?:0x|\$|#)[0-9a-f]+|%[01]+|[0-9][0-9a-z]*)|('(?:[^']|'')'|"[^"]")|([a-z_@\.][\w\.]*)|(<<|>>|[-+*\/%&|^~!])|([()])|(\$))/iy;
+	let index = 0;
+	const len = expr.length;
+	while (index < len) {
+		regexToken.lastIndex = index;
+		const match = regexToken.exec(expr);
+		if (!match) {
+			if (expr.substring(index).trim() == '')
+				break;
+			throw new Error("Unexpected character: '" + expr.substring(index).trim()[0] + "'");
+		}
+		index = regexToken.lastIndex;
+		const [, num, char, symbol, operator, paren, address] = match;
+		const word = num ?? symbol;
+		// After an operand '%' is the modulo operator, e.g. "7%11"
+		const previous = tokens[tokens.length - 1];
+		if (num?.startsWith('%') && previous && ['number', 'symbol', ')', 'address'].includes(previous.type)) {
+			tokens.push({type: 'operator', text: '%'});
+			index -= num.length - 1;
+		}
+		else if (defaultRadix == 16 && word && /^[0-9a-f]+$/i.test(word)) {
+			tokens.push({type: 'number', text: word, value: parseInt(word, 16)});
+		}
+		else if (symbol && wordOperators.has(symbol.toLowerCase())) {
+			tokens.push({type: 'operator', text: wordOperators.get(symbol.toLowerCase())!});
+		}
+		else if (num) {
+			const value = parseNumber(num);
+			if (value == undefined)
+				throw new Error("Invalid number: '" + num + "'");
+			tokens.push({type: 'number', text: num, value});
+		}
+		else if (char) {
+			tokens.push({type: 'number', text: char, value: char.charCodeAt(1)});
+		}
+		else if (symbol) {
+			tokens.push({type: 'symbol', text: symbol});
+		}
+		else if (operator) {
+			tokens.push({type: 'operator', text: operator});
+		}
+		else if (paren) {
+			tokens.push({type: paren as TokenType, text: paren});
+		}
+		else if (address) {
+			tokens.push({type: 'address', text: address});
+		}
+	}
+	return tokens;
+}
+
+
+/// The binary operators and their precedence (higher binds stronger).
+const binaryPrecedence = new Map<string, number>([
+	['|', 1],
+	['^', 2],
+	['&', 3],
+	['<<', 4], ['>>', 4],
+	['+', 5], ['-', 5],
+	['*', 6], ['/', 6], ['%', 6]
+]);
+
+
+/**
+ * Recursive descent parser/evaluator for the tokens.
+ */
+class Evaluator {
+	protected tokens: Token[];
+	protected index = 0;
+	protected resolve: SymbolResolver;
+	protected currentAddress?: number;
+
+	constructor(tokens: Token[], resolve: SymbolResolver, currentAddress?: number) {
+		this.tokens = tokens;
+		this.resolve = resolve;
+		this.currentAddress = currentAddress;
+	}
+
+	/**
+	 * Evaluates the complete expression.
+	 */
+	public evaluate(): number {
+		if (this.tokens.length == 0)
+			throw new Error("Empty expression");
+		const value = this.parseBinary(1);
+		if (this.index < this.tokens.length)
+			throw new Error("Unexpected '" + this.tokens[this.index].text + "'");
+		return value;
+	}
+
+	/**
+	 * Parses binary operations with at least the given precedence.
+	 */
+	protected parseBinary(minPrecedence: number): number {
+		let left = this.parseUnary();
+		while (this.index < this.tokens.length) {
+			const token = this.tokens[this.index];
+			const precedence = (token.type == 'operator') ? binaryPrecedence.get(token.text) : undefined;
+			if (precedence == undefined || precedence < minPrecedence)
+				break;
+			this.index++;
+			const right = this.parseBinary(precedence + 1);
+			left = this.calculate(token.text, left, right);
+		}
+		return left;
+	}
+
+	/**
+	 * Parses unary operators, parentheses and values.
+	 */
+	protected parseUnary(): number {
+		const token = this.tokens[this.index++];
+		if (!token)
+			throw new Error("Unexpected end of expression");
+		switch (token.type) {
+			case 'number':
+				return token.value!;
+			case 'address':
+				if (this.currentAddress == undefined)
+					throw new Error("Address '$' unknown");
+				return this.currentAddress;
+			case 'symbol': {
+				const value = this.resolve(token.text);
+				if (value == undefined)
+					throw new Error("Unknown symbol '" + token.text + "'");
+				return value;
+			}
+			case '(': {
+				const value = this.parseBinary(1);
+				const closing = this.tokens[this.index++];
+				if (closing?.type != ')')
+					throw new Error("Missing ')'");
+				return value;
+			}
+			case 'operator': {
+				const value = this.parseUnary();
+				switch (token.text) {
+					case '-': return -value;
+					case '+': return value;
+					case '~': return ~value;
+					case '!': return (value == 0) ? 1 : 0;
+				}
+			}
+		}
+		throw new Error("Unexpected '" + token.text + "'");
+	}
+
+	/**
+	 * Calculates a binary operation.
+	 */
+	protected calculate(operator: string, left: number, right: number): number {
+		switch (operator) {
+			case '+': return left + right;
+			case '-': return left - right;
+			case '*': return left * right;
+			case '/':
+				if (right == 0)
+					throw new Error("Division by zero");
+				return Math.trunc(left / right);
+			case '%':
+				if (right == 0)
+					throw new Error("Division by zero");
+				return left % right;
+			case '<<': return left << right;
+			case '>>': return left >> right;
+			case '&': return left & right;
+			case '^': return left ^ right;
+			case '|': return left | right;
+		}
+		throw new Error("Unknown operator '" + operator + "'");
+	}
+}
+
+
+/**
+ * Evaluates an assembler expression.
+ * @param expr The expression, e.g. "(SCREEN + 32*8) & 0xFF00".
+ * @param resolve Called for each symbol to get its value.
+ * @param currentAddress The value for '$'. If undefined, '$' cannot be used.
+ * @param defaultRadix 10 (default) or 16. The radix of numbers without
+ * prefix or suffix. Used by the hex calculator.
+ * @returns The value.
+ * Throws an exception with a description if the expression cannot be evaluated.
+ */
+export function evaluateExpression(expr: string, resolve: SymbolResolver, currentAddress?: number, defaultRadix = 10): number {
+	const tokens = tokenize(expr, defaultRadix);
+	const evaluator = new Evaluator(tokens, resolve, currentAddress);
+	return evaluator.evaluate();
+}
+
+
+/**
+ * Formats a value as decimal, hex and binary.
+ * Negative values are shown as 16 or 32 bit two's complement in hex and binary.
+ * @param value The value to format.
+ * @param hexPrefix The prefix for hex values, e.g. '0x' or '$'.
+ * @returns E.g. {dec: '123', hex: '0x7B', bin: '0b01111011'}
+ */
+export function formatValue(value: number, hexPrefix = '0x'): {dec: string, hex: string, bin: string} {
+	let bits;
+	let unsigned = value;
+	if (value < 0) {
+		bits = (value >= -0x8000) ? 16 : 32;
+		unsigned = (value >= -0x8000) ? (value & 0xFFFF) : (value >>> 0);
+	}
+	else if (value > 0xFFFF)
+		bits = 32;
+	else if (value > 0xFF)
+		bits = 16;
+	else
+		bits = 8;
+	const hex = hexPrefix + unsigned.toString(16).toUpperCase().padStart(bits / 4, '0');
+	const bin = '0b' + unsigned.toString(2).padStart(bits, '0');
+	return {dec: value.toString(), hex, bin};
+}
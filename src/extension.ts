@@ -6,7 +6,6 @@ import {CodeLensProvider} from './CodeLensProvider';
 import {RenameProvider} from './RenameProvider';
 import {DocumentSymbolProvider} from './DocumentSymbolProvider';
 import {CompletionProposalsProvider} from './CompletionProposalsProvider';
-import {Commands} from './Commands';
 import {setCustomCommentPrefix} from './comments';
 import {HexCalcProvider} from './HexCalcProvider';
 import {WhatsNewView} from './whatsnew/whatsnewview';
@@ -15,6 +14,18 @@ import {GlobalStorage} from './globalstorage';
 import {Config} from './config';
 import {DonateInfo} from './donate/donateinfo';
 import {WorkspaceSymbolProvider} from './WorkspaceSymbolProvider';
+import {SymbolIndex} from './symbolindex';
+import {DiagnosticsProvider} from './DiagnosticsProvider';
+import {UnreferencedLabelsView} from './UnreferencedLabelsView';
+import {CallHierarchyProvider} from './CallHierarchyProvider';
+import {CyclesProvider} from './CyclesProvider';
+import {SemanticTokensProvider} from './SemanticTokensProvider';
+import {MacroProvider} from './MacroProvider';
+import {DocumentHighlightProvider} from './DocumentHighlightProvider';
+import {FoldingRangeProvider} from './FoldingRangeProvider';
+import {FormattingProvider} from './FormattingProvider';
+import {MacroExpansionView} from './MacroExpansionView';
+import {NumberFormatProvider} from './NumberFormatProvider';
 
 
 
@@ -26,6 +37,9 @@ export function activate(context: vscode.ExtensionContext) {
     // Init global storage
     GlobalStorage.Init(context);
 
+    // Init the symbol index (registers for document changes)
+    SymbolIndex.Init(context);
+
     // Check version for donate info
     DonateInfo.checkVersion();
 
@@ -48,6 +62,9 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         vscode.window.registerWebviewViewProvider("asm-code-lens.calcview-debug", hexCalcDebugProvider, {webviewOptions: {retainContextWhenHidden: true}})
     );
+    context.subscriptions.push(vscode.commands.registerCommand('asm-code-lens.send-to-calculator', async () => {
+        await HexCalcProvider.sendSelectionToCalculator();
+    }));
 
     // Enable logging.
     configure(context);
@@ -66,6 +83,15 @@ export function activate(context: vscode.ExtensionContext) {
         // check for the 'onDidChangeWorkspaceFolders' event.
     }));
 
+    // The view for the unreferenced labels
+    const unreferencedLabelsView = new UnreferencedLabelsView(context);
+
+    // The virtual documents for 'Preview Macro Expansion'
+    new MacroExpansionView(context); // NOSONAR
+
+    // The number conversions and 'Normalize Number Literals'
+    new NumberFormatProvider(context); // NOSONAR
+
     // Register commands.
     vscode.commands.registerCommand('asm-code-lens.find-labels-with-no-reference', async () => {
         // Get current text editor to get current project/root folder.
@@ -82,8 +108,11 @@ export function activate(context: vscode.ExtensionContext) {
             return;
 
         // Found. Find labels
-        await Commands.findLabelsWithNoReference(config, languageId);
+        await unreferencedLabelsView.findLabels(config, languageId);
     });
+    context.subscriptions.push(vscode.commands.registerCommand('asm-code-lens.sum-cycles', async () => {
+        await CyclesProvider.sumSelection();
+    }));
 }
 
 
@@ -109,21 +138,38 @@ function configure(context: vscode.ExtensionContext, event?: vscode.Configuratio
             // Update the donate info
             DonateInfo.donatedPreferencesChanged();
         }
+
+        // Settings of other extensions do not change the providers or the index
+        if (!event.affectsConfiguration('asm-code-lens')
+            && !event.affectsConfiguration('files.exclude')
+            && !event.affectsConfiguration('files.associations'))
+            return;
     }
 
     // Dispose (remove, deregister) all providers
     removeProvider(regCodeLensProvider, context);
     removeProvider(regHoverProvider, context);
     removeProvider(regCompletionProposalsProvider, context);
+    removeProvider(regSignatureHelpProvider, context);
     removeProvider(regDefinitionProvider, context);
     removeProvider(regReferenceProvider, context);
+    removeProvider(regDocumentHighlightProvider, context);
     removeProvider(regRenameProvider, context);
+    removeProvider(regCallHierarchyProvider, context);
+    removeProvider(regCyclesProvider, context);
+    removeProvider(regSemanticTokensProvider, context);
     removeProvider(regDocumentSymbolProvider, context);
+    removeProvider(regFoldingRangeProvider, context);
+    removeProvider(regFormattingProvider, context);
     removeProvider(regWorkspaceSymbolProvider, context);
+    removeProvider(regDiagnosticsProvider, context);
 
     // Re-read settings for all workspaces.
     Config.init();
 
+    // The settings (e.g. excludes or labels with colons) influence the index.
+    SymbolIndex.clear();
+
     // Both "languages": asm files and list files.
     const asmListFiles: vscode.DocumentSelector = [
         {scheme: "file", language: 'asm-collection'},
@@ -147,10 +193,16 @@ function configure(context: vscode.ExtensionContext, event?: vscode.Configuratio
 
     // Register
     if (Config.globalEnableCompletions) {
-        regCompletionProposalsProvider = vscode.languages.registerCompletionItemProvider(asmListFiles, new CompletionProposalsProvider());
+        regCompletionProposalsProvider = vscode.languages.registerCompletionItemProvider(asmListFiles, new CompletionProposalsProvider(), '.');
         context.subscriptions.push(regCompletionProposalsProvider);
     }
 
+    // Register
+    if (Config.globalEnableSignatureHelp) {
+        regSignatureHelpProvider = vscode.languages.registerSignatureHelpProvider(asmListFiles, new MacroProvider(), ' ', ',');
+        context.subscriptions.push(regSignatureHelpProvider);
+    }
+
     // Register
     if (Config.globalEnableGotoDefinition) {
         regDefinitionProvider = vscode.languages.registerDefinitionProvider(asmListFiles, new DefinitionProvider());
@@ -163,12 +215,42 @@ function configure(context: vscode.ExtensionContext, event?: vscode.Configuratio
         context.subscriptions.push(regReferenceProvider);
     }
 
+    // Register
+    if (Config.globalEnableDocumentHighlights) {
+        regDocumentHighlightProvider = vscode.languages.registerDocumentHighlightProvider(asmListFiles, new DocumentHighlightProvider());
+        context.subscriptions.push(regDocumentHighlightProvider);
+    }
+
     // Register
     if (Config.globalEnableRenaming) {
         regRenameProvider = vscode.languages.registerRenameProvider(asmListFiles, new RenameProvider());
         context.subscriptions.push(regRenameProvider);
     }
 
+    // Register (only for asm files, the columns of list files contain the list prefix)
+    if (Config.globalEnableCallHierarchy) {
+        const asmFiles: vscode.DocumentSelector = {scheme: "file", language: 'asm-collection'};
+        regCallHierarchyProvider = vscode.languages.registerCallHierarchyProvider(asmFiles, new CallHierarchyProvider());
+        context.subscriptions.push(regCallHierarchyProvider);
+    }
+
+    // Register (only for asm files, list files contain the bytes already)
+    if (Config.globalEnableCycles) {
+        const cyclesProvider = new CyclesProvider();
+        const asmFiles: vscode.DocumentSelector = {scheme: "file", language: 'asm-collection'};
+        regCyclesProvider = vscode.Disposable.from(
+            vscode.languages.registerInlayHintsProvider(asmFiles, cyclesProvider),
+            vscode.languages.registerCodeLensProvider(asmFiles, cyclesProvider)
+        );
+        context.subscriptions.push(regCyclesProvider);
+    }
+
+    // Register
+    if (Config.globalEnableSemanticTokens) {
+        regSemanticTokensProvider = vscode.languages.registerDocumentSemanticTokensProvider(asmListFiles, new SemanticTokensProvider(), SemanticTokensProvider.legend);
+        context.subscriptions.push(regSemanticTokensProvider);
+    }
+
     // Register
     if (Config.globalEnableOutlineView) {
         regDocumentSymbolProvider = vscode.languages.registerDocumentSymbolProvider(asmListFiles, new DocumentSymbolProvider());
@@ -176,6 +258,23 @@ function configure(context: vscode.ExtensionContext, event?: vscode.Configuratio
     }
 
 
+    // Register
+    if (Config.globalEnableFolding) {
+        regFoldingRangeProvider = vscode.languages.registerFoldingRangeProvider(asmListFiles, new FoldingRangeProvider());
+        context.subscriptions.push(regFoldingRangeProvider);
+    }
+
+    // Register (only for asm files, list files are generated)
+    if (Config.globalEnableFormatting) {
+        const formattingProvider = new FormattingProvider();
+        const asmFiles: vscode.DocumentSelector = {scheme: "file", language: 'asm-collection'};
+        regFormattingProvider = vscode.Disposable.from(
+            vscode.languages.registerDocumentFormattingEditProvider(asmFiles, formattingProvider),
+            vscode.languages.registerDocumentRangeFormattingEditProvider(asmFiles, formattingProvider)
+        );
+        context.subscriptions.push(regFormattingProvider);
+    }
+
     // Register
     if (Config.globalEnableWorkspaceSymbols)
     {
@@ -183,6 +282,12 @@ function configure(context: vscode.ExtensionContext, event?: vscode.Configuratio
         context.subscriptions.push(regWorkspaceSymbolProvider);
     }
 
+    // Register
+    if (Config.globalEnableDiagnostics) {
+        regDiagnosticsProvider = new DiagnosticsProvider();
+        context.subscriptions.push(regDiagnosticsProvider);
+    }
+
     // Toggle line Comment configuration
     vscode.languages.setLanguageConfiguration("asm-collection", {comments: {lineComment: Config.globalToggleCommentPrefix}});
     // Store
@@ -208,11 +313,19 @@ let hexCalcDebugProvider;
 let regCodeLensProvider: vscode.Disposable;
 let regHoverProvider: vscode.Disposable;
 let regCompletionProposalsProvider: vscode.Disposable;
+let regSignatureHelpProvider: vscode.Disposable;
 let regDefinitionProvider: vscode.Disposable;
 let regReferenceProvider: vscode.Disposable;
+let regDocumentHighlightProvider: vscode.Disposable;
 let regRenameProvider: vscode.Disposable;
+let regCallHierarchyProvider: vscode.Disposable;
+let regCyclesProvider: vscode.Disposable;
+let regSemanticTokensProvider: vscode.Disposable;
 let regDocumentSymbolProvider: vscode.Disposable;
+let regFoldingRangeProvider: vscode.Disposable;
+let regFormattingProvider: vscode.Disposable;
 let regWorkspaceSymbolProvider: vscode.Disposable;
+let regDiagnosticsProvider: vscode.Disposable;
 
 
 
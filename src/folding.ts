@@ -0,0 +1,93 @@
+/**
+ * Computes the folding ranges of a file: the blocks (MODULE, STRUCT,
+ * MACRO, DUP/REPT, IF/ELSE/ENDIF), comment blocks and optionally the
+ * routines (from a non-local code label to the next label).
+ */
+
+import {AsmBlock, isLineInsideBlocks} from './asmblocks';
+import {FileSymbols} from './symbolparser';
+
+
+/**
+ * A folding range. The start line stays visible, the lines up to
+ * (including) the end line are folded.
+ */
+export interface AsmFoldingRange {
+	/// The first line:
+	start: number,
+	/// The last line:
+	end: number,
+	/// 'comment' for comment blocks, 'region' otherwise.
+	kind: 'region' | 'comment'
+}
+
+
+/**
+ * Returns the folding ranges of a file.
+ * The closing directive (e.g. ENDM) stays visible.
+ * For IF blocks each branch (IF, ELSE, ...) is folded separately.
+ * @param lines The comment stripped lines of the file.
+ * @param origLines The original lines of the file (to find the comments).
+ * @param fileSymbols The symbols of the file.
+ * @param blocks The blocks of the file.
+ * @param routines true to fold the routines, i.e. from each non-local
+ * code label to the line before the next non-local label.
+ * @returns The ranges sorted by start line.
+ */
+export function getFoldingRanges(lines: string[], origLines: string[], fileSymbols: FileSymbols, blocks: AsmBlock[], routines: boolean): AsmFoldingRange[] {
+	const ranges: AsmFoldingRange[] = [];
+	const addRange = (start: number, end: number, kind: 'region' | 'comment' = 'region') => {
+		if (end > start)
+			ranges.push({start, end, kind});
+	};
+
+	// Blocks
+	for (const block of blocks) {
+		let start = block.startLine;
+		for (const elseLine of block.elseLines) {
+			addRange(start, elseLine - 1);
+			start = elseLine;
+		}
+		addRange(start, block.endLine - 1);
+	}
+
+	// Comment blocks: consecutive lines that contain only comments
+	const len = lines.length;
+	let commentStart = -1;
+	for (let row = 0; row <= len; row++) {
+		const isComment = row < len && !lines[row].trim() && !!origLines[row]?.trim();
+		if (isComment) {
+			if (commentStart < 0)
+				commentStart = row;
+		}
+		else if (commentStart >= 0) {
+			addRange(commentStart, row - 1, 'comment');
+			commentStart = -1;
+		}
+	}
+
+	// Routines
+	if (routines) {
+		const labels = fileSymbols.symbols.filter(symbol => !symbol.local && symbol.kind != 'module');
+		labels.forEach((symbol, i) => {
+			if (symbol.kind != 'code' || isLineInsideBlocks(blocks, symbol.line, ['macro', 'struct']))
+				return;
+			// Up to the next label, but not beyond the enclosing block
+			// and not into a block that ends after the routine
+			let end = (i + 1 < labels.length) ? labels[i + 1].line - 1 : len - 1;
+			for (const block of blocks) {
+				if (block.startLine < symbol.line && symbol.line < block.endLine)
+					end = Math.min(end, block.endLine - 1);
+				else if (symbol.line < block.startLine && block.startLine <= end && block.endLine > end)
+					end = block.startLine - 1;
+			}
+			// Without the empty lines and comments at the end
+			while (end > symbol.line && !lines[end].trim())
+				end--;
+			addRange(symbol.line, end);
+		});
+	}
+
+	ranges.sort((a, b) => a.start - b.start);
+	return ranges;
+}
@@ -0,0 +1,246 @@
+/**
+ * Formats assembler lines:
+ * - labels start at column 0, the label colon is added or removed
+ *   according to the 'labels.colon' setting,
+ * - mnemonics, operands and trailing comments are aligned to columns,
+ * - the case of instructions, directives and registers is normalized.
+ * The comment stripped lines (see stripAllComments) are used to find the
+ * parts of a line, so quoted text is never changed. Lines that contain
+ * (a part of) a block comment and comment-only lines are left unchanged.
+ */
+
+import {Dialect} from './dialects';
+import {conditions, registers, z80Mnemonics, z80nMnemonics} from './mnemonics';
+
+
+/**
+ * The case of instructions, directives and registers.
+ */
+export type FormatCase = 'keep' | 'lower' | 'upper';
+
+
+/**
+ * The options for the formatting.
+ */
+export interface FormatOptions {
+	/// The column of the instructions and directives.
+	mnemonicColumn: number,
+	/// The column of the operands.
+	operandColumn: number,
+	/// The column of trailing comments.
+	commentColumn: number,
+	/// The case of instructions, directives and registers.
+	case: FormatCase,
+	/// true if labels with colons are used (labels.colon setting).
+	labelsWithColons: boolean,
+	/// true if labels without colons are used.
+	labelsWithoutColons: boolean,
+	/// true to fill with tabs instead of spaces.
+	useTabs: boolean,
+	/// The width of a tab.
+	tabSize: number
+}
+
+
+/**
+ * A formatted line.
+ */
+export interface FormattedLine {
+	/// The line number:
+	line: number,
+	/// The new text of the line.
+	text: string
+}
+
+
+/// The instructions that have a condition as first operand.
+const conditionalMnemonics = new Set<string>(['jp', 'jr', 'call', 'ret']);
+
+
+/**
+ * Returns the width of a text with tabs expanded.
+ * @param text E.g. "label:\tnop".
+ * @param tabSize The width of a tab.
+ */
+function getWidth(text: string, tabSize: number): number {
+	let width = 0;
+	for (const char of text)
+		width = (char == '\t') ? (Math.floor(width / tabSize) + 1) * tabSize : width + 1;
+	return width;
+}
+
+
+/**
+ * Appends whitespace to a text up to a column. At least one space (or
+ * tab) is appended.
+ * @param text The text so far.
+ * @param column The column to reach.
+ * @param options The tab options.
+ * @returns The text with the whitespace.
+ */
+function padToColumn(text: string, column: number, options: FormatOptions): string {
+	const {useTabs, tabSize} = options;
+	let width = getWidth(text, tabSize);
+	if (useTabs) {
+		do {
+			text += '\t';
+			width = (Math.floor(width / tabSize) + 1) * tabSize;
+		} while (width < column);
+		return text;
+	}
+	return text + ' '.repeat(Math.max(1, column - width));
+}
+
+
+/**
+ * Changes the case of a word.
+ * @param word E.g. "Ld".
+ * @param formatCase The case.
+ */
+function changeCase(word: string, formatCase: FormatCase): string {
+	if (formatCase == 'lower')
+		return word.toLowerCase();
+	if (formatCase == 'upper')
+		return word.toUpperCase();
+	return word;
+}
+
+
+/**
+ * Checks if a word is an instruction or a directive of the dialect.
+ * @param word E.g. "LD" or "defb". Case insensitive.
+ * @param dialect The assembler dialect.
+ */
+function isMnemonic(word: string, dialect: Dialect): boolean {
+	const lower = word.toLowerCase();
+	if (dialect.z80 && (z80Mnemonics.has(lower) || z80nMnemonics.has(lower)))
+		return true;
+	return dialect.keywords.some(keyword => keyword.toLowerCase() == lower);
+}
+
+
+/**
+ * Changes the case of the registers (and conditions) in the operands of
+ * an instruction. Quoted text is not changed.
+ * @param operands The operands, e.g. "(IX+5),a".
+ * @param code The operands with the quoted text blanked out.
+ * @param mnemonic The instruction (lower case), e.g. "ld".
+ * @param formatCase The case.
+ * @returns E.g. "(ix+5),a".
+ */
+function changeRegisterCase(operands: string, code: string, mnemonic: string, formatCase: FormatCase): string {
+	const regex = /[a-z_][\w.]*'?/gi;
+	let result = operands;
+	let match;
+	while ((match = regex.exec(code))) {
+		const word = match[0].replace(/'$/, '').toLowerCase();
+		// Conditions only as first operand, e.g. "jr c,label"
+		const isCondition = match.index == 0 && conditionalMnemonics.has(mnemonic) && conditions.has(word);
+		if (!registers.has(word) && !isCondition)
+			continue;
+		// No labels or numbers, e.g. "ix+a.b" or "$C"
+		if (/[\w$#%.]/.test(code[match.index - 1] ?? ''))
+			continue;
+		result = result.substring(0, match.index) + changeCase(match[0], formatCase) + result.substring(match.index + match[0].length);
+	}
+	return result;
+}
+
+
+/**
+ * Formats a single line.
+ * @param origLine The original line.
+ * @param line The comment stripped line (quoted text is blanked out).
+ * @param dialect The assembler dialect.
+ * @param options The options.
+ * @returns The formatted line or undefined if the line is left unchanged.
+ */
+export function formatLine(origLine: string, line: string, dialect: Dialect, options: FormatOptions): string | undefined {
+	// Comment-only or empty lines and lines with block comments
+	if (!line.trim() || origLine.includes('/*') || origLine.includes('*/'))
+		return undefined;
+
+	// The trailing comment: the part that was stripped
+	// (The quoted text is blanked out in 'code' but not in 'text'.)
+	let text = origLine.substring(0, line.length).trimEnd();
+	let code = line.substring(0, text.length);
+	let comment = origLine.substring(line.length).trim();
+	// "ex af,af'" is no unterminated quote
+	if (comment.startsWith("'") && /\baf$/i.test(text)) {
+		text += "'";
+		code += "'";
+		comment = comment.substring(1).trim();
+	}
+	// Something else than a comment, e.g. an unterminated quote
+	if (comment && !dialect.commentPrefixes.some(prefix => comment.startsWith(prefix)))
+		return undefined;
+
+	// Label
+	let label = '';
+	const labelMatch = /^\s*([^\s:]+):|^([^\s:]+)(?=\s|$)/.exec(code);
+	if (labelMatch && (labelMatch[1] != undefined || !isMnemonic(labelMatch[2], dialect))) {
+		label = labelMatch[1] ?? labelMatch[2];
+		const hasColon = labelMatch[1] != undefined;
+		// Colon according to the settings
+		let withColon = hasColon;
+		if (!options.labelsWithoutColons)
+			withColon = true;
+		else if (!options.labelsWithColons)
+			withColon = false;
+		if (withColon)
+			label += ':';
+		code = code.substring(labelMatch[0].length);
+		text = text.substring(labelMatch[0].length);
+	}
+
+	// Instruction or directive
+	let mnemonic = '';
+	let operands = '';
+	const mnemonicMatch = /^\s*(\S+)/.exec(code);
+	if (mnemonicMatch) {
+		const end = mnemonicMatch[0].length;
+		mnemonic = text.substring(end - mnemonicMatch[1].length, end);
+		const rest = text.substring(end);
+		const start = end + rest.length - rest.trimStart().length;
+		code = code.substring(start);
+		operands = text.substring(start);
+		const lower = mnemonic.toLowerCase();
+		if (isMnemonic(mnemonic, dialect)) {
+			mnemonic = changeCase(mnemonic, options.case);
+			if (dialect.z80 && (z80Mnemonics.has(lower) || z80nMnemonics.has(lower)))
+				operands = changeRegisterCase(operands, code, lower, options.case);
+		}
+	}
+
+	// Assemble the line
+	let result = label;
+	if (mnemonic) {
+		result = padToColumn(result, options.mnemonicColumn, options) + mnemonic;
+		if (operands)
+			result = padToColumn(result, options.operandColumn, options) + operands;
+	}
+	if (comment)
+		result = padToColumn(result, options.commentColumn, options) + comment;
+	return result;
+}
+
+
+/**
+ * Formats the lines of a file.
+ * @param origLines The original lines.
+ * @param lines The comment stripped lines (quoted text is blanked out).
+ * @param dialect The assembler dialect.
+ * @param options The options.
+ * @param startLine The first line to format.
+ * @param endLine The last line to format (inclusive).
+ * @returns The changed lines only.
+ */
+export function formatLines(origLines: string[], lines: string[], dialect: Dialect, options: FormatOptions, startLine = 0, endLine = origLines.length - 1): FormattedLine[] {
+	const formatted: FormattedLine[] = [];
+	for (let i = startLine; i <= endLine && i < origLines.length; i++) {
+		const text = formatLine(origLines[i], lines[i] ?? '', dialect, options);
+		if (text != undefined && text != origLines[i])
+			formatted.push({line: i, text});
+	}
+	return formatted;
+}
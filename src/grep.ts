@@ -1,8 +1,9 @@
 import * as vscode from 'vscode';
 import {stripAllComments} from './comments';
-import {FileInfo, getCompleteLabel, getLabelAndModuleLabelFromFileInfo, getModuleFileInfo} from './grepextra';
-import {AllowedLanguageIds, LanguageId}  from './languageId';
+import {FileInfo, getCompleteLabel, getLabelAndModuleLabelFromFileInfo} from './grepextra';
+import {AllowedLanguageIds}  from './languageId';
 import {CommonRegexes} from './regexes/commonregexes';
+import {SymbolIndex} from './symbolindex';
 
 
 export interface FileMatch {
@@ -88,24 +89,12 @@ export async function openTextDocument(filePath: string) {
 
 
 /**
- * Returns an array of strings for the given file.
- * Reads it either from the open editor or from the file itself.
- * @param fileName The filename of the document.
+ * Lets vscode process the pending events, e.g. the cancellation of a
+ * request. A token is not changed during a synchronous loop, so long
+ * searches call this between the files before checking the token.
  */
-async function getLinesForFile(filePath: string): Promise<string[]> {
-    try {
-        // Doc is read through vscode API
-        const textDoc: vscode.TextDocument = await openTextDocument(filePath);
-        const lines = textDoc.getText().split('\n');
-
-        // Strip comments
-        stripAllComments(lines);
-        return lines;
-    }
-    catch (e) {
-        console.log(e);
-        return [];
-    }
+export function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
 }
 
 
@@ -113,26 +102,38 @@ async function getLinesForFile(filePath: string): Promise<string[]> {
  * Searches files according to opts.
  * opts includes the directory the glob pattern and the regular expression (the word) to
  * search for.
+ * The files are not read from disk but taken from the symbol index.
  * @param regex The regular expression to search for.
  * @param rootFolder The search is limited to the root / project folder. This needs to contain a trailing '/'.
  * @param languageId Only files with the language ID are grepped. Is either "asm-collection" or "asm-list-file".
  * @param globExcludeFiles The glob pattern to use to exclude files.
+ * @param searchWord (Optional) If given, files that do not contain the word are skipped without evaluating the regex.
+ * @param scope (Optional) If given, only these files are searched. E.g. the files of a translation unit.
+ * @param token (Optional) If cancelled the search stops and an empty array is returned.
  * @returns An array of the vscode locations of the found expressions.
  */
-export async function grep(regex: RegExp, rootFolder: string, languageId: AllowedLanguageIds, globExcludeFiles: string): Promise<GrepLocation[]> {
+export async function grep(regex: RegExp, rootFolder: string, languageId: AllowedLanguageIds, globExcludeFiles: string, searchWord?: string, scope?: Set<string>, token?: vscode.CancellationToken): Promise<GrepLocation[]> {
     const allMatches = new Map();
 
     try {
-        const globInclude = LanguageId.getGlobalIncludeForLanguageId(languageId);
-        const allUris = await vscode.workspace.findFiles(globInclude, globExcludeFiles);
-        const uris = allUris.filter(uri => uri.fsPath.startsWith(rootFolder));
-        for (const uri of uris) {
-            // Check if file is opened in editor
-            const filePath = uri.fsPath;
-            const foundDoc = await openTextDocument(filePath);
-
-            // Check file in vscode
-            const fileMatches = grepTextDocument(foundDoc, regex);
+        const fileIndexes = await SymbolIndex.getFileIndexes(rootFolder, languageId, globExcludeFiles);
+        for (const fileIndex of fileIndexes) {
+            // Skip files outside of the scope
+            if (scope && !scope.has(fileIndex.filePath))
+                continue;
+            // Skip files that cannot contain the word
+            if (searchWord && !SymbolIndex.containsWord(fileIndex, searchWord))
+                continue;
+            // Stop if vscode has discarded the request
+            if (token) {
+                await yieldToEventLoop();
+                if (token.isCancellationRequested)
+                    return [];
+            }
+
+            // Check file
+            const filePath = fileIndex.filePath;
+            const fileMatches = grepLines(fileIndex.lines, regex);
             // Add filename to matches
             for (const match of fileMatches) {
                 match.filePath = filePath;
@@ -176,14 +177,19 @@ export async function grep(regex: RegExp, rootFolder: string, languageId: Allowe
  * @param rootFolder The search is limited to the root / project folder. This needs to contain a trailing '/'.
  * @param languageId Only files with the language ID are grepped. Is either "asm-collection" or "asm-list-file".
  * @param globExcludeFiles The glob pattern to use to exclude files.
+ * @param searchWord (Optional) If given, files that do not contain the word are skipped.
+ * @param scope (Optional) If given, only these files are searched.
+ * @param token (Optional) If cancelled the search stops and an empty array is returned.
  * @return An array with all regex search results.
  */
-export async function grepMultiple(regexes: RegExp[], rootFolder: string, languageId: AllowedLanguageIds, globExcludeFiles: string): Promise<GrepLocation[]> {
+export async function grepMultiple(regexes: RegExp[], rootFolder: string, languageId: AllowedLanguageIds, globExcludeFiles: string, searchWord?: string, scope?: Set<string>, token?: vscode.CancellationToken): Promise<GrepLocation[]> {
     let allLocations: Array<GrepLocation> = [];
 
     // grep all regex
     for (const regex of regexes) {
-        const locations = await grep(regex, rootFolder, languageId, globExcludeFiles);
+        const locations = await grep(regex, rootFolder, languageId, globExcludeFiles, searchWord, scope, token);
+        if (token?.isCancellationRequested)
+            return [];
         // Add found locations
         allLocations.push(...locations);
     }
@@ -206,14 +212,25 @@ export async function grepMultiple(regexes: RegExp[], rootFolder: string, langua
  * Searches a vscode.TextDocument for a regular expression and
  * returns the found line numbers.
  * @param doc The TextDocument.
+ * @param commentPrefixes The comment prefixes of the dialect.
  * @returns An array that contains: line number, start column, end column, and the text of the line.
  */
-export function grepTextDocument(doc: vscode.TextDocument, regex: RegExp): FileMatch[] {
-    const matches: FileMatch[] = [];
-
+export function grepTextDocument(doc: vscode.TextDocument, regex: RegExp, commentPrefixes?: string[]): FileMatch[] {
     // Strip all comments
     const lines = doc.getText().split('\n');
-    stripAllComments(lines);
+    stripAllComments(lines, commentPrefixes);
+    return grepLines(lines, regex);
+}
+
+
+/**
+ * Searches the (comment stripped) lines of a file for a regular expression and
+ * returns the found line numbers.
+ * @param lines The lines of the file.
+ * @returns An array that contains: line number, start column, end column, and the text of the line.
+ */
+export function grepLines(lines: string[], regex: RegExp): FileMatch[] {
+    const matches: FileMatch[] = [];
 
     // Go through all lines
     const len = lines.length;
@@ -251,15 +268,16 @@ export function grepTextDocument(doc: vscode.TextDocument, regex: RegExp): FileM
  * Simply calls grepTextDocument several times.
  * @param doc The document to search.
  * @param regexes An array of regular expressions.
+ * @param commentPrefixes The comment prefixes of the dialect.
  * @return An array with all matches.
  */
-export function grepTextDocumentMultiple(doc: vscode.TextDocument, regexes: RegExp[]): FileMatch[] {
+export function grepTextDocumentMultiple(doc: vscode.TextDocument, regexes: RegExp[], commentPrefixes?: string[]): FileMatch[] {
     const allMatches: FileMatch[] = [];
 
     // grep all regex
     for (const regex of regexes) {
         // grep doc
-        const fileMatches = grepTextDocument(doc, regex);
+        const fileMatches = grepTextDocument(doc, regex, commentPrefixes);
         // Add found matches
         allMatches.push(...fileMatches);
     }
@@ -324,6 +342,18 @@ export function getRegExFromLabel(label: string): RegExp {
 }
 
 
+/**
+ * Returns the lines and the module/struct info of a file.
+ * Taken from the symbol index.
+ * @param filePath The file path.
+ * @returns The file info. Empty if the file could not be read.
+ */
+async function getFileInfo(filePath: string): Promise<FileInfo> {
+    const fileIndex = await SymbolIndex.getFileIndex(filePath);
+    return fileIndex ?? {lines: [], modStructInfos: []};
+}
+
+
 /**
  * Reduces the number of found 'locations'. Is used to get rid of wrong references
  * by checking the dot notation/module label.
@@ -339,16 +369,13 @@ export function getRegExFromLabel(label: string): RegExp {
  * @param removeOwnLocation true (default) to remove the location of the searched word.
  * @param checkFullName true (default) = During label check the full name is checked. false (e.g.
  * for CompletionProvider) = It is checked with 'startsWith'.
+ * @param regexEnd The characters that continue a label.
+ * @param token (Optional) If cancelled the reduction stops and an empty array is returned.
  */
-export async function reduceLocations(regexLbls: RegExp[], locations: GrepLocation[], docFileName: string, position: vscode.Position, removeOwnLocation = true, checkFullName = true, regexEnd = /[\w\.]/): Promise<GrepLocation[]> {
+export async function reduceLocations(regexLbls: RegExp[], locations: GrepLocation[], docFileName: string, position: vscode.Position, removeOwnLocation = true, checkFullName = true, regexEnd = /[\w\.]/, token?: vscode.CancellationToken): Promise<GrepLocation[]> {
     //console.log('reduceLocations');
     // 1. Get module label
-    const docLines = await getLinesForFile(docFileName);
-    const docModStructInfos = getModuleFileInfo(docLines);
-    const docFileInfo = {
-        lines: docLines,
-        modStructInfos: docModStructInfos
-    };
+    const docFileInfo = await getFileInfo(docFileName);
     const searchLabel = getLabelAndModuleLabelFromFileInfo(regexLbls, docFileInfo, position.line, position.character, regexEnd);
 
     // For item completion:
@@ -364,11 +391,9 @@ export async function reduceLocations(regexLbls: RegExp[], locations: GrepLocati
     // Copy locations
     const redLocs = [...locations];
 
-    // Create map to cache files/module/label information
-    const filesInfo = new Map<string, FileInfo>();
-
     // 2. Get the module-labels for each found location and the corresponding file.
     let i = redLocs.length;
+    let lastFileName;
     //let removedSameLine = -1;
     while (i--) {    // loop backwards
         // Get fileName
@@ -376,18 +401,17 @@ export async function reduceLocations(regexLbls: RegExp[], locations: GrepLocati
         const fileName = loc.uri.fsPath;
         const pos = loc.range.start;
 
-        // Check if file was already analyze for modules and labels
-        let fileInfo = filesInfo[fileName];
-        if (!fileInfo) {
-            const lines = await getLinesForFile(fileName);
-            const modStructInfos = getModuleFileInfo(lines);
-            fileInfo = {
-                lines,
-                modStructInfos
-            };
-            filesInfo[fileName] = fileInfo;
+        // Stop if vscode has discarded the request (checked once per file)
+        if (token && fileName != lastFileName) {
+            lastFileName = fileName;
+            await yieldToEventLoop();
+            if (token.isCancellationRequested)
+                return [];
         }
 
+        // Get the (cached) modules and labels of the file
+        const fileInfo = await getFileInfo(fileName);
+
         // Check if same location as searchLabel.
         if (removeOwnLocation
             && pos.line == position.line
@@ -5,6 +5,7 @@
  */
 
 import {CommonRegexes} from "./regexes/commonregexes";
+import {defaultDialect} from "./dialects";
 
 
 
@@ -36,12 +37,13 @@ export interface FileInfo {
  * I.e. all MODULE OR STRUCT occurrences are scanned and the start
  * and end of the structures are put into the array (row and label name).
  * @param fileName The filename of the document.
+ * @param dialect The assembler dialect. Defines the MODULE directives.
  * @returns FileModuleStructInfo[]
  */
-export function getModuleFileInfo(lines: string[]): FileModuleStructInfo[] {
+export function getModuleFileInfo(lines: string[], dialect = defaultDialect): FileModuleStructInfo[] {
 	// The  complete document is parsed 'MODULE' and 'STRUCT' info.
-	const regexModule = CommonRegexes.regexModuleStruct();
-	const regexEndmodule = CommonRegexes.regexEndModuleStruct();
+	const regexModule = CommonRegexes.regexModuleStruct(dialect.moduleDirectives);
+	const regexEndmodule = CommonRegexes.regexEndModuleStruct(dialect.endModuleDirectives);
 	const modules: Array<string> = [];
 	const len = lines.length;
 	const fileInfo: FileModuleStructInfo[] = [];
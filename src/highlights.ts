@@ -0,0 +1,72 @@
+/**
+ * Finds the occurrences of the label at a position in a file, i.e. the
+ * definitions and the references that refer to the same label.
+ * Local labels are resolved in the scope of their non-local label and
+ * labels inside MODULEs are resolved with the module prefix.
+ */
+
+import {AsmBlock} from './asmblocks';
+import {defaultDialect} from './dialects';
+import {LabelReference, findLabelReferences} from './labelcheck';
+import {FileSymbols} from './symbolparser';
+
+
+/**
+ * An occurrence of a label.
+ */
+export interface LabelHighlight {
+	/// 'write' for the definition, 'read' for a reference.
+	kind: 'read' | 'write',
+	/// The line number:
+	line: number,
+	/// The start column:
+	start: number,
+	/// The end column:
+	end: number
+}
+
+
+/**
+ * Returns all occurrences of the label at a position.
+ * @param lines The comment stripped lines of the file.
+ * @param fileSymbols The symbols of the file.
+ * @param blocks The blocks of the file.
+ * @param row The line of the position.
+ * @param column The column of the position.
+ * @param dialect The assembler dialect.
+ * @returns The definitions ('write') and references ('read') sorted by
+ * position. Empty if there is no label at the position.
+ */
+export function findHighlights(lines: string[], fileSymbols: FileSymbols, blocks: AsmBlock[], row: number, column: number, dialect = defaultDialect): LabelHighlight[] {
+	const defined = new Set(fileSymbols.symbols.map(symbol => symbol.moduleLabel));
+	const references = findLabelReferences(lines, fileSymbols, blocks, dialect);
+	// References to labels of other files are compared by their candidates
+	const getTarget = (reference: LabelReference) => reference.candidates.find(candidate => defined.has(candidate)) ?? reference.candidates.join(' ');
+
+	// The label at the position
+	let target: string | undefined;
+	const definition = fileSymbols.symbols.find(s => s.line == row && s.start <= column && column <= s.end);
+	if (definition) {
+		target = definition.moduleLabel;
+	}
+	else {
+		const reference = references.find(r => r.line == row && r.start <= column && column <= r.end);
+		if (reference)
+			target = getTarget(reference);
+	}
+	if (target == undefined)
+		return [];
+
+	// Collect
+	const highlights: LabelHighlight[] = [];
+	for (const symbol of fileSymbols.symbols) {
+		if (symbol.moduleLabel == target)
+			highlights.push({kind: 'write', line: symbol.line, start: symbol.start, end: symbol.end});
+	}
+	for (const reference of references) {
+		if (getTarget(reference) == target)
+			highlights.push({kind: 'read', line: reference.line, start: reference.start, end: reference.end});
+	}
+	highlights.sort((a, b) => (a.line - b.line) || (a.start - b.start));
+	return highlights;
+}
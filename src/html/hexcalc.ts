@@ -1,38 +1,81 @@
 import {vscode} from './vscode-import';
+import {CalculatorState, HistoryEntry, WordSize, addToHistory, formatWordHex, getResultFlags, getWordBits, interpretWord, toggleBit} from '../calculator';
 
 
 // Prefix for hex values (e.g. "0x").
 declare let hexPrefix: string;
 
-// The last result in the calculator.
+// The state stored by the extension (undefined if nothing was stored yet).
+declare let savedState: CalculatorState | undefined;
+
+// The max. number of values kept in the history.
+const maxHistoryLength = 100;
+
+// The last result in the calculator (truncated to the word size).
 let lastResult: number;
 
+// The input that waits for the result of the evaluation.
+let pendingInput: HTMLInputElement | undefined;
+
+// The selected word size in bits.
+let wordSize: WordSize = 16;
+
+// true if the words are shown as two's complement values.
+let signed = false;
+
+// The shown values. Stored by the extension to restore them after a reload.
+let history: HistoryEntry[] = [];
+
 
 // Get used elements.
 const decimalOutput = document.getElementById("dec_output")!;
 const hexOutput = document.getElementById("hex_output")!;
 const decimalInput = document.getElementById("dec_input")! as HTMLInputElement;
 const hexInput = document.getElementById("hex_input")! as HTMLInputElement;
+const wordSizeSelect = document.getElementById("word_size")! as HTMLSelectElement;
+const signedCheckbox = document.getElementById("signed")! as HTMLInputElement;
+const bitsOutput = document.getElementById("bits_output")!;
+const carryFlag = document.getElementById("carry_flag")!;
+const overflowFlag = document.getElementById("overflow_flag")!;
 
 
 /**
- * Returns the hex string for a value.
+ * Returns the hex string for a value in the selected word size.
  */
 function getHexString(value: number) {
-	let digitCount;
-	let sign = '';
-	if (value < 0) {
-		sign = '-';
-		value = -value;
-	}
-	if (value > 0xFFFF)
-		digitCount = 8;
-	else if (value > 0xFF)
-		digitCount = 4;
-	else
-		digitCount = 2;
-	const hex = sign + hexPrefix + value.toString(16).toUpperCase().padStart(digitCount, '0');
-	return hex;
+	return formatWordHex(value, wordSize, hexPrefix);
+}
+
+
+/**
+ * Shows the bits of the last result.
+ * The bits are grouped by bytes. Each bit shows its index and can be
+ * clicked to toggle it.
+ */
+function showBits() {
+	const bits = getWordBits(lastResult, wordSize);
+	let html = '';
+	bits.forEach((bit, i) => {
+		const index = wordSize - 1 - i;
+		if (index % 8 == 7)
+			html += '<span class="bit-group">';
+		html += '<span class="bit-cell"><span class="bit-index">' + index + '</span>'
+			+ '<span class="bit" title="Toggle bit ' + index + '" onclick="toggleBitClicked(' + index + ')">' + bit + '</span></span>';
+		if (index % 8 == 0)
+			html += '</span>';
+	});
+	bitsOutput.innerHTML = html;
+}
+
+
+/**
+ * Shows the carry and overflow of the last calculation.
+ * @param carry true if the result did not fit as unsigned value.
+ * @param overflow true if the result did not fit as signed value.
+ */
+function showFlags(carry: boolean, overflow: boolean) {
+	carryFlag.classList.toggle('flag-set', carry);
+	overflowFlag.classList.toggle('flag-set', overflow);
 }
 
 
@@ -45,105 +88,237 @@ function scrollToBottom() {
 }
 
 
+/**
+ * Sends the state to the extension to store it.
+ */
+function saveState() {
+	const state: CalculatorState = {wordSize, signed, history};
+	vscode.postMessage({
+		command: 'saveState',
+		state
+	});
+}
+
+
+/**
+ * Removes all values from the decimal and hex output.
+ */
+function clearOutput() {
+	const initText = '<br>'.repeat(50);
+	decimalOutput.innerHTML = initText;
+	hexOutput.innerHTML = initText;
+}
+
+
 /**
  * Clears/initializes the calculator values.
  */
 globalThis.clearCalculator = function () {
-	lastResult = 0;
+	history = [];
 	// Output
-	const initText = '<br>'.repeat(50);
-	decimalOutput.innerHTML = initText + lastResult.toString();
-	hexOutput.innerHTML = initText + getHexString(lastResult);
-	scrollToBottom();
+	clearOutput();
+	showValue(undefined, 0);
+	showFlags(false, false);
 	// Input
 	decimalInput.value = '';
 	hexInput.value = '';
+	saveState();
+}
+
+
+/**
+ * Restores the word size, the signed selection and the values.
+ * @param state The stored state or undefined.
+ */
+function restoreState(state: CalculatorState | undefined) {
+	if (state) {
+		wordSize = state.wordSize;
+		signed = state.signed;
+		history = state.history;
+	}
+	wordSizeSelect.value = wordSize.toString();
+	signedCheckbox.checked = signed;
+	clearOutput();
+	showValue(undefined, 0);
+	for (const entry of history)
+		showValue(entry.input, entry.value);
+	showFlags(false, false);
+}
+
+
+/**
+ * Escapes the html special characters of a text.
+ */
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
 
 /**
  * Called for a keypress on the decimal or hex input.
+ * On enter the input is sent to the extension to be evaluated.
+ * The input is an expression, e.g. "SCREEN_BASE + 32*row". If it starts
+ * with an operator (e.g. "+ 5") the last result is used as left operand.
  * @param obj The input element.
  * @param event The keypress event.
  * @param numberBase 10 for decimal input, 16 for hex input.
  */
 // @ts-ignore
 globalThis.keypress = function (obj, event, numberBase) {
-	let text = obj.value.trim();
+	// Enter pressed ?
+	if (event.keyCode != 13) {
+		// Remove the error while typing
+		obj.classList.remove('error');
+		obj.title = '';
+		return;
+	}
+	const text = obj.value.trim();
+	if (!text)
+		return;	// No input
+
+	// Evaluate in the extension (the labels are known there)
+	pendingInput = obj;
+	vscode.postMessage({
+		command: 'evaluate',
+		input: text,
+		radix: numberBase,
+		lastResult
+	});
+}
 
-	// Check for invalid input
-	let regex;
-	if (numberBase == 16) {
-		// Hex
-		regex = /^([+\-\*\/]?)\s*([0-9a-f]*)$/i;
+
+/**
+ * Shows a value in the decimal and hex output.
+ * Each value can be clicked to insert it into the editor.
+ * @param input An input line that is shown before the value or undefined.
+ * @param value The value, already truncated to the word size.
+ */
+function showValue(input: string | undefined, value: number) {
+	// Show the input if it is more than a single number
+	let htmlDec = '';
+	let htmlHex = '';
+	if (input != undefined && !/^[\w$#%]+$/.test(input)) {
+		htmlDec += '<br>' + escapeHtml(input);
+		htmlHex += '<br>' + escapeHtml(input);
 	}
-	else {
-		// Decimal
-		regex = /^([+\-\*\/]?)\s*(\d*)$/;
+
+	// Add the result itself
+	lastResult = value;
+	const attributes = 'title="Insert into editor" onclick="insertClicked(this)"';
+	htmlDec += '<br><span class="value" ' + attributes + '>' + lastResult.toString() + '</span>';
+	htmlHex += '<br><span class="value" ' + attributes + '>' + getHexString(lastResult) + '</span>';
+
+	// Set value in box
+	decimalOutput.innerHTML += htmlDec;
+	hexOutput.innerHTML += htmlHex;
+
+	// Scroll to bottom
+	scrollToBottom();
+	showBits();
+}
+
+
+/**
+ * Shows a value and adds it to the history.
+ * @param input An input line that is shown before the value or undefined.
+ * @param value The value, already truncated to the word size.
+ */
+function appendValue(input: string | undefined, value: number) {
+	showValue(input, value);
+	addToHistory(history, {input, value}, maxHistoryLength);
+	saveState();
+}
+
+
+/**
+ * Shows the result of an evaluation.
+ * The result is truncated to the word size. Carry and overflow indicate
+ * that the result did not fit.
+ * @param input The evaluated input.
+ * @param value The result.
+ */
+function showResult(input: string, value: number) {
+	const {carry, overflow} = getResultFlags(value, wordSize);
+	appendValue(input, interpretWord(value, wordSize, signed));
+	showFlags(carry, overflow);
+
+	// Clear input value
+	if (pendingInput) {
+		pendingInput.value = '';
+		pendingInput = undefined;
 	}
-	const match = regex.exec(text);
-	if (!match) {
-		// Invalid
-		obj.classList.add('error');
+}
+
+
+/**
+ * Called if a bit of the last result is clicked.
+ * Toggles the bit and shows the new value.
+ * @param bit The index of the bit, 0 = least significant bit.
+ */
+// @ts-ignore
+globalThis.toggleBitClicked = function (bit: number) {
+	appendValue(undefined, toggleBit(lastResult, bit, wordSize, signed));
+	showFlags(false, false);
+}
+
+
+/**
+ * Called if the word size or the signed checkbox is changed.
+ * The last result is shown again in the new format (truncated if the
+ * word size is smaller).
+ */
+// @ts-ignore
+globalThis.formatChanged = function () {
+	wordSize = parseInt(wordSizeSelect.value) as WordSize;
+	signed = signedCheckbox.checked;
+	appendValue(undefined, interpretWord(lastResult, wordSize, signed));
+	showFlags(false, false);
+}
+
+
+/**
+ * Marks the input as erroneous. The message is shown as tooltip.
+ * @param message E.g. "Unknown symbol 'SCREEN'".
+ */
+function showError(message: string) {
+	if (!pendingInput)
 		return;
-	}
+	pendingInput.classList.add('error');
+	pendingInput.title = message;
+	pendingInput = undefined;
+}
 
-	// Valid
-	obj.classList.remove('error');
 
-	// Enter pressed ?
-	if (event.keyCode == 13) {
-		// Check if a number has been entered
-		const digits = match[2];
-		if (!digits)
-			return;	// No number
-
-		// Convert to number
-		const digitsValue = parseInt(digits, numberBase);
-
-		// Check for math symbol
-		const mathSymb = match[1];
-		let htmlDec = '';
-		let htmlHex = '';
-		if (mathSymb) {
-			htmlDec += '<br>' + mathSymb + digitsValue.toString();
-			htmlHex += '<br>' + mathSymb + getHexString(digitsValue);
-		}
-		switch (mathSymb) {
-			case '+':
-				lastResult += digitsValue;
-				break;
-			case '-':
-				lastResult -= digitsValue;
-				break;
-			case '*':
-				lastResult *= digitsValue;
-				break;
-			case '/':
-				lastResult /= digitsValue;
-				break;
-			default:
-				lastResult = digitsValue;
-				break;
-		}
-
-		// Make sure it is an integer
-		lastResult = Math.floor(lastResult);
-
-		// Add the result itself
-		htmlDec += '<br>' + lastResult.toString();
-		htmlHex += '<br>' + getHexString(lastResult);
-
-		// Set value in box
-		decimalOutput.innerHTML += htmlDec;
-		hexOutput.innerHTML += htmlHex;
-
-		// Scroll to bottom
-		scrollToBottom();
-
-		// Clear input value
-		obj.value = '';
+// Handle messages from the extension
+window.addEventListener('message', event => {
+	const message = event.data;
+	switch (message.command) {
+		case 'result':
+			showResult(message.input, message.value);
+			break;
+		case 'error':
+			showError(message.message);
+			break;
+		case 'restoreState':
+			// Changed by the other calculator
+			restoreState(message.state);
+			break;
 	}
+});
+
+
+/**
+ * Called if a value in the output is clicked.
+ * Sends the value to the extension to insert it at the cursor of the
+ * active editor.
+ * @param obj The clicked element, its text is the value, e.g. "0x4000".
+ */
+// @ts-ignore
+globalThis.insertClicked = function (obj: HTMLElement) {
+	vscode.postMessage({
+		command: 'insert',
+		text: obj.textContent
+	});
 }
 
 
@@ -159,4 +334,4 @@ globalThis.donateClicked = function () {
 
 
 // INIT
-globalThis.clearCalculator();
+restoreState(savedState);
@@ -0,0 +1,154 @@
+/**
+ * Functions to create the include graph, i.e. which file includes
+ * which other files.
+ */
+
+import * as path from 'path';
+import {CommonRegexes} from './regexes/commonregexes';
+import {defaultDialect} from './dialects';
+
+
+/**
+ * An INCLUDE or INCBIN directive found in a file.
+ */
+export interface IncludeDirective {
+	/// 'include' for source includes, 'incbin' for binary includes (INCBIN, BINARY, INSERT, ...).
+	kind: 'include' | 'incbin',
+	/// The path as written in the source, e.g. 'util/zxspectrum.inc'
+	path: string,
+	/// The line number:
+	line: number,
+	/// The start column of the path:
+	start: number,
+	/// The end column of the path:
+	end: number
+}
+
+
+/**
+ * Parses the lines of a file for INCLUDE and INCBIN directives.
+ * The original lines are required as the path is inside quotes (which
+ * are blanked out in the stripped lines).
+ * The stripped lines are used to skip directives inside comments.
+ * @param lines The original lines of the file.
+ * @param strippedLines The same lines with stripped comments.
+ * @param dialect The assembler dialect. Defines the include directives.
+ * @returns An array with all directives.
+ */
+export function parseIncludes(lines: string[], strippedLines: string[], dialect = defaultDialect): IncludeDirective[] {
+	const includes: IncludeDirective[] = [];
+	const regex = CommonRegexes.regexIncludeDirective(dialect.includeDirectives);
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		const match = regex.exec(lines[row]);
+		if (!match)
+			continue;
+		// Check that the directive is not commented out
+		const directive = match[2].toLowerCase();
+		const k = match[1].toLowerCase().lastIndexOf(directive);
+		const strippedLine = strippedLines[row] || '';
+		if (strippedLine.substring(k, k + directive.length).toLowerCase() != directive)
+			continue;
+		// Store
+		const start = match[1].length;
+		const relPath = match[3];
+		const kind = isSourceInclude(directive) ? 'include' : 'incbin';
+		includes.push({kind, path: relPath, line: row, start, end: start + relPath.length});
+	}
+	return includes;
+}
+
+
+/**
+ * Checks if a directive includes source code (and not binary data).
+ * @param directive The lower case directive, e.g. "include", ".include" or "read" (RASM).
+ */
+function isSourceInclude(directive: string): boolean {
+	return /^\.?(include|read)$/.test(directive);
+}
+
+
+/**
+ * Resolves an included path.
+ * The path is first checked relative to the including file, then relative to
+ * each of the include paths.
+ * @param includingFile The path of the file that contains the INCLUDE.
+ * @param relPath The path as written in the INCLUDE directive.
+ * @param includePaths Additional absolute directories to search.
+ * @param fileExists Function that returns true if the file exists.
+ * @returns The absolute path of the included file or undefined if not found.
+ */
+export function resolveIncludePath(includingFile: string, relPath: string, includePaths: string[], fileExists: (filePath: string) => boolean): string | undefined {
+	if (path.isAbsolute(relPath))
+		return fileExists(relPath) ? path.normalize(relPath) : undefined;
+	const dirs = [path.dirname(includingFile), ...includePaths];
+	for (const dir of dirs) {
+		const filePath = path.join(dir, relPath);
+		if (fileExists(filePath))
+			return filePath;
+	}
+	return undefined;
+}
+
+
+/**
+ * Returns all files that belong to the same translation unit(s) as the given file.
+ * A translation unit is a root file (a file that is not included by any other file)
+ * together with all files it includes (recursively).
+ * If the file belongs to several translation units all of them are returned.
+ * @param graph The include graph: file path -> array of included file paths.
+ * @param filePath The file to get the translation units for.
+ * @returns A set with all file paths of the translation units (including filePath).
+ */
+export function getTranslationUnitFiles(graph: Map<string, string[]>, filePath: string): Set<string> {
+	// Create the reverse graph
+	const parents = new Map<string, string[]>();
+	for (const [file, included] of graph) {
+		for (const inc of included) {
+			let list = parents.get(inc);
+			if (!list) {
+				list = [];
+				parents.set(inc, list);
+			}
+			list.push(file);
+		}
+	}
+
+	// Find all ancestors
+	const ancestors = collect(parents, filePath);
+
+	// The roots are ancestors without parents
+	let roots = Array.from(ancestors).filter(file => !parents.get(file)?.length);
+	if (roots.length == 0)
+		roots = Array.from(ancestors);	// Cyclic includes
+
+	// Collect all included files of the roots
+	const files = new Set<string>();
+	for (const root of roots) {
+		for (const file of collect(graph, root))
+			files.add(file);
+	}
+	return files;
+}
+
+
+/**
+ * Collects all nodes reachable from 'start' (incl. start).
+ * @param edges The graph.
+ * @param start The start node.
+ * @returns A set with all reachable nodes.
+ */
+function collect(edges: Map<string, string[]>, start: string): Set<string> {
+	const visited = new Set<string>([start]);
+	const todo = [start];
+	while (todo.length > 0) {
+		const node = todo.pop()!;
+		for (const next of edges.get(node) ?? []) {
+			if (!visited.has(next)) {
+				visited.add(next);
+				todo.push(next);
+			}
+		}
+	}
+	return visited;
+}
@@ -0,0 +1,399 @@
+/**
+ * The documentation of the Z80/Z80N instructions, the registers and the
+ * sjasmplus directives. Used for the hovers.
+ * The syntax variants, opcodes, T-states and flags of the instructions
+ * are taken from the instruction table.
+ */
+
+import {Z80Instruction, formatTStates, getInstructionVariants} from './z80instructions';
+
+
+/**
+ * The description of an instruction.
+ */
+interface InstructionDoc {
+	/// The short description, e.g. "Load".
+	title: string,
+	/// What the instruction does.
+	description: string,
+	/// The instruction this is another name for, e.g. "sll" for "sli".
+	alias?: string,
+	/// The sjasmplus fake instructions, e.g. "ld bc,de".
+	fake?: string[]
+}
+
+
+/**
+ * The description of a directive.
+ */
+interface DirectiveDoc {
+	/// The syntax, e.g. "DUP count[,var]".
+	syntax: string,
+	/// What the directive does.
+	description: string
+}
+
+
+/// The Z80 and Z80N instructions.
+const instructionDocs = new Map<string, InstructionDoc>([
+	// Load and exchange
+	['ld', {title: 'Load', description: 'Copies the source (2nd operand) to the destination (1st operand). 8 or 16 bit.', fake: ['ld bc,de', 'ld de,(ix+d)', 'ld (ix+d),bc', 'ld hl,sp']}],
+	['push', {title: 'Push', description: 'Decrements SP by 2 and stores the register pair on the stack.'}],
+	['pop', {title: 'Pop', description: 'Loads the register pair from the stack and increments SP by 2.'}],
+	['ex', {title: 'Exchange', description: 'Exchanges the contents of the two operands: DE with HL, AF with AF\' or the top of the stack with HL/IX/IY.'}],
+	['exx', {title: 'Exchange all', description: 'Exchanges BC, DE and HL with the shadow registers BC\', DE\' and HL\'.'}],
+
+	// Block instructions
+	['ldi', {title: 'Load and increment', description: '(DE) ← (HL), DE++, HL++, BC--. P/V is reset if BC becomes 0.', fake: ['ldi a,(hl)', 'ldi (hl),a', 'ldi bc,(hl)']}],
+	['ldir', {title: 'Load, increment and repeat', description: 'Repeats LDI until BC is 0. Copies BC bytes from (HL) to (DE).'}],
+	['ldd', {title: 'Load and decrement', description: '(DE) ← (HL), DE--, HL--, BC--. P/V is reset if BC becomes 0.', fake: ['ldd a,(hl)', 'ldd (hl),a']}],
+	['lddr', {title: 'Load, decrement and repeat', description: 'Repeats LDD until BC is 0. Copies BC bytes from (HL) to (DE) backwards.'}],
+	['cpi', {title: 'Compare and increment', description: 'Compares A with (HL), HL++, BC--. Z is set if A = (HL), P/V is reset if BC becomes 0.'}],
+	['cpir', {title: 'Compare, increment and repeat', description: 'Repeats CPI until A = (HL) or BC is 0.'}],
+	['cpd', {title: 'Compare and decrement', description: 'Compares A with (HL), HL--, BC--. Z is set if A = (HL), P/V is reset if BC becomes 0.'}],
+	['cpdr', {title: 'Compare, decrement and repeat', description: 'Repeats CPD until A = (HL) or BC is 0.'}],
+	['ini', {title: 'Input and increment', description: '(HL) ← port (C), HL++, B--.'}],
+	['inir', {title: 'Input, increment and repeat', description: 'Repeats INI until B is 0.'}],
+	['ind', {title: 'Input and decrement', description: '(HL) ← port (C), HL--, B--.'}],
+	['indr', {title: 'Input, decrement and repeat', description: 'Repeats IND until B is 0.'}],
+	['outi', {title: 'Output and increment', description: 'B--, port (C) ← (HL), HL++. Note: B is decremented before the output.'}],
+	['otir', {title: 'Output, increment and repeat', description: 'Repeats OUTI until B is 0.'}],
+	['outd', {title: 'Output and decrement', description: 'B--, port (C) ← (HL), HL--. Note: B is decremented before the output.'}],
+	['otdr', {title: 'Output, decrement and repeat', description: 'Repeats OUTD until B is 0.'}],
+
+	// Arithmetic and logic
+	['add', {title: 'Add', description: 'Adds the operand to A (8 bit) or the register pair to HL/IX/IY (16 bit).'}],
+	['adc', {title: 'Add with carry', description: 'Adds the operand and the carry flag to A (8 bit) or HL (16 bit).', fake: ['adc de,bc']}],
+	['sub', {title: 'Subtract', description: 'Subtracts the operand from A.', fake: ['sub hl,bc']}],
+	['sbc', {title: 'Subtract with carry', description: 'Subtracts the operand and the carry flag from A (8 bit) or HL (16 bit).', fake: ['sbc de,bc']}],
+	['and', {title: 'Logical AND', description: 'A ← A AND operand.'}],
+	['or', {title: 'Logical OR', description: 'A ← A OR operand.'}],
+	['xor', {title: 'Logical exclusive OR', description: 'A ← A XOR operand. "xor a" is the usual way to clear A.'}],
+	['cp', {title: 'Compare', description: 'Subtracts the operand from A without storing the result. Only the flags are changed: Z if equal, C if A < operand.'}],
+	['inc', {title: 'Increment', description: 'Adds 1 to the operand. The 16 bit variants do not change any flags.'}],
+	['dec', {title: 'Decrement', description: 'Subtracts 1 from the operand. The 16 bit variants do not change any flags.'}],
+	['daa', {title: 'Decimal adjust accumulator', description: 'Corrects A after an addition or subtraction of BCD numbers.'}],
+	['cpl', {title: 'Complement', description: 'Inverts all bits of A (one\'s complement).'}],
+	['neg', {title: 'Negate', description: 'A ← 0 - A (two\'s complement).'}],
+	['ccf', {title: 'Complement carry flag', description: 'Inverts the carry flag. H gets the previous carry.'}],
+	['scf', {title: 'Set carry flag', description: 'Sets the carry flag.'}],
+
+	// Control
+	['nop', {title: 'No operation', description: 'Does nothing.'}],
+	['halt', {title: 'Halt', description: 'Suspends the CPU (executing NOPs) until an interrupt or reset occurs.'}],
+	['di', {title: 'Disable interrupts', description: 'Resets IFF1 and IFF2. Maskable interrupts are ignored.'}],
+	['ei', {title: 'Enable interrupts', description: 'Sets IFF1 and IFF2. Interrupts are accepted after the next instruction.'}],
+	['im', {title: 'Interrupt mode', description: 'Sets the interrupt mode 0, 1 (RST 38h) or 2 (vector table at I*256).'}],
+
+	// Rotate and shift
+	['rlca', {title: 'Rotate left circular accumulator', description: 'Rotates A left. Bit 7 goes to the carry and to bit 0.'}],
+	['rla', {title: 'Rotate left accumulator', description: 'Rotates A left through the carry.'}],
+	['rrca', {title: 'Rotate right circular accumulator', description: 'Rotates A right. Bit 0 goes to the carry and to bit 7.'}],
+	['rra', {title: 'Rotate right accumulator', description: 'Rotates A right through the carry.'}],
+	['rlc', {title: 'Rotate left circular', description: 'Rotates the operand left. Bit 7 goes to the carry and to bit 0.'}],
+	['rl', {title: 'Rotate left', description: 'Rotates the operand left through the carry.', fake: ['rl bc', 'rl de', 'rl hl']}],
+	['rrc', {title: 'Rotate right circular', description: 'Rotates the operand right. Bit 0 goes to the carry and to bit 7.'}],
+	['rr', {title: 'Rotate right', description: 'Rotates the operand right through the carry.', fake: ['rr bc', 'rr de', 'rr hl']}],
+	['sla', {title: 'Shift left arithmetic', description: 'Shifts the operand left. Bit 7 goes to the carry, bit 0 is 0.', fake: ['sla bc', 'sla de', 'sla hl']}],
+	['sra', {title: 'Shift right arithmetic', description: 'Shifts the operand right. Bit 0 goes to the carry, bit 7 is unchanged.', fake: ['sra bc', 'sra de', 'sra hl']}],
+	['srl', {title: 'Shift right logical', description: 'Shifts the operand right. Bit 0 goes to the carry, bit 7 is 0.', fake: ['srl bc', 'srl de', 'srl hl']}],
+	['sll', {title: 'Shift left logical (undocumented)', description: 'Shifts the operand left. Bit 7 goes to the carry, bit 0 is 1.'}],
+	['sli', {title: 'Shift left logical (undocumented)', description: 'Another name for SLL.', alias: 'sll'}],
+	['slia', {title: 'Shift left logical (undocumented)', description: 'Another name for SLL.', alias: 'sll'}],
+	['sl1', {title: 'Shift left logical (undocumented)', description: 'Another name for SLL.', alias: 'sll'}],
+	['rld', {title: 'Rotate left decimal', description: 'Rotates the nibbles of A (lower nibble) and (HL) left: the lower nibble of (HL) goes to the upper nibble, the upper nibble to A.'}],
+	['rrd', {title: 'Rotate right decimal', description: 'Rotates the nibbles of A (lower nibble) and (HL) right: the lower nibble of A goes to the upper nibble of (HL), the lower nibble of (HL) to A.'}],
+
+	// Bits
+	['bit', {title: 'Test bit', description: 'Sets Z if the bit (0-7) of the operand is 0.'}],
+	['set', {title: 'Set bit', description: 'Sets the bit (0-7) of the operand.'}],
+	['res', {title: 'Reset bit', description: 'Resets the bit (0-7) of the operand.'}],
+
+	// Jumps and calls
+	['jp', {title: 'Jump', description: 'Jumps to the address (if the condition is met).'}],
+	['jr', {title: 'Jump relative', description: 'Jumps to the address (if the condition is met). The target must be within -128..+127 bytes.'}],
+	['djnz', {title: 'Decrement and jump if not zero', description: 'B--. Jumps relative if B is not 0. Used for loops.'}],
+	['call', {title: 'Call', description: 'Pushes the return address and jumps to the subroutine (if the condition is met).'}],
+	['ret', {title: 'Return', description: 'Pops the return address from the stack (if the condition is met).'}],
+	['reti', {title: 'Return from interrupt', description: 'Returns from a maskable interrupt. Signals the end of the interrupt to the peripherals.'}],
+	['retn', {title: 'Return from non-maskable interrupt', description: 'Returns from an NMI. IFF1 is restored from IFF2.'}],
+	['rst', {title: 'Restart', description: 'Calls one of the addresses 00h, 08h, 10h, 18h, 20h, 28h, 30h or 38h. Only 1 byte.'}],
+
+	// Input and output
+	['in', {title: 'Input', description: 'Reads a byte from the port. "in a,(n)" uses A as upper byte of the port address, "in r,(c)" uses BC.'}],
+	['out', {title: 'Output', description: 'Writes a byte to the port. "out (n),a" uses A as upper byte of the port address, "out (c),r" uses BC.'}],
+
+	// ZX Next
+	['ldix', {title: 'Load and increment, extended (Z80N)', description: 'Like LDI but the byte is not copied if it equals A. DE is incremented.'}],
+	['ldirx', {title: 'Load, increment and repeat, extended (Z80N)', description: 'Repeats LDIX until BC is 0.'}],
+	['lddx', {title: 'Load and decrement, extended (Z80N)', description: 'Like LDD but the byte is not copied if it equals A. DE is incremented.'}],
+	['lddrx', {title: 'Load, decrement and repeat, extended (Z80N)', description: 'Repeats LDDX until BC is 0.'}],
+	['ldpirx', {title: 'Pattern fill (Z80N)', description: 'Copies the byte from (HL & FFF8h + E & 7) to (DE) unless it equals A. DE++, BC--. Repeats until BC is 0.'}],
+	['ldws', {title: 'Load with wrap (Z80N)', description: '(DE) ← (HL), L++, D++. Used for vertical copies (e.g. layer 2).'}],
+	['outinb', {title: 'Output and increment (Z80N)', description: 'Port (BC) ← (HL), HL++. B is not decremented.'}],
+	['mul', {title: 'Multiply (Z80N)', description: 'DE ← D * E (unsigned).'}],
+	['swapnib', {title: 'Swap nibbles (Z80N)', description: 'Exchanges the upper and lower nibble of A.'}],
+	['swap', {title: 'Swap nibbles (Z80N)', description: 'Another name for SWAPNIB.', alias: 'swapnib'}],
+	['mirror', {title: 'Mirror (Z80N)', description: 'Reverses the order of the bits of A.'}],
+	['nextreg', {title: 'Next register (Z80N)', description: 'Writes the value (or A) to the Next register.'}],
+	['pixeldn', {title: 'Pixel down (Z80N)', description: 'Moves the ULA screen address in HL one pixel line down.'}],
+	['pixelad', {title: 'Pixel address (Z80N)', description: 'HL ← the ULA screen address of the pixel at E (x) and D (y).'}],
+	['setae', {title: 'Set accumulator from E (Z80N)', description: 'A ← the pixel mask for the x coordinate in E (80h >> (E & 7)).'}],
+	['test', {title: 'Test (Z80N)', description: 'Like "and n" but A is not changed. Only the flags are set.'}],
+	['bsla', {title: 'Barrel shift left arithmetic (Z80N)', description: 'DE ← DE << (B & 1Fh).'}],
+	['bsra', {title: 'Barrel shift right arithmetic (Z80N)', description: 'DE ← DE >> (B & 1Fh), bit 15 is kept.'}],
+	['bsrl', {title: 'Barrel shift right logical (Z80N)', description: 'DE ← DE >> (B & 1Fh), 0 is shifted in.'}],
+	['bsrf', {title: 'Barrel shift right fill (Z80N)', description: 'DE ← DE >> (B & 1Fh), 1 is shifted in.'}],
+	['brlc', {title: 'Barrel rotate left circular (Z80N)', description: 'DE ← DE rotated left by (B & 0Fh).'}]
+]);
+
+
+/// The registers.
+const registerDocs = new Map<string, string>([
+	['a', 'Accumulator (8 bit). Used by most arithmetic and logic instructions.'],
+	['f', 'Flags (8 bit): S (7), Z (6), H (4), P/V (2), N (1), C (0).'],
+	['b', '8 bit register. Upper byte of BC. Counter for DJNZ.'],
+	['c', '8 bit register. Lower byte of BC. Port for "in r,(c)"/"out (c),r". As condition: carry set.'],
+	['d', '8 bit register. Upper byte of DE.'],
+	['e', '8 bit register. Lower byte of DE.'],
+	['h', '8 bit register. Upper byte of HL.'],
+	['l', '8 bit register. Lower byte of HL.'],
+	['i', 'Interrupt vector register (8 bit). Upper byte of the vector table address in IM 2.'],
+	['r', 'Memory refresh register (8 bit). Incremented with every opcode fetch (bits 0-6).'],
+	['af', 'Register pair of accumulator and flags. Used with PUSH, POP and EX AF,AF\'.'],
+	['bc', 'Register pair (16 bit). Counter for the block instructions.'],
+	['de', 'Register pair (16 bit). Destination of the block instructions.'],
+	['hl', 'Register pair (16 bit). Used for 16 bit arithmetic and as pointer (HL).'],
+	['ix', 'Index register (16 bit). Used as pointer with offset (IX+d).'],
+	['iy', 'Index register (16 bit). Used as pointer with offset (IY+d).'],
+	['sp', 'Stack pointer (16 bit).'],
+	['pc', 'Program counter (16 bit).'],
+	['ixh', 'Upper byte of IX (undocumented).'],
+	['ixl', 'Lower byte of IX (undocumented).'],
+	['iyh', 'Upper byte of IY (undocumented).'],
+	['iyl', 'Lower byte of IY (undocumented).']
+]);
+
+
+/// The sjasmplus directives.
+const directiveDocs = new Map<string, DirectiveDoc>([
+	// Blocks
+	['macro', {syntax: 'name MACRO [arg1[,arg2...]]', description: 'Starts a macro definition. Ends with ENDM. The arguments are used by name inside the macro.'}],
+	['endm', {syntax: 'ENDM', description: 'Ends a MACRO (or a DUP/REPT block).'}],
+	['module', {syntax: 'MODULE name', description: 'Starts a module. All labels inside get the prefix "name.". Ends with ENDMODULE.'}],
+	['endmodule', {syntax: 'ENDMODULE', description: 'Ends a MODULE.'}],
+	['struct', {syntax: 'STRUCT name[,offset]', description: 'Starts a structure definition. The labels inside are the field offsets. Ends with ENDS.'}],
+	['ends', {syntax: 'ENDS', description: 'Ends a STRUCT.'}],
+	['dup', {syntax: 'DUP count[,var]', description: 'Repeats the lines up to EDUP count times. The optional var is the iteration index (0..count-1).'}],
+	['rept', {syntax: 'REPT count[,var]', description: 'Same as DUP. Ends with ENDR.'}],
+	['edup', {syntax: 'EDUP', description: 'Ends a DUP block.'}],
+	['endr', {syntax: 'ENDR', description: 'Ends a REPT block.'}],
+
+	// Conditional assembly
+	['if', {syntax: 'IF expression', description: 'Assembles the following lines if the expression is not 0. Ends with ENDIF, optionally with ELSE/ELSEIF.'}],
+	['ifn', {syntax: 'IFN expression', description: 'Assembles the following lines if the expression is 0.'}],
+	['ifdef', {syntax: 'IFDEF name', description: 'Assembles the following lines if the DEFINE (or label) exists.'}],
+	['ifndef', {syntax: 'IFNDEF name', description: 'Assembles the following lines if the DEFINE (or label) does not exist.'}],
+	['ifused', {syntax: 'IFUSED [label]', description: 'Assembles the following lines if the label is used somewhere.'}],
+	['ifnused', {syntax: 'IFNUSED [label]', description: 'Assembles the following lines if the label is not used.'}],
+	['else', {syntax: 'ELSE', description: 'Alternative branch of an IF block.'}],
+	['endif', {syntax: 'ENDIF', description: 'Ends an IF block.'}],
+
+	// Includes
+	['include', {syntax: 'INCLUDE "file"', description: 'Assembles the source file at this position.'}],
+	['incbin', {syntax: 'INCBIN "file"[,offset[,length]]', description: 'Inserts the binary file.'}],
+	['insert', {syntax: 'INSERT "file"[,offset[,length]]', description: 'Same as INCBIN.'}],
+	['binary', {syntax: 'BINARY "file"[,offset[,length]]', description: 'Same as INCBIN.'}],
+	['inchob', {syntax: 'INCHOB "file"[,offset[,length]]', description: 'Inserts the contents of a hobeta file.'}],
+	['inctrd', {syntax: 'INCTRD "image","file"[,offset[,length]]', description: 'Inserts a file from a TRD disk image.'}],
+	['includelua', {syntax: 'INCLUDELUA "file"', description: 'Includes a Lua script (only in the first pass).'}],
+	['lua', {syntax: 'LUA [pass]', description: 'Starts an inline Lua script. Ends with ENDLUA.'}],
+	['endlua', {syntax: 'ENDLUA', description: 'Ends a LUA block.'}],
+
+	// Data
+	['db', {syntax: 'DB value[,value...]', description: 'Defines bytes. Strings are stored as bytes.'}],
+	['defb', {syntax: 'DEFB value[,value...]', description: 'Same as DB.'}],
+	['byte', {syntax: 'BYTE value[,value...]', description: 'Same as DB.'}],
+	['dm', {syntax: 'DM "text"[,value...]', description: 'Same as DB, meant for texts.'}],
+	['defm', {syntax: 'DEFM "text"[,value...]', description: 'Same as DM.'}],
+	['dc', {syntax: 'DC "text"[,...]', description: 'Defines a text. Bit 7 of the last character is set.'}],
+	['dz', {syntax: 'DZ "text"[,...]', description: 'Defines a text terminated by a 0 byte.'}],
+	['abyte', {syntax: 'ABYTE offset value[,value...]', description: 'Defines bytes. The offset is added to every byte.'}],
+	['abytec', {syntax: 'ABYTEC offset "text"[,...]', description: 'Like ABYTE but bit 7 of the last character is set.'}],
+	['abytez', {syntax: 'ABYTEZ offset "text"[,...]', description: 'Like ABYTE but terminated by a 0 byte.'}],
+	['dw', {syntax: 'DW value[,value...]', description: 'Defines words (16 bit, little endian).'}],
+	['defw', {syntax: 'DEFW value[,value...]', description: 'Same as DW.'}],
+	['word', {syntax: 'WORD value[,value...]', description: 'Same as DW.'}],
+	['d24', {syntax: 'D24 value[,value...]', description: 'Defines 24 bit values (little endian).'}],
+	['dd', {syntax: 'DD value[,value...]', description: 'Defines double words (32 bit, little endian).'}],
+	['defd', {syntax: 'DEFD value[,value...]', description: 'Same as DD.'}],
+	['dword', {syntax: 'DWORD value[,value...]', description: 'Same as DD.'}],
+	['dg', {syntax: 'DG "bits"', description: 'Defines bytes from a bit pattern, e.g. "DG ##..#..." (#, 1, X = 1; ., 0, - = 0).'}],
+	['defg', {syntax: 'DEFG "bits"', description: 'Same as DG.'}],
+	['dh', {syntax: 'DH "hex digits"', description: 'Defines bytes from hex digits, e.g. "DH \'0123456789ABCDEF\'".'}],
+	['defh', {syntax: 'DEFH "hex digits"', description: 'Same as DH.'}],
+	['hex', {syntax: 'HEX "hex digits"', description: 'Same as DH.'}],
+	['ds', {syntax: 'DS count[,fill]', description: 'Reserves count bytes, filled with fill (default 0).'}],
+	['defs', {syntax: 'DEFS count[,fill]', description: 'Same as DS.'}],
+	['block', {syntax: 'BLOCK count[,fill]', description: 'Same as DS.'}],
+	['align', {syntax: 'ALIGN [boundary[,fill]]', description: 'Aligns the address to the boundary (a power of 2, default 4).'}],
+	['defarray', {syntax: 'DEFARRAY name value[,value...]', description: 'Defines an array of DEFINEs. The elements are accessed as name[index].'}],
+	['defarray+', {syntax: 'DEFARRAY+ name value[,value...]', description: 'Appends values to an existing DEFARRAY.'}],
+
+	// Symbols
+	['equ', {syntax: 'label EQU expression', description: 'Defines a constant. It cannot be changed later.'}],
+	['defl', {syntax: 'label DEFL expression', description: 'Defines a variable that can be changed later (also "label = expression").'}],
+	['define', {syntax: 'DEFINE name [replacement]', description: 'Defines a text replacement (preprocessor).'}],
+	['undefine', {syntax: 'UNDEFINE name', description: 'Removes a DEFINE.'}],
+	['export', {syntax: 'EXPORT label', description: 'Writes the label to the export file.'}],
+	['labelslist', {syntax: 'LABELSLIST "file"', description: 'Writes the labels in the format of the Unreal emulator.'}],
+	['cspectmap', {syntax: 'CSPECTMAP ["file"]', description: 'Writes the labels in the format of the CSpect emulator.'}],
+	['encoding', {syntax: 'ENCODING "DOS"|"WIN"', description: 'Sets the encoding used for strings.'}],
+	['assert', {syntax: 'ASSERT expression[,message]', description: 'Reports an error if the expression is 0.'}],
+	['display', {syntax: 'DISPLAY value[,...]', description: 'Prints the values/texts during assembly.'}],
+	['opt', {syntax: 'OPT [push|pop|reset] option...', description: 'Changes the command line options, e.g. "OPT --syntax=abf".'}],
+
+	// Addresses and memory
+	['org', {syntax: 'ORG address[,page]', description: 'Sets the address for the following code.'}],
+	['disp', {syntax: 'DISP address[,page]', description: 'The following code is assembled for the address but stored at the current position. Ends with ENT.'}],
+	['phase', {syntax: 'PHASE address', description: 'Same as DISP. Ends with DEPHASE or UNPHASE.'}],
+	['textarea', {syntax: 'TEXTAREA address', description: 'Same as DISP. Ends with ENDT.'}],
+	['ent', {syntax: 'ENT', description: 'Ends a DISP block.'}],
+	['dephase', {syntax: 'DEPHASE', description: 'Ends a PHASE block.'}],
+	['unphase', {syntax: 'UNPHASE', description: 'Ends a PHASE block.'}],
+	['endt', {syntax: 'ENDT', description: 'Ends a TEXTAREA block.'}],
+	['device', {syntax: 'DEVICE name[,ramtop]', description: 'Selects the virtual device (e.g. ZXSPECTRUM48, ZXSPECTRUM128, ZXSPECTRUMNEXT or NONE). The code is assembled into its memory, which can be saved with SAVEBIN, SAVESNA etc.'}],
+	['slot', {syntax: 'SLOT number', description: 'Selects the slot (memory region) used by PAGE.'}],
+	['page', {syntax: 'PAGE number', description: 'Maps the memory page into the current slot.'}],
+	['mmu', {syntax: 'MMU slot[-slot] [e|w|n,]page[,address]', description: 'Maps memory pages into the slots, optionally with the behavior at the slot end.'}],
+	['end', {syntax: 'END [start]', description: 'Ends the assembly. The rest of the file is ignored.'}],
+
+	// Output
+	['output', {syntax: 'OUTPUT "file"[,t|r|a]', description: 'Writes the following code to the file (truncate, rewrite or append).'}],
+	['outend', {syntax: 'OUTEND', description: 'Ends the output to the file of OUTPUT.'}],
+	['fpos', {syntax: 'FPOS offset', description: 'Moves the position in the output file.'}],
+	['tapout', {syntax: 'TAPOUT "file"[,flag]', description: 'Writes the following code to a tape block of the file.'}],
+	['tapend', {syntax: 'TAPEND', description: 'Ends the TAPOUT block.'}],
+	['savebin', {syntax: 'SAVEBIN "file",start,length', description: 'Saves the device memory as binary file.'}],
+	['savedev', {syntax: 'SAVEDEV "file",page,offset,length', description: 'Saves the device memory starting at the page as binary file.'}],
+	['savesna', {syntax: 'SAVESNA "file",start', description: 'Saves the device memory as ZX Spectrum snapshot (.sna). Execution starts at start.'}],
+	['savetap', {syntax: 'SAVETAP "file",type,"name",start,length[,...]', description: 'Saves a block of the device memory to a tape file. Type is BASIC, CODE, NUMBERS, CHARS or HEADLESS.'}],
+	['savehob', {syntax: 'SAVEHOB "file","name",start,length', description: 'Saves a block of the device memory as hobeta file.'}],
+	['savetrd', {syntax: 'SAVETRD "image","name",start,length', description: 'Saves a block of the device memory to a TRD disk image.'}],
+	['savenex', {syntax: 'SAVENEX OPEN|CORE|CFG|CFG3|BAR|PALETTE|SCREEN|BANK|AUTO|CLOSE ...', description: 'Creates a ZX Spectrum Next .nex file in several steps: OPEN the file, configure it and add the banks, then CLOSE it.'}],
+	['emptytap', {syntax: 'EMPTYTAP "file"', description: 'Creates an empty tape file.'}],
+	['emptytrd', {syntax: 'EMPTYTRD "image"[,"label"]', description: 'Creates an empty TRD disk image.'}],
+	['shellexec', {syntax: 'SHELLEXEC "command"[,"parameters"]', description: 'Executes a shell command (in the last pass).'}],
+
+	// Debugging
+	['setbp', {syntax: 'SETBP [address]', description: 'Adds a breakpoint for the emulator (see BPLIST).'}],
+	['setbreakpoint', {syntax: 'SETBREAKPOINT [address]', description: 'Same as SETBP.'}],
+	['bplist', {syntax: 'BPLIST "file" [unreal|zesarux]', description: 'Writes the breakpoints of SETBP to the file.'}]
+]);
+
+
+/// The names of the operand kinds used in the syntax.
+const operandNames = new Map<string, string>([
+	['R8', 'r'],
+	['IXR', 'ixh'],
+	['RR', 'rr'],
+	['IX', 'ix'],
+	['N', 'n'],
+	['(N)', '(nn)'],
+	['(IX)', '(ix)'],
+	['(IX+D)', '(ix+d)'],
+	['CC', 'cc']
+]);
+
+
+/**
+ * Converts the pattern of the instruction table into the syntax shown to the user.
+ * @param pattern E.g. "ld R8,(IX+D)".
+ * @returns E.g. "LD r,(ix+d)".
+ */
+function getSyntax(pattern: string): string {
+	const [mnemonic, operands] = pattern.split(' ');
+	if (!operands)
+		return mnemonic.toUpperCase();
+	return mnemonic.toUpperCase() + ' ' + operands.split(',').map(operand => operandNames.get(operand) ?? operand).join(',');
+}
+
+
+/**
+ * Returns the documentation of an instruction as markdown.
+ * @param mnemonic E.g. "ldir". Case insensitive.
+ * @returns The title, description and a table with the syntax variants.
+ * undefined if not an instruction.
+ */
+export function getInstructionDoc(mnemonic: string): string | undefined {
+	const name = mnemonic.toLowerCase();
+	const doc = instructionDocs.get(name);
+	if (!doc)
+		return undefined;
+	const lines: string[] = [];
+	lines.push('**' + name.toUpperCase() + '** - ' + doc.title, '');
+	lines.push(doc.description, '');
+
+	// Variants, without duplicates (e.g. "sub b" and "sub a,b")
+	const variants: Z80Instruction[] = [];
+	for (const variant of getInstructionVariants(doc.alias ?? name)) {
+		if (!variants.some(v => v.opcode == variant.opcode && v.cpu == variant.cpu))
+			variants.push(variant);
+	}
+	if (variants.length > 0) {
+		lines.push('| Syntax | Opcode | Bytes | T-states | Flags |');
+		lines.push('|---|---|---|---|---|');
+		for (const variant of variants) {
+			let syntax = '`' + getSyntax(variant.pattern) + '`';
+			if (variant.cpu == 'undoc')
+				syntax += ' (undoc.)';
+			else if (variant.cpu == 'z80n')
+				syntax += ' (Z80N)';
+			lines.push('| ' + syntax + ' | ' + variant.opcode + ' | ' + variant.size + ' | ' + formatTStates(variant) + ' | ' + variant.flags + ' |');
+		}
+		lines.push('');
+		if (variants.some(variant => typeof variant.tStates != 'number'))
+			lines.push('T-states: taken/not taken resp. repeated/finished.', '');
+	}
+
+	// Fake instructions
+	if (doc.fake)
+		lines.push('sjasmplus fake instructions: ' + doc.fake.map(fake => '`' + fake + '`').join(', '), '');
+	return lines.join('\n').trimEnd();
+}
+
+
+/**
+ * Returns the documentation of a register as markdown.
+ * @param register E.g. "hl". Case insensitive.
+ * @returns The description or undefined if not a register.
+ */
+export function getRegisterDoc(register: string): string | undefined {
+	const name = register.toLowerCase();
+	const doc = registerDocs.get(name);
+	if (!doc)
+		return undefined;
+	return '**' + name.toUpperCase() + '** - ' + doc;
+}
+
+
+/**
+ * Returns the documentation of a sjasmplus directive as markdown.
+ * @param directive E.g. "DUP" or ".dup". Case insensitive.
+ * @returns The syntax and description or undefined if not a directive.
+ */
+export function getDirectiveDoc(directive: string): string | undefined {
+	const doc = directiveDocs.get(directive.toLowerCase().replace(/^\./, ''));
+	if (!doc)
+		return undefined;
+	return '`' + doc.syntax + '`\n\n' + doc.description;
+}
+
+
+/**
+ * Checks if a word is a (documented) sjasmplus directive.
+ * @param word E.g. "DUP" or ".dup". Case insensitive.
+ */
+export function isDirective(word: string): boolean {
+	return directiveDocs.has(word.toLowerCase().replace(/^\./, ''));
+}
@@ -0,0 +1,298 @@
+/**
+ * Functions to find label references and label definitions for the
+ * diagnostics (undefined and duplicate labels).
+ */
+
+import {AsmBlock, getInstruction, isLineInsideBlocks} from './asmblocks';
+import {defaultDialect} from './dialects';
+import {concatenateModuleAndLabel} from './grepextra';
+import {conditions, dataDirectives, expressionKeywords, registers, z80Mnemonics, z80nMnemonics} from './mnemonics';
+import {FileSymbols, IndexedSymbol} from './symbolparser';
+import {isAnonymousReference} from './templabels';
+
+
+/**
+ * A label used in an instruction.
+ */
+export interface LabelReference {
+	/// The label as written, e.g. ".loop" or "screen.BASE".
+	label: string,
+	/// The full labels the reference could refer to, in order of precedence.
+	/// E.g. for "BASE" inside module "screen": ["screen.BASE", "BASE"].
+	candidates: string[],
+	/// The line number:
+	line: number,
+	/// The start column:
+	start: number,
+	/// The end column:
+	end: number
+}
+
+
+/**
+ * Returns the full labels a label could refer to.
+ * @param label The label as written, e.g. "BASE", ".loop" or "@BASE".
+ * @param module The module at the reference, e.g. "audio.sound".
+ * @param nonLocalLabel The last non-local label (incl. module) before the reference.
+ * @returns The candidates, in order of precedence.
+ */
+export function getLabelCandidates(label: string, module: string, nonLocalLabel: string): string[] {
+	if (label.startsWith('@'))
+		return [label.substring(1)];
+	if (label.startsWith('.'))
+		return [nonLocalLabel + label];
+	const candidates: string[] = [];
+	const parts = module ? module.split('.') : [];
+	for (let i = parts.length; i >= 0; i--)
+		candidates.push(concatenateModuleAndLabel(parts.slice(0, i).join('.'), label));
+	return candidates;
+}
+
+
+/**
+ * Returns the module and the last non-local label at a line.
+ * Used to resolve a label at a given position.
+ * @param fileSymbols The symbols of the file.
+ * @param row The line number.
+ * @returns The module (e.g. "audio") and the full non-local label (e.g. "audio.init").
+ */
+export function getLabelContext(fileSymbols: FileSymbols, row: number): {module: string, nonLocalLabel: string} {
+	let module = '';
+	for (const info of fileSymbols.modStructInfos) {
+		if (info.row > row)
+			break;
+		module = info.label;
+	}
+	let nonLocalLabel = '';
+	for (const symbol of fileSymbols.symbols) {
+		if (symbol.line > row)
+			break;
+		if (!symbol.local && (symbol.kind == 'code' || symbol.kind == 'data' || symbol.kind == 'equ'))
+			nonLocalLabel = symbol.moduleLabel;
+	}
+	return {module, nonLocalLabel};
+}
+
+
+/**
+ * Finds all label references in the operands of instructions and data directives.
+ * Lines inside MACRO and STRUCT blocks are skipped as they use parameters or
+ * define fields.
+ * Statements with other directives or macro calls are skipped as well as
+ * their operands may be names that are no labels.
+ * Several statements in a line (separated by ':') are checked one by one.
+ * @param lines The comment stripped lines of the file.
+ * @param fileSymbols The symbols of the file. Used to get the module and the
+ * non-local label for each line.
+ * @param blocks The blocks of the file.
+ * @param dialect The assembler dialect.
+ * @returns An array with the references.
+ */
+export function findLabelReferences(lines: string[], fileSymbols: FileSymbols, blocks: AsmBlock[], dialect = defaultDialect): LabelReference[] {
+	const references: LabelReference[] = [];
+	const regexName = /(?<![\w.$#%@'])@?[a-z_.][\w.]*/gi;
+	const {modStructInfos, symbols} = fileSymbols;
+	let modIndex = -1;
+	let module = '';
+	let symbolIndex = 0;
+	let nonLocalLabel = '';
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		// Update module and non-local label
+		while (modIndex + 1 < modStructInfos.length && modStructInfos[modIndex + 1].row <= row) {
+			modIndex++;
+			module = modStructInfos[modIndex].label;
+		}
+		while (symbolIndex < symbols.length && symbols[symbolIndex].line <= row) {
+			const symbol = symbols[symbolIndex++];
+			if (!symbol.local && (symbol.kind == 'code' || symbol.kind == 'data' || symbol.kind == 'equ'))
+				nonLocalLabel = symbol.moduleLabel;
+		}
+
+		if (isLineInsideBlocks(blocks, row, ['macro', 'struct']))
+			continue;
+
+		// Check the statements, e.g. "ld a,1 : ld b,2"
+		const line = lines[row];
+		let offset = 0;
+		let instr = getInstruction(line, dialect);
+		while (instr) {
+			const operandsStart = offset + instr.start + instr.instruction.length;
+			const operandsEnd = getStatementEnd(line, operandsStart);
+			const instruction = instr.instruction.toLowerCase().replace(/^\./, '');
+			if (z80Mnemonics.has(instruction) || z80nMnemonics.has(instruction) || dataDirectives.has(instruction)) {
+				// Find the names in the operands
+				const operands = line.substring(operandsStart, operandsEnd);
+				regexName.lastIndex = 0;
+				let match;
+				while ((match = regexName.exec(operands))) {
+					const label = match[0].replace(/\.$/, '');
+					const lower = label.toLowerCase();
+					if (registers.has(lower) || conditions.has(lower) || expressionKeywords.has(lower))
+						continue;
+					if (label == '.' || label == '@' || isAnonymousReference(label))
+						continue;
+					const start = operandsStart + match.index;
+					references.push({
+						label,
+						candidates: getLabelCandidates(label, module, nonLocalLabel),
+						line: row,
+						start,
+						end: start + label.length
+					});
+				}
+			}
+			if (operandsEnd >= line.length)
+				break;
+			// Next statement: the separator is replaced by a space so
+			// that the instruction is not taken for a label
+			offset = operandsEnd;
+			instr = getInstruction(' ' + line.substring(operandsEnd + 1), dialect);
+		}
+	}
+	return references;
+}
+
+
+/**
+ * Returns the end of a statement, i.e. the position of the next colon
+ * that separates statements, e.g. in "ld a,1 : ld b,2".
+ * Colons inside quotes or brackets are skipped.
+ * @param line The comment stripped line.
+ * @param start The position to start the search, e.g. the start of the operands.
+ * @returns The position of the separator or the length of the line.
+ */
+function getStatementEnd(line: string, start: number): number {
+	let depth = 0;
+	let quote: string | undefined;
+	const len = line.length;
+	for (let i = start; i < len; i++) {
+		const char = line[i];
+		if (quote) {
+			if (char == quote)
+				quote = undefined;
+		}
+		else if (char == '"' || char == "'")
+			quote = char;
+		else if ('([{'.includes(char))
+			depth++;
+		else if (')]}'.includes(char))
+			depth--;
+		else if (char == ':' && depth <= 0)
+			return i;
+	}
+	return len;
+}
+
+
+/**
+ * Checks if a reference refers to a defined label.
+ * A reference to the field of a struct instance (e.g. "player.x" where
+ * "player" is a data label) is accepted if the instance is defined.
+ * @param reference The reference.
+ * @param findSymbol Returns the symbol for a full label or undefined if not defined.
+ * @returns true if the label is defined.
+ */
+export function isReferenceDefined(reference: LabelReference, findSymbol: (moduleLabel: string) => IndexedSymbol | undefined): boolean {
+	for (const candidate of reference.candidates) {
+		if (findSymbol(candidate))
+			return true;
+	}
+	// Struct instance
+	if (reference.label.startsWith('.'))
+		return false;
+	for (const candidate of reference.candidates) {
+		const moduleLength = candidate.length - reference.label.length;
+		let k = candidate.lastIndexOf('.');
+		while (k > moduleLength) {
+			const prefix = candidate.substring(0, k);
+			const kind = findSymbol(prefix)?.kind;
+			if (kind == 'code' || kind == 'data')
+				return true;
+			k = prefix.lastIndexOf('.');
+		}
+	}
+	return false;
+}
+
+
+/**
+ * Returns the label definitions that need to be unique.
+ * Not included are:
+ * - constants that can be redefined (DEFL, '=')
+ * - labels inside MACROs (they are created for each macro call)
+ * - labels inside IF blocks (the branches might define the same label)
+ * - MODULEs (modules can be continued)
+ * @param lines The comment stripped lines of the file.
+ * @param symbols The symbols of the file.
+ * @param blocks The blocks of the file.
+ * @returns The symbols that need to be unique.
+ */
+export function getUniqueDefinitions(lines: string[], symbols: IndexedSymbol[], blocks: AsmBlock[]): IndexedSymbol[] {
+	const regexRedefinable = /^:?\s*(defl\b|=)/i;
+	return symbols.filter(symbol => {
+		if (symbol.kind == 'module')
+			return false;
+		if (symbol.kind == 'equ' && regexRedefinable.exec(lines[symbol.line].substring(symbol.end)))
+			return false;
+		return !isLineInsideBlocks(blocks, symbol.line, ['macro', 'if']);
+	});
+}
+
+
+/**
+ * Returns all labels that might be referenced in a file.
+ * Every word (except the label definitions) is taken as a reference.
+ * For each word all full labels it could refer to are returned, including
+ * the prefixes (e.g. "player" for "player.x", but not for local labels).
+ * Used to find labels without reference in one pass instead of searching
+ * each label separately.
+ * @param lines The comment stripped lines of the file.
+ * @param fileSymbols The symbols of the file.
+ * @returns A set with full labels (incl. module).
+ */
+export function findReferencedLabels(lines: string[], fileSymbols: FileSymbols): Set<string> {
+	const referenced = new Set<string>();
+	const regexName = /(?<![\w.$#%@'])@?[a-z_.][\w.]*/gi;
+	const {modStructInfos, symbols} = fileSymbols;
+	let modIndex = -1;
+	let module = '';
+	let symbolIndex = 0;
+	let nonLocalLabel = '';
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		// Update module and non-local label, remember the definitions
+		while (modIndex + 1 < modStructInfos.length && modStructInfos[modIndex + 1].row <= row) {
+			modIndex++;
+			module = modStructInfos[modIndex].label;
+		}
+		const definitionStarts: number[] = [];
+		while (symbolIndex < symbols.length && symbols[symbolIndex].line <= row) {
+			const symbol = symbols[symbolIndex++];
+			definitionStarts.push(symbol.start);
+			if (!symbol.local && (symbol.kind == 'code' || symbol.kind == 'data' || symbol.kind == 'equ'))
+				nonLocalLabel = symbol.moduleLabel;
+		}
+
+		// All words
+		regexName.lastIndex = 0;
+		let match;
+		while ((match = regexName.exec(lines[row]))) {
+			const start = match.index + (match[0].startsWith('@') ? 1 : 0);
+			if (definitionStarts.includes(start))
+				continue;
+			const label = match[0].replace(/\.$/, '');
+			for (const candidate of getLabelCandidates(label, module, nonLocalLabel)) {
+				referenced.add(candidate);
+				if (label.startsWith('.'))
+					continue;	// A local label does not reference its parent
+				let k = candidate.lastIndexOf('.');
+				while (k > 0) {
+					referenced.add(candidate.substring(0, k));
+					k = candidate.lastIndexOf('.', k - 1);
+				}
+			}
+		}
+	}
+	return referenced;
+}
@@ -0,0 +1,210 @@
+/**
+ * Functions to get the addresses out of list files and to map the list
+ * file lines to the source lines they were generated from.
+ * Supported are the formats of
+ * - sjasmplus: "  18   6000 00           screen_top: defb 0"
+ *   (included lines have a '+' after the line number, e.g. "21+  6005")
+ * - z88dk (z80asm): "    5  0000  3E 05        ld a,5"
+ * - list files that start with the address: "0025  FF FF FF   defb 0FFh"
+ *   (optionally followed by a segment/page suffix, e.g. "0025.R1a")
+ */
+
+import * as path from 'path';
+import {escapeRegex} from './dialects';
+
+
+/// Line number (with optional nesting chars), followed by the address.
+const regexLineNumberAddress = /^\s*\d+[+~]*\s+([0-9a-f]{4})\b/i;
+
+/// The address at the start of the line.
+const regexAddress = /^([0-9a-f]{4})(?:\.\w+)?(?:\s|:|$)/i;
+
+
+/**
+ * The columns of the line number, address and bytes of a list file line.
+ */
+export interface ListLinePrefix {
+	/// The start and end column of the address (if any).
+	address?: {start: number, end: number},
+	/// The start and end columns of the bytes.
+	bytes: {start: number, end: number}[],
+	/// The column after the address and the bytes. The source starts
+	/// here (after some whitespace).
+	sourceStart: number
+}
+
+
+/**
+ * Returns the address of a list file line.
+ * @param line The line of the list file, e.g. "  18   6000 00           screen_top: defb 0"
+ * @returns The address, e.g. 0x6000, or undefined if the line contains no address.
+ */
+export function parseListAddress(line: string): number | undefined {
+	const match = regexLineNumberAddress.exec(line) ?? regexAddress.exec(line);
+	if (!match)
+		return undefined;
+	return parseInt(match[1], 16);
+}
+
+
+/**
+ * Returns the columns of the line number, the address and the bytes.
+ * The bytes are 2 digit hex values separated by a single space.
+ * The first byte follows the address by 1 or 2 spaces. This way
+ * e.g. a "DEFB" or "db" in the source is not taken for a byte.
+ * @param line The line of the list file, e.g. "  18   6000 3E 05        ld a,5"
+ * @returns The columns. If the line has no address only the line number
+ * is skipped.
+ */
+export function parseListPrefix(line: string): ListLinePrefix {
+	const prefix: ListLinePrefix = {bytes: [], sourceStart: 0};
+	let k: number;
+	const match = regexLineNumberAddress.exec(line);
+	if (match) {
+		k = match[0].length;
+		prefix.address = {start: k - 4, end: k};
+	}
+	else {
+		const matchAddress = regexAddress.exec(line);
+		if (!matchAddress) {
+			// Line number only
+			const matchLineNumber = /^\s*\d+[+~]*(?=\s|$)/.exec(line);
+			if (matchLineNumber)
+				prefix.sourceStart = matchLineNumber[0].length;
+			return prefix;
+		}
+		prefix.address = {start: 0, end: 4};
+		k = matchAddress[0].trimEnd().length;	// Incl. suffix and colon
+	}
+
+	// Bytes
+	let regexByte = /^ {1,2}([0-9a-f]{2})(?=\s|$)/i;
+	let matchByte;
+	while ((matchByte = regexByte.exec(line.substring(k)))) {
+		const byteStart = k + matchByte[0].length - 2;
+		prefix.bytes.push({start: byteStart, end: byteStart + 2});
+		k = byteStart + 2;
+		regexByte = /^ ([0-9a-f]{2})(?=\s|$)/i;
+	}
+	prefix.sourceStart = k;
+	return prefix;
+}
+
+
+/**
+ * Formats an address as 4 digit hex value.
+ * @param address E.g. 0x8123.
+ * @param hexPrefix The prefix for hex values, e.g. '0x' or '$'.
+ * @returns E.g. "$8123"
+ */
+export function formatAddress(address: number, hexPrefix: string): string {
+	return hexPrefix + address.toString(16).toUpperCase().padStart(4, '0');
+}
+
+
+/**
+ * The source line a list file line was generated from.
+ */
+export interface ListSourceLine {
+	/// The source file as written in the "# file opened:" marker, e.g. "utilities.asm".
+	/// Undefined if the list file has no markers (e.g. z88dk).
+	file?: string,
+	/// The line number in the source file (starts at 0).
+	line: number
+}
+
+
+/**
+ * Returns the source line of each line of a list file.
+ * The line number is taken from the start of the list file line, the
+ * source file from the (nested) sjasmplus markers "# file opened: ..."
+ * and "# file closed: ...".
+ * Note: Macro expansions repeat the line number of the macro invocation.
+ * Use 'mapWordColumn' to check that the line contents match.
+ * @param lines The (original) lines of the list file.
+ * @returns An array with the same length as 'lines'. undefined for lines
+ * without line number (e.g. list files that start with the address).
+ */
+export function parseListSourceLines(lines: string[]): Array<ListSourceLine | undefined> {
+	const regexOpened = /^# file opened:\s*(.*?)\s*$/;
+	const regexClosed = /^# file closed:/;
+	const regexLineNumber = /^\s*(\d+)[+~]*(?=\s|$)/;
+	const files: string[] = [];
+	return lines.map(line => {
+		const matchOpened = regexOpened.exec(line);
+		if (matchOpened) {
+			files.push(matchOpened[1]);
+			return undefined;
+		}
+		if (regexClosed.exec(line)) {
+			files.pop();
+			return undefined;
+		}
+		// Lines that start with the address have no line number
+		if (!regexLineNumberAddress.exec(line) && regexAddress.exec(line))
+			return undefined;
+		const match = regexLineNumber.exec(line);
+		if (!match)
+			return undefined;
+		return {file: files[files.length - 1], line: parseInt(match[1]) - 1};
+	});
+}
+
+
+/**
+ * Checks if a source file is the one a list file line refers to.
+ * @param sourcePath The path of the source file, e.g. "/project/src/utilities.asm".
+ * @param listFilePath The path of the list file, e.g. "/project/out/main.list".
+ * @param file The source file of the "# file opened:" marker, e.g. "src/utilities.asm".
+ * If undefined the list file needs to have the same name as the source
+ * file (e.g. z88dk "utilities.lis" for "utilities.asm").
+ */
+export function isSourceOfListFile(sourcePath: string, listFilePath: string, file?: string): boolean {
+	if (file == undefined)
+		return path.parse(sourcePath).name == path.parse(listFilePath).name;
+	const normalize = (p: string) => p.replace(/\\/g, '/').replace(/^\.\//, '');
+	const source = normalize(sourcePath);
+	const marker = normalize(file);
+	return source == marker || source.endsWith('/' + marker);
+}
+
+
+/**
+ * Returns the start columns of all occurrences of a word.
+ * @param text The line.
+ * @param word The word, e.g. "init". Only complete words are found.
+ */
+export function findWordColumns(text: string, word: string): number[] {
+	const regex = new RegExp('\\b' + escapeRegex(word) + '\\b', 'g');
+	const columns: number[] = [];
+	let match;
+	while ((match = regex.exec(text)))
+		columns.push(match.index);
+	return columns;
+}
+
+
+/**
+ * Maps an occurrence of a word in a source line to the list file line
+ * (or vice versa).
+ * The list file line ends with the source line, so the occurrences are
+ * counted from the end of the line.
+ * @param fromLine The line that contains the occurrence.
+ * @param toLine The corresponding line in the other file.
+ * @param word The word, e.g. "init".
+ * @param column The start column of the occurrence in 'fromLine'.
+ * @returns The start column in 'toLine' or undefined if the line
+ * contents do not match.
+ */
+export function mapWordColumn(fromLine: string, toLine: string, word: string, column: number): number | undefined {
+	const from = fromLine.trim();
+	const to = toLine.trim();
+	if (!from.endsWith(to) && !to.endsWith(from))
+		return undefined;
+	const fromColumns = findWordColumns(fromLine, word);
+	const toColumns = findWordColumns(toLine, word);
+	const index = fromColumns.indexOf(column);
+	if (index < 0)
+		return undefined;
+	return toColumns[toColumns.length - fromColumns.length + index];
+}
@@ -0,0 +1,226 @@
+/**
+ * The macro model: parses the MACRO definitions (header and body) and
+ * the arguments of macro invocations and expands the macros.
+ * Supported headers are
+ * - sjasmplus: "name MACRO p1, p2" or "  MACRO name p1, p2"
+ * - z80asm: "name: MACRO p1, p2"
+ * - RASM: "MACRO name, p1, p2"
+ * - GNU as: ".macro name p1, p2"
+ */
+
+import {getInstruction, parseBlocks} from './asmblocks';
+import {defaultDialect, getDirectivesPattern} from './dialects';
+
+
+/**
+ * A macro definition.
+ */
+export interface MacroDefinition {
+	/// The name as written, e.g. "wait".
+	name: string,
+	/// The formal parameters, e.g. ["count", "color"].
+	params: string[],
+	/// The line of the MACRO header.
+	line: number,
+	/// The start column of the name:
+	start: number,
+	/// The end column of the name:
+	end: number,
+	/// The line of the ENDM.
+	endLine: number
+}
+
+
+/**
+ * An argument of a macro invocation.
+ */
+export interface MacroArgument {
+	/// The argument (trimmed), e.g. "5" or "<a, b>".
+	text: string,
+	/// The start column of the argument in the line.
+	start: number
+}
+
+
+/**
+ * Parses the macro definitions of a file.
+ * Only macros with a matching ENDM are returned.
+ * @param lines The comment stripped lines.
+ * @param dialect The assembler dialect. Defines the MACRO directives.
+ * @returns The macros, sorted by line.
+ */
+export function parseMacros(lines: string[], dialect = defaultDialect): MacroDefinition[] {
+	const pattern = getDirectivesPattern(dialect.macroDirectives);
+	const regexLabelMacro = new RegExp('^(@?([a-z_][\\w.]*):?\\s+)(?:' + pattern + ')\\b(.*)', 'i');
+	const regexMacroName = new RegExp('^(\\s+(?:' + pattern + ')\\s+)([a-z_][\\w.]*)(.*)', 'i');
+	const macros: MacroDefinition[] = [];
+	const {blocks} = parseBlocks(lines, dialect);
+	for (const block of blocks) {
+		if (block.kind != 'macro')
+			continue;
+		const line = lines[block.startLine];
+		let name: string;
+		let start: number;
+		let paramsText: string;
+		const matchLabel = regexLabelMacro.exec(line);
+		if (matchLabel) {
+			name = matchLabel[2];
+			start = line.indexOf(name);
+			paramsText = matchLabel[3];
+		}
+		else {
+			const matchName = regexMacroName.exec(line);
+			if (!matchName)
+				continue;
+			name = matchName[2];
+			start = matchName[1].length;
+			paramsText = matchName[3];
+		}
+		const params = paramsText.split(',').map(param => param.trim()).filter(param => param);
+		macros.push({name, params, line: block.startLine, start, end: start + name.length, endLine: block.endLine});
+	}
+	return macros;
+}
+
+
+/**
+ * Returns the macro whose body contains the line.
+ * @param macros The macros of the file.
+ * @param line The line number.
+ */
+export function getMacroAt(macros: MacroDefinition[], line: number): MacroDefinition | undefined {
+	return macros.find(macro => macro.line < line && line < macro.endLine);
+}
+
+
+/**
+ * Returns the signature of a macro.
+ * @param macro The macro.
+ * @returns E.g. "wait count, color".
+ */
+export function formatMacroSignature(macro: MacroDefinition): string {
+	return macro.name + (macro.params.length ? ' ' + macro.params.join(', ') : '');
+}
+
+
+/**
+ * Returns the invocation at a line, i.e. the name and the start of the arguments.
+ * @param line The comment stripped line, e.g. "label: wait 5, 2".
+ * @param dialect The assembler dialect.
+ * @returns The name (e.g. "wait") and the column after the name.
+ * undefined if the line contains no instruction.
+ */
+export function getInvocation(line: string, dialect = defaultDialect): {name: string, start: number, argsStart: number} | undefined {
+	const instr = getInstruction(line, dialect);
+	if (!instr)
+		return undefined;
+	return {name: instr.instruction, start: instr.start, argsStart: instr.start + instr.instruction.length};
+}
+
+
+/**
+ * Splits the arguments of a macro invocation at the commas.
+ * Commas inside parentheses, quotes or angle brackets (sjasmplus) do not split.
+ * A '<' is an angle bracket only at the start of an argument, otherwise it
+ * is an operator, e.g. in "a<<2" or "x < y".
+ * @param line The line (comments need to be stripped but the strings not blanked).
+ * @param argsStart The column where the arguments start.
+ * @param argsEnd The column where the arguments end. Defaults to the end of the line.
+ * @returns The arguments.
+ */
+export function splitMacroArguments(line: string, argsStart: number, argsEnd = line.length): MacroArgument[] {
+	const args: MacroArgument[] = [];
+	let depth = 0;
+	let quote: string | undefined;
+	let angle = false;
+	let start = argsStart;
+	const addArgument = (end: number) => {
+		const text = line.substring(start, end);
+		const trimmed = text.trim();
+		args.push({text: trimmed, start: start + text.length - text.trimStart().length});
+	};
+	for (let k = argsStart; k < argsEnd; k++) {
+		const char = line[k];
+		if (quote) {
+			if (char == quote)
+				quote = undefined;
+		}
+		else if (angle) {
+			if (char == '>')
+				angle = false;
+		}
+		else if (char == '"' || char == "'") {
+			quote = char;
+		}
+		else if (char == '<' && !line.substring(start, k).trim()) {
+			angle = true;
+		}
+		else if (char == '(') {
+			depth++;
+		}
+		else if (char == ')' && depth > 0) {
+			depth--;
+		}
+		else if (char == ',' && depth == 0) {
+			addArgument(k);
+			start = k + 1;
+		}
+	}
+	addArgument(argsEnd);
+	// No arguments at all
+	if (args.length == 1 && !args[0].text)
+		return [];
+	return args;
+}
+
+
+/**
+ * Returns the index of the argument at a column.
+ * @param line The line.
+ * @param argsStart The column where the arguments start.
+ * @param column The column (e.g. of the cursor).
+ * @returns The index of the argument, i.e. the number of separating commas before the column.
+ */
+export function getActiveArgument(line: string, argsStart: number, column: number): number {
+	return Math.max(splitMacroArguments(line, argsStart, column).length - 1, 0);
+}
+
+
+/**
+ * Expands a macro, i.e. replaces the parameters in the body with the arguments.
+ * Parameters are replaced only outside of strings and comments.
+ * Missing arguments are replaced by an empty string.
+ * Arguments in angle brackets are used without the brackets.
+ * @param macro The macro definition.
+ * @param origLines The original lines of the file with the macro.
+ * @param lines The comment stripped lines of the file with the macro.
+ * @param args The arguments of the invocation.
+ * @returns The expanded body lines.
+ */
+export function expandMacro(macro: MacroDefinition, origLines: string[], lines: string[], args: string[]): string[] {
+	const values = new Map<string, string>();
+	macro.params.forEach((param, i) => {
+		const arg = args[i] ?? '';
+		values.set(param, /^<.*>$/.exec(arg) ? arg.substring(1, arg.length - 1) : arg);
+	});
+	const expanded: string[] = [];
+	const regexWord = /[\w.]+/g;
+	for (let row = macro.line + 1; row < macro.endLine; row++) {
+		const stripped = lines[row];
+		let line = origLines[row];
+		// Collect the replacements (from the stripped line)
+		const replacements: {start: number, end: number, value: string}[] = [];
+		regexWord.lastIndex = 0;
+		let match;
+		while ((match = regexWord.exec(stripped))) {
+			const value = values.get(match[0]);
+			if (value != undefined)
+				replacements.push({start: match.index, end: match.index + match[0].length, value});
+		}
+		// Replace from the end
+		for (const {start, end, value} of replacements.reverse())
+			line = line.substring(0, start) + value + line.substring(end);
+		expanded.push(line);
+	}
+	return expanded;
+}
@@ -0,0 +1,50 @@
+/**
+ * Lists of the Z80 instructions, registers and assembler directives.
+ * Used to distinguish label references from other words.
+ * All entries are lower case.
+ */
+
+
+/// The Z80 instructions (incl. the undocumented SLL and its other names).
+export const z80Mnemonics = new Set<string>([
+	'adc', 'add', 'and', 'bit', 'call', 'ccf', 'cp', 'cpd', 'cpdr', 'cpi', 'cpir', 'cpl',
+	'daa', 'dec', 'di', 'djnz', 'ei', 'ex', 'exx', 'halt', 'im', 'in', 'inc', 'ind', 'indr',
+	'ini', 'inir', 'jp', 'jr', 'ld', 'ldd', 'lddr', 'ldi', 'ldir', 'neg', 'nop', 'or', 'otdr',
+	'otir', 'out', 'outd', 'outi', 'pop', 'push', 'res', 'ret', 'reti', 'retn', 'rl', 'rla',
+	'rlc', 'rlca', 'rld', 'rr', 'rra', 'rrc', 'rrca', 'rrd', 'rst', 'sbc', 'scf', 'set',
+	'sla', 'sll', 'slia', 'sl1', 'sra', 'srl', 'sub', 'xor'
+]);
+
+
+/// The additional instructions of the ZX Next (Z80N) (incl. SWAP, another name for SWAPNIB).
+export const z80nMnemonics = new Set<string>([
+	'brlc', 'bsla', 'bsra', 'bsrf', 'bsrl', 'jp', 'ldirx', 'ldix', 'ldpirx', 'lddrx', 'lddx',
+	'ldws', 'mirror', 'mul', 'nextreg', 'outinb', 'pixelad', 'pixeldn', 'setae', 'swap', 'swapnib', 'test'
+]);
+
+
+/// Directives that define data or constants.
+export const dataDirectives = new Set<string>([
+	'db', 'defb', 'dw', 'defw', 'dd', 'defd', 'dword', 'd24', 'dm', 'defm', 'dz', 'ds', 'defs',
+	'block', 'byte', 'word', 'equ', 'defl', 'org'
+]);
+
+
+/// The Z80 registers (incl. the undocumented 8 bit index registers).
+export const registers = new Set<string>([
+	'a', 'b', 'c', 'd', 'e', 'h', 'l', 'i', 'r', 'f',
+	'af', 'bc', 'de', 'hl', 'ix', 'iy', 'sp', 'pc',
+	'ixh', 'ixl', 'iyh', 'iyl', 'xh', 'xl', 'yh', 'yl', 'hx', 'lx', 'hy', 'ly'
+]);
+
+
+/// The conditions for JP, JR, CALL and RET.
+export const conditions = new Set<string>([
+	'nz', 'z', 'nc', 'c', 'po', 'pe', 'p', 'm'
+]);
+
+
+/// Operators and functions that can be written as words inside expressions.
+export const expressionKeywords = new Set<string>([
+	'low', 'high', 'not', 'mod', 'and', 'or', 'xor', 'shl', 'shr', 'sizeof', 'abs'
+]);
@@ -0,0 +1,261 @@
+/**
+ * Number literals in the assembler source and their conversion between
+ * the formats:
+ * - decimal: 255
+ * - hex: $FF, #FF, 0xFF, 0FFh
+ * - binary: %11111111, 0b11111111, 11111111b
+ * - octal: 377o, 377q (only converted from)
+ * - character: 'A'
+ * The literals are searched in the comment stripped lines, so numbers in
+ * comments and strings are not found.
+ */
+
+import {parseNumber} from './expression';
+import {TempLabel, getTempLabelAt, resolveTempLabel} from './templabels';
+
+
+/**
+ * The format of a number literal.
+ */
+export type NumberFormat = 'decimal' | 'hex' | 'binary' | 'octal' | 'char';
+
+/**
+ * The styles for hex numbers: prefix or 'h' suffix.
+ */
+export type HexStyle = '$' | '#' | '0x' | 'h';
+
+/**
+ * The styles for binary numbers: prefix or 'b' suffix.
+ */
+export type BinaryStyle = '%' | '0b' | 'b';
+
+
+/**
+ * A number literal in a line.
+ */
+export interface NumberLiteral {
+	/// The format, e.g. 'hex'.
+	format: NumberFormat,
+	/// The literal as written, e.g. "$FF".
+	text: string,
+	/// The value, e.g. 255.
+	value: number,
+	/// The start column:
+	start: number,
+	/// The end column (exclusive):
+	end: number
+}
+
+
+/**
+ * A conversion of a literal into another format.
+ */
+export interface NumberConversion {
+	/// The format of the result.
+	format: NumberFormat,
+	/// The converted literal, e.g. "0FFh".
+	text: string
+}
+
+
+/// The number literals, the group index is the format.
+/// A literal must not be part of a label (e.g. "label1") or follow an
+/// operator character that belongs to the number (e.g. "%" in "5%10").
+const regexNumberLiterals = /(?<![\w$#%.)])(?:((?:0x|\$|#)[0-9a-f]+)|((?:0b|%)[01]+)|([0-9][0-9a-f]*h)|([01]+b)|(0q[0-7]+|[0-7]+[oq])|([0-9]+))(?![\w$])/gi;
+
+/// The formats of the groups of regexNumberLiterals.
+const groupFormats: NumberFormat[] = ['hex', 'binary', 'hex', 'binary', 'octal', 'decimal'];
+
+/// A character literal, e.g. 'A' or '\n'.
+const regexCharLiteral = /'(?:[^'\\]|\\.)'/g;
+
+
+/**
+ * Searches the number literals in a line.
+ * @param line The comment stripped line. Quoted text is blanked out.
+ * @param origLine The original line. Used to find the character literals.
+ * @returns The literals sorted by column.
+ */
+export function findNumberLiterals(line: string, origLine = line): NumberLiteral[] {
+	const literals: NumberLiteral[] = [];
+
+	// Numbers
+	regexNumberLiterals.lastIndex = 0;
+	let match;
+	while ((match = regexNumberLiterals.exec(line))) {
+		const text = match[0];
+		const group = match.findIndex((m, i) => i > 0 && m != undefined);
+		const value = parseNumber(text);
+		if (value == undefined)
+			continue;
+		literals.push({format: groupFormats[group - 1], text, value, start: match.index, end: match.index + text.length});
+	}
+
+	// Characters: quoted text in the original line that is blanked out in
+	// the stripped line
+	regexCharLiteral.lastIndex = 0;
+	while ((match = regexCharLiteral.exec(origLine))) {
+		const start = match.index;
+		const text = match[0];
+		const end = start + text.length;
+		if (end > line.length || line.substring(start, end).trim())
+			continue;
+		const value = getCharValue(text.substring(1, text.length - 1));
+		if (value != undefined)
+			literals.push({format: 'char', text, value, start, end});
+	}
+
+	return literals.sort((a, b) => a.start - b.start);
+}
+
+
+/**
+ * Removes the literals that are temporary labels, e.g. "1" or "1B" that
+ * look like numbers. References are only removed if they resolve to a
+ * definition, so e.g. "0101b" stays a binary number.
+ * @param literals The literals of the line.
+ * @param tempLabels The temporary labels of the file.
+ * @param row The line number.
+ * @returns The remaining literals.
+ */
+export function removeTempLabels(literals: NumberLiteral[], tempLabels: TempLabel[], row: number): NumberLiteral[] {
+	return literals.filter(literal => {
+		const tempLabel = getTempLabelAt(tempLabels, row, literal.start);
+		return !tempLabel || !resolveTempLabel(tempLabels, tempLabel);
+	});
+}
+
+
+/**
+ * Returns the value of the character of a character literal.
+ * @param char E.g. "A" or "\n".
+ * @returns E.g. 65 or undefined for unknown escape sequences.
+ */
+function getCharValue(char: string): number | undefined {
+	if (char.length == 1)
+		return char.charCodeAt(0);
+	const escapes: {[key: string]: number} = {n: 10, r: 13, t: 9, '0': 0, '\\': 92, "'": 39, '"': 34};
+	return escapes[char[1]];
+}
+
+
+/**
+ * Returns the literal at a column.
+ * @param literals The literals of the line.
+ * @param column The column, e.g. of the cursor.
+ * @returns The literal that contains the column (or ends at it) or undefined.
+ */
+export function getNumberLiteralAt(literals: NumberLiteral[], column: number): NumberLiteral | undefined {
+	return literals.find(literal => literal.start <= column && column <= literal.end);
+}
+
+
+/**
+ * Returns the number of digits of a hex or binary literal.
+ * A leading 0 that is required for the 'h' suffix (e.g. "0FFh") is not counted.
+ * @param literal The literal.
+ * @returns The count or undefined for other formats.
+ */
+export function getDigitCount(literal: NumberLiteral): number | undefined {
+	let digits: string;
+	if (literal.format == 'hex' && /h$/i.test(literal.text))
+		digits = literal.text.replace(/h$/i, '').replace(/^0(?=[a-f])/i, '');
+	else if (literal.format == 'hex')
+		digits = literal.text.replace(/^(?:0x|\$|#)/i, '');
+	else if (literal.format == 'binary')
+		digits = literal.text.replace(/^(?:0b|%)|b$/gi, '');
+	else
+		return undefined;
+	return digits.length;
+}
+
+
+/**
+ * Formats a value as hex literal.
+ * @param value The value, e.g. 255.
+ * @param style The prefix or suffix.
+ * @param minDigits The min. number of digits. If omitted an even number
+ * of digits is used.
+ * @returns E.g. "$FF" or "0FFh".
+ */
+export function formatHex(value: number, style: HexStyle, minDigits?: number): string {
+	let digits = value.toString(16).toUpperCase();
+	digits = digits.padStart(minDigits ?? (digits.length + digits.length % 2), '0');
+	if (style == 'h')
+		return (/^[A-F]/.test(digits) ? '0' : '') + digits + 'h';
+	return style + digits;
+}
+
+
+/**
+ * Formats a value as binary literal.
+ * @param value The value, e.g. 5.
+ * @param style The prefix or suffix.
+ * @param minDigits The min. number of digits. If omitted a multiple of 8
+ * is used.
+ * @returns E.g. "%00000101" or "00000101b".
+ */
+export function formatBinary(value: number, style: BinaryStyle, minDigits?: number): string {
+	let digits = value.toString(2);
+	digits = digits.padStart(minDigits ?? Math.ceil(digits.length / 8) * 8, '0');
+	if (style == 'b')
+		return digits + 'b';
+	return style + digits;
+}
+
+
+/**
+ * Formats a value as character literal.
+ * @param value The value, e.g. 65.
+ * @returns E.g. "'A'" or undefined if the value is no printable ASCII
+ * character (or a quote or backslash).
+ */
+export function formatChar(value: number): string | undefined {
+	if (value < 0x20 || value > 0x7E)
+		return undefined;
+	const char = String.fromCharCode(value);
+	if (char == "'" || char == '\\')
+		return undefined;
+	return "'" + char + "'";
+}
+
+
+/**
+ * Returns the conversions of a literal into the other formats.
+ * @param literal The literal.
+ * @param hexStyle The preferred hex style.
+ * @param binaryStyle The preferred binary style.
+ * @returns Decimal, hex, binary and character conversions. Conversions
+ * that are equal to the literal are omitted.
+ */
+export function getNumberConversions(literal: NumberLiteral, hexStyle: HexStyle, binaryStyle: BinaryStyle): NumberConversion[] {
+	const conversions: NumberConversion[] = [
+		{format: 'decimal', text: literal.value.toString()},
+		{format: 'hex', text: formatHex(literal.value, hexStyle)},
+		{format: 'binary', text: formatBinary(literal.value, binaryStyle)}
+	];
+	const char = formatChar(literal.value);
+	if (char)
+		conversions.push({format: 'char', text: char});
+	return conversions.filter(conversion => conversion.text != literal.text);
+}
+
+
+/**
+ * Normalizes a literal to the preferred style.
+ * Only hex and binary literals are changed, the number of digits is kept.
+ * @param literal The literal, e.g. "#0F".
+ * @param hexStyle The preferred hex style, e.g. '$'.
+ * @param binaryStyle The preferred binary style.
+ * @returns The new literal, e.g. "$0F", or undefined if unchanged.
+ */
+export function normalizeNumberLiteral(literal: NumberLiteral, hexStyle: HexStyle, binaryStyle: BinaryStyle): string | undefined {
+	let text: string;
+	if (literal.format == 'hex')
+		text = formatHex(literal.value, hexStyle, getDigitCount(literal));
+	else if (literal.format == 'binary')
+		text = formatBinary(literal.value, binaryStyle, getDigitCount(literal));
+	else
+		return undefined;
+	return (text != literal.text) ? text : undefined;
+}
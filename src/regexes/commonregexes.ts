@@ -1,5 +1,6 @@
 import { AllowedLanguageIds } from './../languageId';
 import { RegexIndexOf, RegexTwo } from './extendedregex';
+import { Dialect, defaultDialect, escapeRegex } from '../dialects';
 
 
 
@@ -19,13 +20,15 @@ export class CommonRegexes {
      * Used by findLabelsWithNoReference, provideCodeLenses.
 	 * @param languageId either "asm-collection" or "asm-list-file".
 	 * A different regex is returned dependent on languageId.
+	 * @param globalPrefix The global label prefix of the dialect, e.g. "@".
      */
-    public static regexLabelColon(languageId: AllowedLanguageIds): RegExp {
+    public static regexLabelColon(languageId: AllowedLanguageIds, globalPrefix = '@'): RegExp {
+        const prefix = globalPrefix ? escapeRegex(globalPrefix) + '?' : '';
         if (languageId == 'asm-list-file') {
-            return new RegexIndexOf(':', /(^[^#]*\s@?)([a-z_][\w\.]*):/i);
+            return new RegexIndexOf(':', new RegExp('(^[^#]*\\s' + prefix + ')([a-z_][\\w\\.]*):', 'i'));
         }
 		// "asm-collection"
-        return /(^@?)\b([a-z_][\w\.]*):/i;
+        return new RegExp('(^' + prefix + ')\\b([a-z_][\\w\\.]*):', 'i');
     }
 
 
@@ -39,9 +42,35 @@ export class CommonRegexes {
      *  1 = ''
      *  2 = the label itself e.g. "init.label_1"
      * Used by findLabelsWithNoReference, provideCodeLenses.
+	 * @param globalPrefix The global label prefix of the dialect, e.g. "@".
+	 * @param directives Directives that are no labels even at the start
+	 * of the line, e.g. "endm".
      */
-    public static regexLabelWithoutColon(): RegExp {
-        return /^(@?)([a-z_][\w\.]*)(?:\s|$)/i;
+    public static regexLabelWithoutColon(globalPrefix = '@', directives: string[] = []): RegExp {
+        const prefix = globalPrefix ? escapeRegex(globalPrefix) + '?' : '';
+        const exclude = (directives.length > 0) ? '(?!(?:' + directives.map(escapeRegex).join('|') + ')(?:\\s|$))' : '';
+        return new RegExp('^(' + prefix + ')' + exclude + '([a-z_][\\w\\.]*)(?:\\s|$)', 'i');
+    }
+
+
+    /**
+     * Checks for a local label, i.e. a label starting with a dot.
+     * E.g. ".loop:" or ".loop" (asm files only).
+     * Capture groups:
+     *  1 = preceding spaces (and other chars in case of list file)
+     *  2 = the local label itself including the dot, e.g. ".loop"
+     * Used by the symbol index.
+	 * @param languageId either "asm-collection" or "asm-list-file".
+	 * A different regex is returned dependent on languageId.
+	 * @param prefix The local label prefix of the dialect.
+     */
+    public static regexLocalLabel(languageId: AllowedLanguageIds, prefix = '.'): RegExp {
+        const escaped = escapeRegex(prefix);
+        if (languageId == 'asm-list-file') {
+            return new RegexIndexOf(prefix, new RegExp('(^[^#]*\\s)(' + escaped + '[a-z_]\\w*):', 'i'));
+        }
+		// "asm-collection"
+        return new RegExp('^()(' + escaped + '[a-z_]\\w*)(?::|\\s|$)', 'i');
     }
 
 
@@ -51,17 +80,21 @@ export class CommonRegexes {
      * @param labelsWithoutColons Add regex without colons
 	 * @param languageId either "asm-collection" or "asm-list-file".
 	 * A different regex is returned dependent on languageId.
+	 * @param dialect The assembler dialect. Defines the global label prefix
+	 * and the MODULE and MACRO directives that are no labels.
      */
-    public static regexesLabel(cfg: {labelsWithColons: boolean, labelsWithoutColons: boolean}, languageId: AllowedLanguageIds): RegExp[] {
+    public static regexesLabel(cfg: {labelsWithColons: boolean, labelsWithoutColons: boolean}, languageId: AllowedLanguageIds, dialect: Dialect = defaultDialect): RegExp[] {
         const regexes: RegExp[] = [];
+        const globalPrefix = dialect.globalLabelPrefix ?? '';
         // Find all "some.thing:" (labels) in the document
         if (cfg.labelsWithColons) {
-            const searchRegex = CommonRegexes.regexLabelColon(languageId);
+            const searchRegex = CommonRegexes.regexLabelColon(languageId, globalPrefix);
             regexes.push(searchRegex);
         }
         // Find all sjasmplus labels without ":" in the document
         if (cfg.labelsWithoutColons && languageId == "asm-collection") {
-            const searchRegex2 = CommonRegexes.regexLabelWithoutColon();
+            const {moduleDirectives, endModuleDirectives, macroDirectives, endMacroDirectives} = dialect;
+            const searchRegex2 = CommonRegexes.regexLabelWithoutColon(globalPrefix, [...moduleDirectives, ...endModuleDirectives, ...macroDirectives, ...endMacroDirectives]);
             regexes.push(searchRegex2);
         }
         return regexes;
@@ -81,24 +114,48 @@ export class CommonRegexes {
     }
 
 
+    /**
+     * Checks for an INCLUDE or INCBIN directive.
+     * E.g. 'include "something"', ' incbin "data.bin",0,10' or
+     * ' include <lib.asm>'.
+     * Capture groups:
+     *  1 = preceding characters (incl. the quote)
+     *  2 = the directive, e.g. 'include' or 'incbin'
+     *  3 = what is included, i.e. what is inside the quotes
+     * Used by the include graph.
+     * @param directives The include directives of the dialect.
+     */
+    public static regexIncludeDirective(directives = ['include', 'incbin', 'binary', 'insert']): RegExp {
+        const pattern = directives.map(escapeRegex).join('|');
+        return new RegexTwo(new RegExp('(' + pattern + ')', 'i'), new RegExp('^(.*?(?:^|\\s)(' + pattern + ')\\s+["\'<])([^"\'>]*)["\'>]', 'i'));
+    }
+
+
     /**
      * Checks for a MODULE or STRUCT directive.
+     * Capture groups:
+     *  1 = the directive, e.g. 'MODULE'
+     *  2 = the name
      * Used by getModule.
+     * @param moduleDirectives The module directives of the dialect.
      */
-    public static regexModuleStruct(): RegExp {
+    public static regexModuleStruct(moduleDirectives = ['module']): RegExp {
         //return /^\s+(MODULE|STRUCT)\s+([\w\.]+)/i;
         //return /^.*\s(MODULE|STRUCT)\s+([\w\.]+)/i;
-        return new RegexTwo(/(MODULE|STRUCT)/i, /^.*\s(MODULE|STRUCT)\s+([\w\.]+)/i);
+        const pattern = [...moduleDirectives, 'struct'].map(escapeRegex).join('|');
+        return new RegexTwo(new RegExp('(' + pattern + ')', 'i'), new RegExp('^.*\\s(' + pattern + ')\\s+([\\w\\.]+)', 'i'));
     }
 
 
     /**
      * Checks for a ENDMODULE or ENDS directive.
      * Used by getModule.
+     * @param endModuleDirectives The end module directives of the dialect.
      */
-    public static regexEndModuleStruct(): RegExp {
+    public static regexEndModuleStruct(endModuleDirectives = ['endmodule']): RegExp {
         //return /^.*?\s+(ENDMODULE|ENDS)\b/i;
-        return new RegexTwo(/(ENDMODULE|ENDS)/i, /^.*\s(ENDMODULE|ENDS)\b/i);
+        const pattern = [...endModuleDirectives, 'ends'].map(escapeRegex).join('|');
+        return new RegexTwo(new RegExp('(' + pattern + ')', 'i'), new RegExp('^.*\\s(' + pattern + ')\\b', 'i'));
     }
 
 
@@ -1,4 +1,5 @@
 import { AllowedLanguageIds } from './../languageId';
+import { escapeRegex } from '../dialects';
 
 
 /**
@@ -53,9 +54,16 @@ export class DocSymbolRegexes {
 	 * Capture groups for " ENDMODULE"
 	 * 1 = "ENDMODULE"
 	 * Note: The same regex can be returned for asm and list files.
+	 * @param moduleDirectives The module directives of the dialect.
+	 * @param endModuleDirectives The end module directives of the dialect.
+	 * @returns undefined if the dialect has no modules.
 	 */
-	public static regexModuleLabel(): RegExp {
-		return /\b(module\s+([a-z_][\w\.]*)|endmodule.*)/i;
+	public static regexModuleLabel(moduleDirectives = ['module'], endModuleDirectives = ['endmodule']): RegExp | undefined {
+		if (moduleDirectives.length == 0)
+			return undefined;
+		const open = moduleDirectives.map(escapeRegex).join('|');
+		const close = endModuleDirectives.map(escapeRegex).join('|');
+		return new RegExp('(?<![\\w.])((?:' + open + ')\\s+([a-z_][\\w\\.]*)|(?:' + close + ').*)', 'i');
 	}
 
 
@@ -100,11 +108,12 @@ export class DocSymbolRegexes {
 	 * 1 = "MACRO"
 	 * 2 = "label"
 	 * Note: For list files undefined is returned.
+	 * @param macroDirectives The macro directives of the dialect.
 	 */
-	public static regexMacro(languageId: AllowedLanguageIds): RegExp | undefined {
-		if (languageId === 'asm-list-file')
+	public static regexMacro(languageId: AllowedLanguageIds, macroDirectives = ['macro']): RegExp | undefined {
+		if (languageId === 'asm-list-file' || macroDirectives.length == 0)
 			return undefined;
-		return /\b(macro)\s+(.*)/i;
+		return new RegExp('(?<![\\w.])(' + macroDirectives.map(escapeRegex).join('|') + ')\\s+(.*)', 'i');
 	}
 }
 
@@ -0,0 +1,119 @@
+/**
+ * Checks used before renaming a label:
+ * - the word to rename needs to be a label, MODULE, STRUCT or MACRO name,
+ *   not an instruction, register or directive
+ * - the new name needs to be a valid label for the dialect
+ * - the renamed label must not collide with an existing label.
+ */
+
+import {Dialect} from './dialects';
+import {getCompleteLabel} from './grepextra';
+import {getLabelCandidates, getLabelContext} from './labelcheck';
+import {conditions, expressionKeywords, registers, z80Mnemonics, z80nMnemonics} from './mnemonics';
+import {FileSymbols, IndexedSymbol} from './symbolparser';
+
+
+/**
+ * Checks if a word is an instruction, register, condition or directive
+ * of the dialect.
+ * @param word E.g. "ld", "HL" or "ENDM". Case insensitive.
+ * @param dialect The assembler dialect.
+ */
+export function isReservedWord(word: string, dialect: Dialect): boolean {
+	const lower = word.toLowerCase();
+	if (dialect.z80) {
+		if (z80Mnemonics.has(lower) || z80nMnemonics.has(lower) || registers.has(lower) || conditions.has(lower))
+			return true;
+	}
+	if (expressionKeywords.has(lower))
+		return true;
+	const withoutDot = lower.replace(/^\./, '');
+	return dialect.keywords.some(keyword => keyword.toLowerCase().replace(/^\./, '') == withoutDot);
+}
+
+
+/**
+ * Checks the new name of a rename.
+ * Only the word under the cursor is renamed, e.g. "loop" of ".loop" or
+ * "init" of "audio.init". So the new name is a single label part.
+ * @param newName The new name entered by the user.
+ * @param dialect The assembler dialect.
+ * @returns An error message or undefined if the name is valid.
+ */
+export function checkNewName(newName: string, dialect: Dialect): string | undefined {
+	if (!newName)
+		return "The new name is empty.";
+	if (newName.includes('.'))
+		return "The new name must not contain a '.'. Only the part of the label under the cursor is renamed.";
+	if (!/^[a-z_]\w*$/i.test(newName))
+		return "'" + newName + "' is no valid label name.";
+	if (isReservedWord(newName, dialect))
+		return "'" + newName + "' is an instruction, register or directive of " + dialect.name + ".";
+	return undefined;
+}
+
+
+/**
+ * Returns the symbol a word refers to: either the symbol defined at the
+ * position or the symbol the label at the position resolves to
+ * (module prefixes and local labels are taken into account).
+ * @param lines The comment stripped lines of the file.
+ * @param fileSymbols The symbols of the file.
+ * @param row The line of the position.
+ * @param column The column of the position.
+ * @param findSymbol Returns the symbol for a full label (incl. module) or
+ * undefined if not defined. Needs to include MODULE and STRUCT names.
+ * @returns The symbol or undefined if the word is no (defined) label.
+ */
+export function resolveRenameTarget(lines: string[], fileSymbols: FileSymbols, row: number, column: number, findSymbol: (moduleLabel: string) => IndexedSymbol | undefined): IndexedSymbol | undefined {
+	// Definition
+	const definition = fileSymbols.symbols.find(s => s.line == row && s.start <= column && column <= s.end);
+	if (definition)
+		return definition;
+
+	// Reference, e.g. "audio" of "audio.init" or "audio.init"
+	const line = lines[row] ?? '';
+	const {label} = getCompleteLabel(line, column, /\w/);
+	if (!label || /^\.?\d/.test(label))
+		return undefined;
+	const {module, nonLocalLabel} = getLabelContext(fileSymbols, row);
+	for (const candidate of getLabelCandidates(label, module, nonLocalLabel)) {
+		const symbol = findSymbol(candidate);
+		if (symbol)
+			return symbol;
+	}
+	return undefined;
+}
+
+
+/**
+ * Returns the full label after the rename.
+ * @param moduleLabel The full label of the renamed symbol, e.g. "audio.init.loop".
+ * @param newName The new name of the last part, e.g. "next".
+ * @returns E.g. "audio.init.next".
+ */
+export function getRenamedLabel(moduleLabel: string, newName: string): string {
+	const k = moduleLabel.lastIndexOf('.');
+	return moduleLabel.substring(0, k + 1) + newName;
+}
+
+
+/**
+ * Searches for a symbol that would collide with the renamed one.
+ * Renaming a MODULE or a non-local label renames also the labels inside
+ * (e.g. "audio.init" or "init.loop"), so these are checked as well.
+ * @param symbols All symbols in the scope of the renamed symbol.
+ * @param oldLabel The full label before the rename, e.g. "audio.init".
+ * @param newLabel The full label after the rename, e.g. "audio.start".
+ * @returns The existing symbol that collides or undefined.
+ */
+export function findRenameConflict(symbols: IndexedSymbol[], oldLabel: string, newLabel: string): IndexedSymbol | undefined {
+	if (oldLabel == newLabel)
+		return undefined;
+	const renamed = new Set<string>([newLabel]);
+	for (const symbol of symbols) {
+		if (symbol.moduleLabel.startsWith(oldLabel + '.'))
+			renamed.add(newLabel + symbol.moduleLabel.substring(oldLabel.length));
+	}
+	return symbols.find(symbol => renamed.has(symbol.moduleLabel));
+}
@@ -0,0 +1,307 @@
+/**
+ * Computes the semantic tokens of a file, i.e. the information that
+ * the TextMate grammar cannot know: if a word is a code label, a local
+ * label, a constant, a macro, a struct (field) or a module.
+ * For list files the address and byte columns are separated from the
+ * source.
+ */
+
+import {AsmBlock, getInstruction, isLineInsideBlocks, parseBlocks} from './asmblocks';
+import {Dialect, defaultDialect} from './dialects';
+import {isDirective} from './instructiondocs';
+import {findLabelReferences, getLabelCandidates} from './labelcheck';
+import {parseListPrefix} from './listfile';
+import {dataDirectives, z80Mnemonics, z80nMnemonics} from './mnemonics';
+import {FileSymbols, IndexedSymbol} from './symbolparser';
+
+
+/// The token types. The index is used in the vscode legend.
+export const tokenTypes = ['namespace', 'struct', 'macro', 'function', 'label', 'variable', 'property', 'number', 'keyword'];
+
+/// The token modifiers. The index is used in the vscode legend.
+export const tokenModifiers = ['declaration', 'readonly', 'local'];
+
+
+/**
+ * A semantic token.
+ */
+export interface SemanticToken {
+	/// The line number:
+	line: number,
+	/// The start column:
+	start: number,
+	/// The length:
+	length: number,
+	/// One of 'tokenTypes'.
+	type: string,
+	/// Some of 'tokenModifiers'.
+	modifiers: string[]
+}
+
+
+/**
+ * Returns the token type and modifiers for a symbol.
+ * @param symbol The symbol definition.
+ * @param isField true if the symbol is a field of a STRUCT.
+ */
+function getSymbolToken(symbol: IndexedSymbol, isField: boolean): {type: string, modifiers: string[]} {
+	const modifiers = symbol.local ? ['local'] : [];
+	switch (symbol.kind) {
+		case 'module': return {type: 'namespace', modifiers};
+		case 'struct': return {type: 'struct', modifiers};
+		case 'macro': return {type: 'macro', modifiers};
+		case 'equ': return {type: 'variable', modifiers: [...modifiers, 'readonly']};
+	}
+	if (isField)
+		return {type: 'property', modifiers};
+	if (symbol.kind == 'data')
+		return {type: 'variable', modifiers};
+	return {type: symbol.local ? 'label' : 'function', modifiers};
+}
+
+
+/**
+ * Checks if a symbol is the field of a STRUCT, i.e. the parent
+ * of its full label is a struct.
+ * @param symbol The symbol.
+ * @param findSymbol Returns the symbol for a full label.
+ */
+function isStructField(symbol: IndexedSymbol, findSymbol: (moduleLabel: string) => IndexedSymbol | undefined): boolean {
+	const k = symbol.moduleLabel.lastIndexOf('.');
+	if (k < 0)
+		return false;
+	return findSymbol(symbol.moduleLabel.substring(0, k))?.kind == 'struct';
+}
+
+
+/**
+ * Converts the lines of a list file into source lines, i.e. the address
+ * and byte columns are removed.
+ * A word at the start of the source is treated as instruction (i.e.
+ * indented) if it is a Z80 instruction or directive, otherwise as label.
+ * @param lines The comment stripped lines of the list file.
+ * @returns The source lines and for each line the offset to add to a
+ * column to get the column in the list file.
+ */
+function getListSourceLines(lines: string[]): {sourceLines: string[], offsets: number[]} {
+	const sourceLines: string[] = [];
+	const offsets: number[] = [];
+	for (const line of lines) {
+		const {sourceStart} = parseListPrefix(line);
+		const rest = line.substring(sourceStart);
+		const source = rest.trimStart();
+		let offset = sourceStart + rest.length - source.length;
+		const firstWord = (/^[.\w]+/.exec(source)?.[0] ?? '').toLowerCase();
+		if (isInstruction(firstWord) && !source.substring(firstWord.length).startsWith(':')) {
+			sourceLines.push(' ' + source);
+			offset--;
+		}
+		else {
+			sourceLines.push(source);
+		}
+		offsets.push(offset);
+	}
+	return {sourceLines, offsets};
+}
+
+
+/**
+ * Checks if a word is an instruction or directive.
+ * @param word The word in lower case.
+ */
+function isInstruction(word: string): boolean {
+	return z80Mnemonics.has(word) || z80nMnemonics.has(word) || dataDirectives.has(word) || isDirective(word);
+}
+
+
+/**
+ * Returns the semantic tokens of a file.
+ * - Label, constant, macro, struct and module definitions.
+ * - Label references in the operands of instructions and data directives.
+ *   The parts of a reference that are modules or structs get their own token,
+ *   e.g. "audio.init" -> "audio" (namespace) and "init" (function).
+ * - Macro invocations.
+ * - For list files: the address and the bytes (number) and the instruction (keyword).
+ * References that cannot be resolved get no token.
+ * @param lines The comment stripped lines of the file.
+ * @param fileSymbols The symbols of the file.
+ * @param findSymbol Returns the symbol for a full label (incl. module).
+ * Also modules, structs and macros need to be found.
+ * @param isListFile true for list files.
+ * @param dialect The assembler dialect.
+ * @returns The tokens sorted by line and column.
+ */
+export function getSemanticTokens(lines: string[], fileSymbols: FileSymbols, findSymbol: (moduleLabel: string) => IndexedSymbol | undefined, isListFile = false, dialect = defaultDialect): SemanticToken[] {
+	const tokens: SemanticToken[] = [];
+	let sourceLines = lines;
+	let offsets: number[] | undefined;
+	if (isListFile) {
+		({sourceLines, offsets} = getListSourceLines(lines));
+		for (let row = 0; row < lines.length; row++) {
+			const {address, bytes} = parseListPrefix(lines[row]);
+			if (address)
+				tokens.push({line: row, start: address.start, length: 4, type: 'number', modifiers: []});
+			for (const byte of bytes)
+				tokens.push({line: row, start: byte.start, length: 2, type: 'number', modifiers: []});
+			const instr = getInstruction(sourceLines[row], dialect);
+			if (instr && isInstruction(instr.instruction.toLowerCase()))
+				tokens.push({line: row, start: instr.start + offsets[row], length: instr.instruction.length, type: 'keyword', modifiers: []});
+		}
+	}
+	const {blocks} = parseBlocks(sourceLines, dialect);
+
+	// Struct instances are either data (e.g. "player: ds POINT") or
+	// code labels followed by the struct name (e.g. "player: POINT").
+	// The latter can only be checked for the labels of this file.
+	const codeInstances = getStructInstances(sourceLines, fileSymbols, findSymbol, dialect);
+	const isInstance = (symbol: IndexedSymbol) => symbol.kind == 'data' || codeInstances.has(symbol);
+
+	// Definitions
+	for (const symbol of fileSymbols.symbols) {
+		const isField = isLineInsideBlocks(blocks, symbol.line, ['struct']);
+		let {type, modifiers} = getSymbolToken(symbol, isField);
+		if (type == 'function' && isInstance(symbol))
+			type = 'variable';
+		tokens.push({line: symbol.line, start: symbol.start, length: symbol.end - symbol.start, type, modifiers: ['declaration', ...modifiers]});
+	}
+
+	// References
+	const offsetFor = (row: number) => offsets?.[row] ?? 0;
+	for (const reference of findLabelReferences(sourceLines, fileSymbols, blocks, dialect)) {
+		const offset = offsetFor(reference.line);
+		tokens.push(...getReferenceTokens(reference.label, reference.candidates, reference.line, reference.start + offset, findSymbol, isInstance));
+	}
+
+	// Macro invocations
+	tokens.push(...getMacroTokens(sourceLines, fileSymbols, blocks, findSymbol, offsetFor, dialect));
+
+	tokens.sort((a, b) => (a.line - b.line) || (a.start - b.start));
+	return tokens;
+}
+
+
+/**
+ * Returns the code labels that define a struct instance, e.g. "player: POINT".
+ * @param lines The comment stripped (source) lines.
+ * @param fileSymbols The symbols of the file.
+ * @param findSymbol Returns the symbol for a full label.
+ * @param dialect The assembler dialect.
+ * @returns The symbols of the instances.
+ */
+function getStructInstances(lines: string[], fileSymbols: FileSymbols, findSymbol: (moduleLabel: string) => IndexedSymbol | undefined, dialect: Dialect): Set<IndexedSymbol> {
+	const instances = new Set<IndexedSymbol>();
+	const {modStructInfos, symbols} = fileSymbols;
+	let modIndex = -1;
+	let module = '';
+	let nonLocalLabel = '';
+	for (const symbol of symbols) {
+		// Update module and non-local label
+		while (modIndex + 1 < modStructInfos.length && modStructInfos[modIndex + 1].row <= symbol.line) {
+			modIndex++;
+			module = modStructInfos[modIndex].label;
+		}
+		if (!symbol.local && (symbol.kind == 'code' || symbol.kind == 'data' || symbol.kind == 'equ'))
+			nonLocalLabel = symbol.moduleLabel;
+		if (symbol.kind != 'code')
+			continue;
+
+		// Check the instruction
+		const instr = getInstruction(lines[symbol.line], dialect);
+		if (!instr || isInstruction(instr.instruction.toLowerCase()))
+			continue;
+		if (getLabelCandidates(instr.instruction, module, nonLocalLabel).some(candidate => findSymbol(candidate)?.kind == 'struct'))
+			instances.add(symbol);
+	}
+	return instances;
+}
+
+
+/**
+ * Returns the tokens for a label reference.
+ * @param label The label as written, e.g. "audio.init".
+ * @param candidates The full labels the reference could refer to.
+ * @param line The line number.
+ * @param start The start column of the label.
+ * @param findSymbol Returns the symbol for a full label.
+ * @param isInstance Returns true if a symbol is a struct instance.
+ */
+function getReferenceTokens(label: string, candidates: string[], line: number, start: number, findSymbol: (moduleLabel: string) => IndexedSymbol | undefined, isInstance: (symbol: IndexedSymbol) => boolean): SemanticToken[] {
+	const tokens: SemanticToken[] = [];
+	for (const candidate of candidates) {
+		const moduleLength = candidate.length - label.length;
+		const symbol = findSymbol(candidate);
+		if (symbol) {
+			// Prefixes (modules, structs). Not for local labels.
+			let partStart = label.startsWith('@') ? 1 : 0;
+			let k = label.startsWith('.') ? -1 : label.indexOf('.', partStart);
+			while (k > 0) {
+				const prefix = findSymbol(candidate.substring(0, moduleLength + k));
+				if (prefix?.kind != 'module' && prefix?.kind != 'struct')
+					break;
+				tokens.push({line, start: start + partStart, length: k - partStart, type: (prefix.kind == 'module') ? 'namespace' : 'struct', modifiers: []});
+				partStart = k + 1;
+				k = label.indexOf('.', partStart);
+			}
+			const {type, modifiers} = getSymbolToken(symbol, isStructField(symbol, findSymbol));
+			tokens.push({line, start: start + partStart, length: label.length - partStart, type, modifiers});
+			return tokens;
+		}
+
+		// Struct instance, e.g. "player.x"
+		if (label.startsWith('.'))
+			continue;
+		let k = label.lastIndexOf('.');
+		while (k > 0) {
+			const instance = findSymbol(candidate.substring(0, moduleLength + k));
+			if (instance && isInstance(instance)) {
+				tokens.push({line, start, length: k, type: 'variable', modifiers: instance.local ? ['local'] : []});
+				tokens.push({line, start: start + k + 1, length: label.length - k - 1, type: 'property', modifiers: []});
+				return tokens;
+			}
+			k = label.lastIndexOf('.', k - 1);
+		}
+	}
+	return tokens;
+}
+
+
+/**
+ * Returns the tokens for the macro invocations.
+ * @param lines The comment stripped (source) lines.
+ * @param fileSymbols The symbols of the file.
+ * @param blocks The blocks of the file.
+ * @param findSymbol Returns the symbol for a full label.
+ * @param offsetFor Returns the column offset for a line (list files).
+ * @param dialect The assembler dialect.
+ */
+function getMacroTokens(lines: string[], fileSymbols: FileSymbols, blocks: AsmBlock[], findSymbol: (moduleLabel: string) => IndexedSymbol | undefined, offsetFor: (row: number) => number, dialect: Dialect): SemanticToken[] {
+	const tokens: SemanticToken[] = [];
+	const {modStructInfos, symbols} = fileSymbols;
+	let modIndex = -1;
+	let module = '';
+	let symbolIndex = 0;
+	let nonLocalLabel = '';
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		// Update module and non-local label
+		while (modIndex + 1 < modStructInfos.length && modStructInfos[modIndex + 1].row <= row) {
+			modIndex++;
+			module = modStructInfos[modIndex].label;
+		}
+		while (symbolIndex < symbols.length && symbols[symbolIndex].line <= row) {
+			const symbol = symbols[symbolIndex++];
+			if (!symbol.local && (symbol.kind == 'code' || symbol.kind == 'data' || symbol.kind == 'equ'))
+				nonLocalLabel = symbol.moduleLabel;
+		}
+
+		const instr = getInstruction(lines[row], dialect);
+		if (!instr || isInstruction(instr.instruction.toLowerCase()))
+			continue;
+		if (isLineInsideBlocks(blocks, row, ['struct']))
+			continue;	// Struct fields, e.g. "x byte"
+		const candidates = getLabelCandidates(instr.instruction, module, nonLocalLabel);
+		if (candidates.some(candidate => findSymbol(candidate)?.kind == 'macro'))
+			tokens.push({line: row, start: instr.start + offsetFor(row), length: instr.instruction.length, type: 'macro', modifiers: []});
+	}
+	return tokens;
+}
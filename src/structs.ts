@@ -0,0 +1,327 @@
+/**
+ * The struct model: the fields of the sjasmplus STRUCTs with their sizes
+ * and offsets, the struct instances and the resolution of field accesses
+ * like "POINT.x", "player.x" (instance) or "rect.topLeft.x" (nested).
+ * E.g.
+ *     STRUCT POINT
+ * x   BYTE 0       ; offset 0, size 1
+ * y   WORD 0       ; offset 1, size 2
+ *     ENDS
+ */
+
+import {getInstruction, parseBlocks} from './asmblocks';
+import {SymbolResolver, evaluateExpression} from './expression';
+import {getLabelCandidates, getLabelContext} from './labelcheck';
+import {FileSymbols} from './symbolparser';
+import {Dialect} from './dialects';
+
+
+/**
+ * A field of a struct.
+ */
+export interface StructField {
+	/// The label as written, e.g. "x".
+	label: string,
+	/// The full label, e.g. "POINT.x".
+	moduleLabel: string,
+	/// The full label of the struct if the field is a nested struct.
+	type?: string,
+	/// The offset from the start of the struct. undefined if a previous
+	/// size is unknown.
+	offset?: number,
+	/// The size in bytes. undefined if unknown.
+	size?: number,
+	/// The line number:
+	line: number,
+	/// The start column:
+	start: number,
+	/// The end column:
+	end: number
+}
+
+
+/**
+ * A STRUCT definition.
+ */
+export interface StructDefinition {
+	/// The file path:
+	filePath: string,
+	/// The name as written, e.g. "POINT".
+	label: string,
+	/// The full label (incl. module), e.g. "gfx.POINT".
+	moduleLabel: string,
+	/// The size in bytes. undefined if unknown.
+	size?: number,
+	/// The fields, in order of definition.
+	fields: StructField[],
+	/// The line of the STRUCT.
+	line: number,
+	/// The line of the ENDS.
+	endLine: number
+}
+
+
+/**
+ * The structs of several files.
+ */
+export interface StructModel {
+	/// All structs. Key = full label.
+	structs: Map<string, StructDefinition>,
+	/// All fields. Key = full label of the field, e.g. "POINT.x".
+	fields: Map<string, {struct: StructDefinition, field: StructField}>,
+	/// The struct instances, e.g. "player: POINT" or "player: DS POINT".
+	/// Key = full label of the instance, value = full label of the struct.
+	instances: Map<string, string>
+}
+
+
+/**
+ * The file data required to build the model.
+ */
+export type StructFile = FileSymbols & {filePath: string, lines: string[], dialect?: Dialect};
+
+
+/// The sizes of the data directives (per value).
+const dataSizes = new Map<string, number>([
+	['byte', 1], ['db', 1], ['defb', 1], ['dm', 1], ['defm', 1],
+	['word', 2], ['dw', 2], ['defw', 2],
+	['d24', 3],
+	['dword', 4], ['dd', 4], ['defd', 4]
+]);
+
+/// The directives that reserve a number of bytes.
+const blockDirectives = new Set<string>(['block', 'ds', 'defs', 'text']);
+
+
+/**
+ * Builds the struct model for several files.
+ * Sizes given as expressions (e.g. "DS MAX_LEN") are evaluated. The
+ * names are resolved to other structs (their size) or via 'findValue'.
+ * @param files The files (comment stripped lines and symbols).
+ * @param findValue Returns the value of a constant (full label) or undefined.
+ * @returns The model.
+ */
+export function buildStructModel(files: StructFile[], findValue: (moduleLabel: string) => number | undefined): StructModel {
+	const model: StructModel = {structs: new Map(), fields: new Map(), instances: new Map()};
+
+	// The files and lines of all structs
+	const structFiles = new Map<string, {file: StructFile, line: number, endLine: number}>();
+	for (const file of files) {
+		const {blocks} = parseBlocks(file.lines, file.dialect);
+		for (const block of blocks) {
+			if (block.kind != 'struct')
+				continue;
+			const symbol = file.symbols.find(s => s.kind == 'struct' && s.line == block.startLine);
+			if (symbol && !structFiles.has(symbol.moduleLabel))
+				structFiles.set(symbol.moduleLabel, {file, line: block.startLine, endLine: block.endLine});
+		}
+	}
+
+	// Parse the structs (nested structs first)
+	const parsing = new Set<string>();
+	const getStruct = (moduleLabel: string): StructDefinition | undefined => {
+		let struct = model.structs.get(moduleLabel);
+		if (struct)
+			return struct;
+		const structFile = structFiles.get(moduleLabel);
+		if (!structFile || parsing.has(moduleLabel))
+			return undefined;	// Unknown or circular
+		parsing.add(moduleLabel);
+		struct = parseStruct(structFile.file, moduleLabel, structFile.line, structFile.endLine, getStruct, findValue);
+		parsing.delete(moduleLabel);
+		model.structs.set(moduleLabel, struct);
+		for (const field of struct.fields)
+			model.fields.set(field.moduleLabel, {struct, field});
+		return struct;
+	};
+	for (const moduleLabel of structFiles.keys())
+		getStruct(moduleLabel);
+
+	// The instances
+	for (const file of files) {
+		for (const symbol of file.symbols) {
+			if ((symbol.kind != 'code' && symbol.kind != 'data') || model.fields.has(symbol.moduleLabel))
+				continue;
+			const type = getStructType(file.lines[symbol.line].substring(symbol.end), file, symbol.line, candidate => model.structs.has(candidate));
+			if (type)
+				model.instances.set(symbol.moduleLabel, type);
+		}
+	}
+	return model;
+}
+
+
+/**
+ * Parses the fields of a struct.
+ * @param file The file with the struct.
+ * @param moduleLabel The full label of the struct.
+ * @param line The line of the STRUCT.
+ * @param endLine The line of the ENDS.
+ * @param getStruct Returns another struct (for nested structs).
+ * @param findValue Returns the value of a constant.
+ */
+function parseStruct(file: StructFile, moduleLabel: string, line: number, endLine: number, getStruct: (moduleLabel: string) => StructDefinition | undefined, findValue: (moduleLabel: string) => number | undefined): StructDefinition {
+	const label = file.symbols.find(s => s.kind == 'struct' && s.line == line)!.label;
+	const struct: StructDefinition = {filePath: file.filePath, label, moduleLabel, fields: [], line, endLine};
+
+	// Names are searched in the struct, the modules and globally
+	const resolve: SymbolResolver = name => {
+		for (const candidate of getLabelCandidates(name, moduleLabel, '')) {
+			if (candidate != moduleLabel) {
+				const nested = getStruct(candidate);
+				if (nested)
+					return nested.size;
+			}
+			const value = findValue(candidate);
+			if (value != undefined)
+				return value;
+		}
+		return undefined;
+	};
+
+	// Initial offset, e.g. "STRUCT POINT, 2"
+	let offset: number | undefined = 0;
+	const matchOffset = /\bstruct\s+[\w.]+\s*,(.*)/i.exec(file.lines[line]);
+	if (matchOffset)
+		offset = evaluate(matchOffset[1], resolve);
+
+	for (let row = line + 1; row < endLine; row++) {
+		const lineContents = file.lines[row];
+		const symbol = file.symbols.find(s => s.line == row && (s.kind == 'code' || s.kind == 'data'));
+		const instr = getInstruction(lineContents, file.dialect);
+		let size: number | undefined = 0;
+		let type: string | undefined;
+		if (instr) {
+			const instruction = instr.instruction.toLowerCase().replace(/^\./, '');
+			const operands = lineContents.substring(instr.start + instr.instruction.length).trim();
+			if (instruction == 'align') {
+				const boundary = operands ? evaluate(operands.split(',')[0], resolve) : 4;
+				if (offset != undefined)
+					offset = (boundary) ? Math.ceil(offset / boundary) * boundary : undefined;
+			}
+			else {
+				type = getStructType(lineContents.substring(instr.start), file, row, candidate => !!getStruct(candidate));
+				size = (type) ? getStruct(type)?.size : getDataSize(instruction, operands, resolve);
+			}
+		}
+		if (symbol) {
+			const field: StructField = {label: symbol.label, moduleLabel: symbol.moduleLabel, offset, size, line: row, start: symbol.start, end: symbol.end};
+			if (type)
+				field.type = type;
+			struct.fields.push(field);
+		}
+		offset = (offset != undefined && size != undefined) ? offset + size : undefined;
+	}
+	struct.size = offset;
+	return struct;
+}
+
+
+/**
+ * Returns the size of a data directive inside a struct.
+ * @param instruction The directive in lower case, e.g. "defb".
+ * @param operands The operands, e.g. "1, 2".
+ * @param resolve Resolves the names in expressions.
+ * @returns The size or undefined if unknown (e.g. a string or an unknown directive).
+ */
+function getDataSize(instruction: string, operands: string, resolve: SymbolResolver): number | undefined {
+	const sizePerValue = dataSizes.get(instruction);
+	if (sizePerValue) {
+		if (!operands)
+			return sizePerValue;
+		const values = operands.split(',');
+		if (values.some(value => !value.trim()))
+			return undefined;	// E.g. a (blanked) string
+		return sizePerValue * values.length;
+	}
+	if (blockDirectives.has(instruction))
+		return evaluate(operands.split(',')[0], resolve);
+	return undefined;
+}
+
+
+/**
+ * Evaluates an expression.
+ * @param expr The expression.
+ * @param resolve Resolves the names.
+ * @returns The value or undefined if it cannot be evaluated.
+ */
+function evaluate(expr: string, resolve: SymbolResolver): number | undefined {
+	try {
+		return evaluateExpression(expr.trim(), resolve);
+	}
+	catch (e) {
+		return undefined;
+	}
+}
+
+
+/**
+ * Returns the struct type of a definition, e.g. "POINT" in "player: POINT"
+ * or "player: DS POINT".
+ * @param text The text after the label, e.g. " POINT {1, 2}".
+ * @param fileSymbols The symbols of the file.
+ * @param row The line number.
+ * @param isStruct Returns true if a full label is a struct.
+ * @returns The full label of the struct or undefined.
+ */
+function getStructType(text: string, fileSymbols: FileSymbols, row: number, isStruct: (moduleLabel: string) => boolean): string | undefined {
+	const match = /^:?\s*(?:(?:ds|defs|block)\s+)?([a-z_@][\w.]*)\s*(?:$|\{|,)/i.exec(text);
+	if (!match)
+		return undefined;
+	const {module} = getLabelContext(fileSymbols, row);
+	return getLabelCandidates(match[1], module, '').find(isStruct);
+}
+
+
+/**
+ * Returns the struct of a label, i.e. the struct itself ("POINT"), the
+ * struct of an instance ("player") or of a nested field ("RECT.topLeft").
+ * @param model The model.
+ * @param label The label as written, e.g. "player".
+ * @param candidates The full labels the label could refer to, in order of precedence.
+ * @returns The struct or undefined if the label is no struct, instance or nested field.
+ */
+export function resolveStructType(model: StructModel, label: string, candidates: string[]): StructDefinition | undefined {
+	for (const candidate of candidates) {
+		const type = model.structs.has(candidate) ? candidate : (model.instances.get(candidate) ?? model.fields.get(candidate)?.field.type);
+		if (type)
+			return model.structs.get(type);
+	}
+	// E.g. "rect.topLeft"
+	const type = resolveFieldAccess(model, label, candidates)?.field.type;
+	return type ? model.structs.get(type) : undefined;
+}
+
+
+/**
+ * Resolves a field access, e.g. "POINT.x", "player.x" (instance of POINT)
+ * or "rect.topLeft.x" (nested struct).
+ * @param model The model.
+ * @param label The label as written, e.g. "player.x".
+ * @param candidates The full labels the label could refer to, in order of precedence.
+ * @returns The struct and the field or undefined if the label is no field access.
+ */
+export function resolveFieldAccess(model: StructModel, label: string, candidates: string[]): {struct: StructDefinition, field: StructField} | undefined {
+	for (const candidate of candidates) {
+		const entry = model.fields.get(candidate);
+		if (entry)
+			return entry;
+	}
+	const k = label.lastIndexOf('.');
+	if (k <= 0)
+		return undefined;
+	const prefixCandidates = candidates.map(candidate => candidate.substring(0, candidate.length - label.length + k));
+	const struct = resolveStructType(model, label.substring(0, k), prefixCandidates);
+	return struct && model.fields.get(struct.moduleLabel + label.substring(k));
+}
+
+
+/**
+ * Formats the offset and size of a field.
+ * @param field The field.
+ * @returns E.g. "offset 1, size 2" or "offset ?, size 2".
+ */
+export function formatFieldInfo(field: StructField): string {
+	return 'offset ' + (field.offset ?? '?') + ', size ' + (field.size ?? '?');
+}
@@ -0,0 +1,533 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import {stripAllComments} from './comments';
+import {Config} from './config';
+import {FileInfo, getCompleteLabel} from './grepextra';
+import {AllowedLanguageIds, LanguageId} from './languageId';
+import {CommonRegexes} from './regexes/commonregexes';
+import {FileSymbols, IndexedSymbol, containsWord, evaluateSymbol, parseSymbols} from './symbolparser';
+import {IncludeDirective, getTranslationUnitFiles, parseIncludes, resolveIncludePath} from './includegraph';
+import {StructDefinition, StructField, StructModel, buildStructModel, resolveFieldAccess} from './structs';
+import {getLabelCandidates, getLabelContext} from './labelcheck';
+import {Dialect, defaultDialect, selectDialect} from './dialects';
+import {TempLabel, parseTempLabels} from './templabels';
+import {ListSourceLine, parseListSourceLines} from './listfile';
+import {AsmBlock, BlockError, parseBlocks} from './asmblocks';
+
+
+/**
+ * The cached information of one file.
+ * Contains the comment stripped lines, the module/struct info
+ * and all symbol definitions.
+ */
+export interface FileIndex extends FileInfo, FileSymbols {
+	/// The file path:
+	filePath: string,
+	/// The language ID of the file.
+	languageId: AllowedLanguageIds,
+	/// The INCLUDE and INCBIN directives of the file.
+	includes: IncludeDirective[],
+	/// The assembler dialect of the file (settings or modeline).
+	dialect: Dialect,
+	/// For list files: the source line of each line.
+	sourceLines?: Array<ListSourceLine | undefined>
+}
+
+
+/**
+ * The workspace symbol index.
+ * Instead of opening and parsing all files for each request (e.g. for each
+ * code lens) the files are parsed only once and the result is cached.
+ * The cache is updated incrementally:
+ * - If a document is changed, only that file is removed from the cache.
+ *   It will be re-parsed on the next request.
+ * - If files are created or deleted the list of files is re-read.
+ * - If the configuration changes the complete cache is cleared.
+ */
+export class SymbolIndex {
+
+	// Map with the parsed files. Key = file path.
+	protected static files = new Map<string, FileIndex>();
+
+	// The file paths for each root folder, language ID and excludes.
+	// Key = concatenation of rootFolder, languageId and excludes.
+	protected static fileLists = new Map<string, string[]>();
+
+	// The include graph for each workspace folder.
+	// Key = workspace folder path. Value = map: file path -> included file paths.
+	protected static includeGraphs = new Map<string, Map<string, string[]>>();
+
+	// The label addresses (taken from the list files) for each workspace folder.
+	// Key = workspace folder path. Value = map: full label -> address.
+	protected static labelAddresses = new Map<string, Map<string, number>>();
+
+	// The struct models.
+	// Key = workspace folder path, language ID and the files of the scope.
+	protected static structModels = new Map<string, StructModel>();
+
+	// The symbol maps.
+	// Key = workspace folder path, language ID, includeTypes and the files of the scope.
+	protected static symbolMaps = new Map<string, Map<string, IndexedSymbol>>();
+
+	// The blocks of each file. Key = file path.
+	protected static fileBlocks = new Map<string, {blocks: AsmBlock[], errors: BlockError[]}>();
+
+
+	/**
+	 * Registers for the document and file events.
+	 * @param context The extension context.
+	 */
+	public static Init(context: vscode.ExtensionContext) {
+		// Document changes
+		context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
+			this.invalidateFile(event.document.uri);
+		}));
+
+		// File changes outside of vscode, created and deleted files
+		const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+		context.subscriptions.push(watcher);
+		context.subscriptions.push(watcher.onDidChange(uri => {
+			this.invalidateFile(uri);
+		}));
+		context.subscriptions.push(watcher.onDidCreate(() => {
+			// The new file might belong to any file list
+			// and might resolve a previously unresolved include.
+			this.fileLists.clear();
+			this.includeGraphs.clear();
+			this.labelAddresses.clear();
+			this.structModels.clear();
+			this.symbolMaps.clear();
+		}));
+		context.subscriptions.push(watcher.onDidDelete(uri => {
+			this.removeFile(uri);
+		}));
+	}
+
+
+	/**
+	 * Clears the complete index.
+	 * Called e.g. if the configuration changes.
+	 */
+	public static clear() {
+		this.files.clear();
+		this.fileLists.clear();
+		this.includeGraphs.clear();
+		this.labelAddresses.clear();
+		this.structModels.clear();
+		this.symbolMaps.clear();
+		this.fileBlocks.clear();
+	}
+
+
+	/**
+	 * Removes a file from the cache. It is parsed again on the next request.
+	 * @param uri The file's uri.
+	 */
+	protected static invalidateFile(uri: vscode.Uri) {
+		if (uri.scheme != 'file')
+			return;
+		this.files.delete(uri.fsPath);
+		this.fileBlocks.delete(uri.fsPath);
+		this.includeGraphs.clear();
+		this.labelAddresses.clear();
+		this.structModels.clear();
+		this.symbolMaps.clear();
+	}
+
+
+	/**
+	 * Removes a file from the cache and from all file lists.
+	 * Also works for deleted directories.
+	 * @param uri The file's or directory's uri.
+	 */
+	protected static removeFile(uri: vscode.Uri) {
+		if (uri.scheme != 'file')
+			return;
+		const fsPath = uri.fsPath;
+		for (const filePath of this.files.keys()) {
+			if (filePath == fsPath || filePath.startsWith(fsPath + '/') || filePath.startsWith(fsPath + '\\')) {
+				this.files.delete(filePath);
+				this.fileBlocks.delete(filePath);
+			}
+		}
+		for (const [key, filePaths] of this.fileLists) {
+			const remaining = filePaths.filter(filePath => filePath != fsPath && !filePath.startsWith(fsPath + '/') && !filePath.startsWith(fsPath + '\\'));
+			this.fileLists.set(key, remaining);
+		}
+		this.includeGraphs.clear();
+		this.labelAddresses.clear();
+		this.structModels.clear();
+		this.symbolMaps.clear();
+	}
+
+
+	/**
+	 * Returns the paths of all files for a root folder and a language id.
+	 * The list is cached.
+	 * @param rootFolder The search is limited to the root / project folder.
+	 * @param languageId Only files with the language ID are returned.
+	 * @param globExcludeFiles The glob pattern to use to exclude files.
+	 * @returns An array of file paths.
+	 */
+	public static async getFilePaths(rootFolder: string, languageId: AllowedLanguageIds, globExcludeFiles: string): Promise<string[]> {
+		const key = rootFolder + '|' + languageId + '|' + globExcludeFiles;
+		let filePaths = this.fileLists.get(key);
+		if (!filePaths) {
+			const globInclude = LanguageId.getGlobalIncludeForLanguageId(languageId);
+			const allUris = await vscode.workspace.findFiles(globInclude, globExcludeFiles);
+			filePaths = allUris.filter(uri => uri.fsPath.startsWith(rootFolder)).map(uri => uri.fsPath);
+			this.fileLists.set(key, filePaths);
+		}
+		return filePaths;
+	}
+
+
+	/**
+	 * Returns the index of all files for a root folder and a language id.
+	 * Files that are not cached are parsed.
+	 * @param rootFolder The search is limited to the root / project folder.
+	 * @param languageId Only files with the language ID are returned.
+	 * @param globExcludeFiles The glob pattern to use to exclude files.
+	 * @returns An array with the file indexes.
+	 */
+	public static async getFileIndexes(rootFolder: string, languageId: AllowedLanguageIds, globExcludeFiles: string): Promise<FileIndex[]> {
+		const filePaths = await this.getFilePaths(rootFolder, languageId, globExcludeFiles);
+		const fileIndexes: FileIndex[] = [];
+		for (const filePath of filePaths) {
+			const fileIndex = await this.getFileIndex(filePath);
+			if (fileIndex)
+				fileIndexes.push(fileIndex);
+		}
+		return fileIndexes;
+	}
+
+
+	/**
+	 * Returns the index of a single file.
+	 * If not cached the file is parsed.
+	 * @param filePath The file path.
+	 * @returns The file index or undefined if the file could not be read.
+	 */
+	public static async getFileIndex(filePath: string): Promise<FileIndex | undefined> {
+		let fileIndex = this.files.get(filePath);
+		if (!fileIndex) {
+			try {
+				// Doc is read through vscode API
+				const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+				fileIndex = this.parseDocument(doc);
+				this.files.set(filePath, fileIndex);
+			}
+			catch (e) {
+				console.log(e);
+				return undefined;
+			}
+		}
+		return fileIndex;
+	}
+
+
+	/**
+	 * Parses a document.
+	 * @param doc The text document.
+	 * @returns The file index.
+	 */
+	protected static parseDocument(doc: vscode.TextDocument): FileIndex {
+		const filePath = doc.uri.fsPath;
+		const languageId: AllowedLanguageIds = (doc.languageId == 'asm-list-file') ? 'asm-list-file' : 'asm-collection';
+		const config = Config.getConfigForDoc(doc) ?? {labelsWithColons: true, labelsWithoutColons: true, dialect: undefined};
+
+		// Strip comments
+		const origLines = doc.getText().split('\n');
+		const dialect = selectDialect(origLines, config.dialect);
+		const regexLbls = CommonRegexes.regexesLabel(config, languageId, dialect);
+		const lines = [...origLines];
+		stripAllComments(lines, dialect.commentPrefixes);
+
+		// Parse
+		const fileSymbols = parseSymbols(lines, regexLbls, languageId, origLines, dialect);
+		const includes = parseIncludes(origLines, lines, dialect);
+		const sourceLines = (languageId == 'asm-list-file') ? parseListSourceLines(origLines) : undefined;
+		return {
+			filePath,
+			languageId,
+			lines,
+			includes,
+			dialect,
+			sourceLines,
+			...fileSymbols
+		};
+	}
+
+
+	/**
+	 * Returns the assembler dialect of a document.
+	 * @param document The document.
+	 * @returns The dialect of the modeline or of the workspace folder settings.
+	 */
+	public static async getDialect(document: vscode.TextDocument): Promise<Dialect> {
+		const fileIndex = await this.getFileIndex(document.uri.fsPath);
+		return fileIndex?.dialect ?? defaultDialect;
+	}
+
+
+	/**
+	 * Checks if a file might contain a word.
+	 * @param fileIndex The file index.
+	 * @param word The word to check, e.g. "audio.init".
+	 * @returns false if the file does not contain the word.
+	 */
+	public static containsWord(fileIndex: FileIndex, word: string): boolean {
+		return containsWord(fileIndex.words, word);
+	}
+
+
+	/**
+	 * Returns all non-local symbols of the workspace folder (or the scope).
+	 * Used e.g. to evaluate constants.
+	 * @param config The configuration of the workspace folder.
+	 * @param languageId Only files with the language ID are used.
+	 * @param scope If defined only files of the scope are used.
+	 * @param includeTypes true to include the MODULE and STRUCT names, e.g.
+	 * for labels used as struct size.
+	 * @returns A map: full label (incl. module) -> symbol.
+	 * If a label is defined more than once the first definition is used.
+	 * The labels of asm files get the address from the list files (if available).
+	 * The map is cached until a file changes.
+	 */
+	public static async getSymbolMap(config: Config, languageId: AllowedLanguageIds, scope?: Set<string>, includeTypes = false): Promise<Map<string, IndexedSymbol>> {
+		const key = [config.wsFolderPath, languageId, includeTypes, ...(scope ?? [])].join('\n');
+		let symbolMap = this.symbolMaps.get(key);
+		if (!symbolMap) {
+			symbolMap = new Map<string, IndexedSymbol>();
+			const fileIndexes = await this.getFileIndexes(config.wsFolderPath, languageId, config.excludeFiles);
+			for (const fileIndex of fileIndexes) {
+				if (scope && !scope.has(fileIndex.filePath))
+					continue;
+				for (const symbol of fileIndex.symbols) {
+					if (!includeTypes && (symbol.kind == 'module' || symbol.kind == 'struct'))
+						continue;
+					if (!symbolMap.has(symbol.moduleLabel))
+						symbolMap.set(symbol.moduleLabel, symbol);
+				}
+			}
+
+			// Add addresses
+			if (languageId == 'asm-collection') {
+				const addresses = await this.getLabelAddresses(config);
+				for (const [moduleLabel, symbol] of symbolMap) {
+					const address = addresses.get(moduleLabel);
+					if (address != undefined && symbol.value == undefined)
+						symbolMap.set(moduleLabel, {...symbol, address});
+				}
+			}
+			this.symbolMaps.set(key, symbolMap);
+		}
+		return symbolMap;
+	}
+
+
+	/**
+	 * Returns the blocks (MODULE, MACRO, IF, ...) of a file.
+	 * The blocks are cached until the file changes.
+	 * @param fileIndex The file index.
+	 * @returns The balanced blocks and the unbalanced directives.
+	 */
+	public static getBlocks(fileIndex: FileIndex): {blocks: AsmBlock[], errors: BlockError[]} {
+		// An outdated file index is not cached
+		if (this.files.get(fileIndex.filePath) != fileIndex)
+			return parseBlocks(fileIndex.lines, fileIndex.dialect);
+		let result = this.fileBlocks.get(fileIndex.filePath);
+		if (!result) {
+			result = parseBlocks(fileIndex.lines, fileIndex.dialect);
+			this.fileBlocks.set(fileIndex.filePath, result);
+		}
+		return result;
+	}
+
+
+	/**
+	 * Returns the addresses of all labels found in the list files of
+	 * the workspace folder.
+	 * The map is cached until a file changes.
+	 * @param config The configuration of the workspace folder.
+	 * @returns A map: full label (incl. module) -> address.
+	 */
+	public static async getLabelAddresses(config: Config): Promise<Map<string, number>> {
+		let addresses = this.labelAddresses.get(config.wsFolderPath);
+		if (!addresses) {
+			addresses = new Map<string, number>();
+			const fileIndexes = await this.getFileIndexes(config.wsFolderPath, 'asm-list-file', config.excludeFiles);
+			for (const fileIndex of fileIndexes) {
+				for (const symbol of fileIndex.symbols) {
+					if (symbol.address != undefined && !addresses.has(symbol.moduleLabel))
+						addresses.set(symbol.moduleLabel, symbol.address);
+				}
+			}
+			this.labelAddresses.set(config.wsFolderPath, addresses);
+		}
+		return addresses;
+	}
+
+
+	/**
+	 * Returns the address of the label defined at a line.
+	 * For list files the address is taken from the line itself,
+	 * for asm files it is looked up in the list files.
+	 * @param config The configuration of the workspace folder.
+	 * @param filePath The file that contains the label.
+	 * @param line The line of the label definition.
+	 * @returns The address or undefined if not known.
+	 */
+	public static async getLabelAddress(config: Config, filePath: string, line: number): Promise<number | undefined> {
+		const fileIndex = await this.getFileIndex(filePath);
+		const symbol = fileIndex?.symbols.find(s => s.line == line && (s.kind == 'code' || s.kind == 'data'));
+		if (!symbol)
+			return undefined;
+		if (symbol.address != undefined)
+			return symbol.address;
+		const addresses = await this.getLabelAddresses(config);
+		return addresses.get(symbol.moduleLabel);
+	}
+
+
+	/**
+	 * Returns the include graph of a workspace folder.
+	 * Only source includes (not INCBIN) are part of the graph.
+	 * The graph is cached until a file changes.
+	 * @param config The configuration of the workspace folder.
+	 * @returns A map: file path -> included file paths.
+	 */
+	public static async getIncludeGraph(config: Config): Promise<Map<string, string[]>> {
+		let graph = this.includeGraphs.get(config.wsFolderPath);
+		if (!graph) {
+			graph = new Map<string, string[]>();
+			const fileIndexes = await this.getFileIndexes(config.wsFolderPath, 'asm-collection', config.excludeFiles);
+			for (const fileIndex of fileIndexes) {
+				const included: string[] = [];
+				for (const include of fileIndex.includes) {
+					if (include.kind != 'include')
+						continue;
+					const includedPath = this.resolveInclude(config, fileIndex.filePath, include.path);
+					if (includedPath)
+						included.push(includedPath);
+				}
+				graph.set(fileIndex.filePath, included);
+			}
+			this.includeGraphs.set(config.wsFolderPath, graph);
+		}
+		return graph;
+	}
+
+
+	/**
+	 * Resolves the path of an INCLUDE or INCBIN directive.
+	 * @param config The configuration. Contains the include paths.
+	 * @param includingFile The file that contains the directive.
+	 * @param relPath The path as written in the directive.
+	 * @returns The absolute path or undefined if the file does not exist.
+	 */
+	public static resolveInclude(config: Config, includingFile: string, relPath: string): string | undefined {
+		return resolveIncludePath(includingFile, relPath, config.includePaths, filePath => fs.existsSync(filePath));
+	}
+
+
+	/**
+	 * Returns the files of the translation unit(s) the document belongs to.
+	 * Used to restrict the search for labels to the files that are
+	 * assembled together.
+	 * @param config The configuration of the workspace folder.
+	 * @param document The document.
+	 * @returns A set of file paths or undefined if the search should not be restricted.
+	 * I.e. if the restriction is disabled in the settings, for list files or
+	 * if the document neither includes nor is included by another file.
+	 */
+	public static async getIncludeScope(config: Config, document: vscode.TextDocument): Promise<Set<string> | undefined> {
+		if (!config.restrictToTranslationUnit)
+			return undefined;
+		if (document.languageId != 'asm-collection')
+			return undefined;
+		const graph = await this.getIncludeGraph(config);
+		const files = getTranslationUnitFiles(graph, document.uri.fsPath);
+		if (files.size <= 1)
+			return undefined;
+		return files;
+	}
+
+
+	/**
+	 * Returns the struct model (fields with offsets and sizes, instances)
+	 * of the workspace folder (or the scope).
+	 * The model is cached until a file changes.
+	 * @param config The configuration of the workspace folder.
+	 * @param languageId Only files with the language ID are used.
+	 * @param scope If defined only files of the scope are used.
+	 * @returns The model.
+	 */
+	public static async getStructModel(config: Config, languageId: AllowedLanguageIds, scope?: Set<string>): Promise<StructModel> {
+		const key = [config.wsFolderPath, languageId, ...(scope ?? [])].join('\n');
+		let model = this.structModels.get(key);
+		if (!model) {
+			const fileIndexes = await this.getFileIndexes(config.wsFolderPath, languageId, config.excludeFiles);
+			const symbolMap = await this.getSymbolMap(config, languageId, scope);
+			const files = fileIndexes.filter(fileIndex => !scope || scope.has(fileIndex.filePath));
+			model = buildStructModel(files, moduleLabel => {
+				const symbol = symbolMap.get(moduleLabel);
+				if (symbol?.kind != 'equ')
+					return undefined;
+				try {
+					return evaluateSymbol(symbol, label => symbolMap.get(label));
+				}
+				catch (e) {
+					return undefined;
+				}
+			});
+			this.structModels.set(key, model);
+		}
+		return model;
+	}
+
+
+	/**
+	 * Returns the struct field at a position. Either the field definition
+	 * or a field access like "POINT.x", "player.x" or "(ix+POINT.x)".
+	 * The label is taken up to the end of the word at the position, i.e.
+	 * for "player" in "player.x" no field is returned.
+	 * @param config The configuration of the workspace folder.
+	 * @param document The document.
+	 * @param position The position.
+	 * @returns The struct and the field or undefined.
+	 */
+	public static async getStructFieldAt(config: Config, document: vscode.TextDocument, position: vscode.Position): Promise<{struct: StructDefinition, field: StructField, model: StructModel} | undefined> {
+		const fileIndex = await this.getFileIndex(document.uri.fsPath);
+		if (!fileIndex)
+			return undefined;
+		const lineContents = document.lineAt(position.line).text;
+		const {label} = getCompleteLabel(lineContents, position.character, /\w/);
+		const definition = fileIndex.symbols.find(s => s.line == position.line && s.start <= position.character && position.character <= s.end);
+		if (!label.includes('.') && !definition)
+			return undefined;
+		const scope = await this.getIncludeScope(config, document);
+		const model = await this.getStructModel(config, fileIndex.languageId, scope);
+		if (definition) {
+			const entry = model.fields.get(definition.moduleLabel);
+			return entry && {...entry, model};
+		}
+		const {module, nonLocalLabel} = getLabelContext(fileIndex, position.line);
+		const entry = resolveFieldAccess(model, label, getLabelCandidates(label, module, nonLocalLabel));
+		return entry && {...entry, model};
+	}
+
+
+	/**
+	 * Returns the temporary labels of a document, e.g. "1", "1B", "@@" or "@f".
+	 * List files are skipped as their lines start with the address.
+	 * @param document The document.
+	 * @returns The definitions and references.
+	 */
+	public static async getTempLabels(document: vscode.TextDocument): Promise<TempLabel[]> {
+		const fileIndex = await this.getFileIndex(document.uri.fsPath);
+		if (fileIndex?.languageId != 'asm-collection')
+			return [];
+		return parseTempLabels(fileIndex.lines, fileIndex.dialect);
+	}
+}
@@ -0,0 +1,310 @@
+/**
+ * Parses a (comment stripped) file into the symbol information
+ * that is kept by the symbol index.
+ */
+
+import {AllowedLanguageIds} from './languageId';
+import {FileModuleStructInfo, concatenateModuleAndLabel, getModuleFileInfo} from './grepextra';
+import {CommonRegexes} from './regexes/commonregexes';
+import {DocSymbolRegexes} from './regexes/docsymbolregexes';
+import {evaluateExpression} from './expression';
+import {parseListAddress} from './listfile';
+import {defaultDialect, getDirectivesPattern} from './dialects';
+
+
+/**
+ * The kind of an indexed symbol.
+ * 'code': A code label.
+ * 'data': A label in front of data, e.g. DEFB.
+ * 'equ': A constant, e.g. EQU.
+ * 'macro': A MACRO definition.
+ * 'module': A MODULE definition.
+ * 'struct': A STRUCT definition.
+ */
+export type IndexedSymbolKind = 'code' | 'data' | 'equ' | 'macro' | 'module' | 'struct';
+
+
+/**
+ * A symbol definition found in a file.
+ */
+export interface IndexedSymbol {
+	/// The label as written in the source, e.g. ".loop" or "init".
+	label: string,
+	/// The full label with module and non-local label, e.g. "audio.init.loop".
+	moduleLabel: string,
+	/// The kind of symbol.
+	kind: IndexedSymbolKind,
+	/// true for local labels (starting with a dot).
+	local: boolean,
+	/// The line number:
+	line: number,
+	/// The start column:
+	start: number,
+	/// The end column:
+	end: number,
+	/// The expression of an EQU/DEFL/'=' constant, e.g. "SCREEN+32".
+	value?: string,
+	/// The address of a label. Only known for list files.
+	address?: number
+}
+
+
+/**
+ * All symbol information of one file.
+ */
+export interface FileSymbols {
+	/// The entries with the module/struct info
+	modStructInfos: FileModuleStructInfo[],
+	/// All symbol definitions.
+	symbols: IndexedSymbol[],
+	/// All words (\w+) used in the file. Used to quickly
+	/// skip files that cannot contain a searched label.
+	words: Set<string>
+}
+
+
+/**
+ * Checks if all parts of a word are contained in the word set.
+ * E.g. for "audio.init" "audio" and "init" need to be contained.
+ * @param words The word set of a file.
+ * @param word The searched word, e.g. "audio.init" or "audio\\.init".
+ * @returns false if the file cannot contain the word.
+ */
+export function containsWord(words: Set<string>, word: string): boolean {
+	const parts = word.split(/\W+/);
+	for (const part of parts) {
+		if (part && !words.has(part))
+			return false;
+	}
+	return true;
+}
+
+
+/**
+ * Returns the label of the module (or struct) that contains a symbol.
+ * @param symbol The symbol.
+ * @returns E.g. "audio" for "audio.init" or "a" for the MODULE "a.b".
+ * An empty string for symbols outside of modules.
+ */
+export function getContainerLabel(symbol: IndexedSymbol): string {
+	const {label, moduleLabel} = symbol;
+	if (moduleLabel.length <= label.length)
+		return '';
+	return moduleLabel.substring(0, moduleLabel.length - label.length - 1);
+}
+
+
+/**
+ * Determines the kind of a label from the text following the label.
+ * If the label stands alone on its line the following lines are
+ * checked (e.g. for data that follows in the next line).
+ * @param lines All (comment stripped) lines.
+ * @param row The line of the label.
+ * @param remaining The text following the label on the same line.
+ * @param regexLbls The label regexes. Used to skip lines that contain only a label.
+ * @param regexMacro The regex for the MACRO directive of the dialect.
+ * @returns 'code', 'data', 'equ' or 'macro'.
+ */
+function getLabelKind(lines: string[], row: number, remaining: string, regexLbls: RegExp[], regexMacro: RegExp): IndexedSymbolKind {
+	const regexConst = /^(equ|defl)\b|^=/i;
+	const regexData = DocSymbolRegexes.regexData();
+	const regexFieldData = /^(byte|word|d24|dword|block|text)\b/i;	// E.g. STRUCT fields
+	const len = lines.length;
+	let text = remaining.trim();
+	while (!text) {
+		// Check next line
+		row++;
+		if (row >= len)
+			return 'code';
+		text = lines[row];
+		// Remove a label
+		for (const regex of regexLbls) {
+			const match = regex.exec(text);
+			if (match) {
+				text = text.substring(match[0].length).replace(/^:/, '');
+				break;
+			}
+		}
+		text = text.trim();
+	}
+
+	if (regexConst.exec(text))
+		return 'equ';
+	if (regexMacro.exec(text))
+		return 'macro';
+	const matchData = regexData.exec(text);
+	if ((matchData && matchData.index == 0) || regexFieldData.exec(text))
+		return 'data';
+	return 'code';
+}
+
+
+/**
+ * Parses the lines of a file for labels, modules, structs and macros.
+ * @param lines The lines of the file. The comments need to be stripped already.
+ * @param regexLbls Regexes to find labels. A different regex depending on asm or list file and colons used or not.
+ * @param languageId either "asm-collection" or "asm-list-file".
+ * @param origLines The original lines (without stripped comments). Used to
+ * get the EQU values as character literals are blanked in 'lines' and to
+ * get the label addresses of list files.
+ * @param dialect The assembler dialect. Defines the local labels and the
+ * MODULE and MACRO directives.
+ * @returns The symbols, the module/struct info and the used words.
+ */
+export function parseSymbols(lines: string[], regexLbls: RegExp[], languageId: AllowedLanguageIds, origLines = lines, dialect = defaultDialect): FileSymbols {
+	const modStructInfos = getModuleFileInfo(lines, dialect);
+	const symbols: IndexedSymbol[] = [];
+	const words = new Set<string>();
+	const regexLocal = dialect.localLabelPrefix ? CommonRegexes.regexLocalLabel(languageId, dialect.localLabelPrefix) : undefined;
+	const regexModule = CommonRegexes.regexModuleStruct(dialect.moduleDirectives);
+	const macroPattern = getDirectivesPattern(dialect.macroDirectives);
+	const regexMacroLabel = new RegExp('^(' + macroPattern + ')\\b', 'i');
+	const regexMacro = new RegExp('\\s(?:' + macroPattern + ')\\s+([a-z_][\\w\\.]*)', 'i');
+	const globalPrefix = dialect.globalLabelPrefix;
+	const regexConstValue = /^\s*(?:equ|defl|=)/i;
+	const regexWords = /\w+/g;
+
+	let modIndex = -1;
+	let module = '';
+	let nonLocalLabel = '';
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		const lineContents = lines[row];
+
+		// Collect words
+		regexWords.lastIndex = 0;
+		let matchWord;
+		while ((matchWord = regexWords.exec(lineContents)))
+			words.add(matchWord[0]);
+
+		// Update module
+		while (modIndex + 1 < modStructInfos.length && modStructInfos[modIndex + 1].row <= row) {
+			modIndex++;
+			module = modStructInfos[modIndex].label;
+		}
+
+		// Label
+		let match;
+		for (const regex of regexLbls) {
+			match = regex.exec(lineContents);
+			if (match)
+				break;
+		}
+		let local = false;
+		if (!match && regexLocal) {
+			match = regexLocal.exec(lineContents);
+			local = !!match;
+		}
+		let remaining = lineContents;
+		let labelKind: IndexedSymbolKind | undefined;
+		if (match) {
+			const prefix = match[1];
+			const label = match[2];
+			const start = match.index + prefix.length;
+			const end = start + label.length;
+			let moduleLabel;
+			if (local) {
+				moduleLabel = concatenateModuleAndLabel(module, nonLocalLabel + label);
+			}
+			else {
+				nonLocalLabel = label;
+				moduleLabel = (globalPrefix && prefix.endsWith(globalPrefix)) ? label : concatenateModuleAndLabel(module, label);
+			}
+			const remainingStart = (lineContents[end] == ':') ? end + 1 : end;
+			remaining = lineContents.substring(remainingStart);
+			labelKind = getLabelKind(lines, row, remaining, regexLbls, regexMacroLabel);
+			const symbol: IndexedSymbol = {label, moduleLabel, kind: labelKind, local, line: row, start, end};
+			if (labelKind == 'equ') {
+				// Store the expression (if on the same line)
+				const matchConst = regexConstValue.exec(remaining);
+				if (matchConst) {
+					const valueStart = remainingStart + matchConst[0].length;
+					const value = origLines[row].substring(valueStart, lineContents.trimEnd().length).trim();
+					if (value)
+						symbol.value = value;
+				}
+			}
+			else if (languageId == 'asm-list-file' && labelKind != 'macro') {
+				// Store the address
+				symbol.address = parseListAddress(origLines[row]);
+			}
+			symbols.push(symbol);
+		}
+
+		// MODULE, STRUCT
+		const matchModule = regexModule.exec(remaining.startsWith(' ') ? remaining : ' ' + remaining);
+		if (matchModule) {
+			const name = matchModule[2];
+			const start = lineContents.lastIndexOf(name);
+			const kind = (matchModule[1].toLowerCase() == 'struct') ? 'struct' : 'module';
+			symbols.push({label: name, moduleLabel: module, kind, local: false, line: row, start, end: start + name.length});
+			continue;
+		}
+
+		// MACRO (if not already defined by the label)
+		if (labelKind == 'macro')
+			continue;
+		const matchMacro = regexMacro.exec(' ' + remaining);
+		if (matchMacro) {
+			const name = matchMacro[1];
+			const start = lineContents.lastIndexOf(name);
+			symbols.push({label: name, moduleLabel: concatenateModuleAndLabel(module, name), kind: 'macro', local: false, line: row, start, end: start + name.length});
+		}
+	}
+
+	return {modStructInfos, symbols, words};
+}
+
+
+
+/**
+ * Evaluates the value of a constant (EQU) or returns the address of a label.
+ * Symbols used in the expression are resolved recursively. They are searched
+ * first in the module of the constant, then in the parent modules and at last
+ * globally.
+ * @param symbol The constant to evaluate. For labels the address is returned (if known).
+ * @param findSymbol Returns the symbol for a full label (incl. module), e.g. "audio.volume".
+ * @param visited Used to detect circular definitions. Omit when calling.
+ * @returns The value.
+ * Throws an exception if the value cannot be evaluated, e.g. if a symbol is unknown.
+ */
+export function evaluateSymbol(symbol: IndexedSymbol, findSymbol: (moduleLabel: string) => IndexedSymbol | undefined, visited = new Set<IndexedSymbol>()): number {
+	if (symbol.value == undefined) {
+		if (symbol.address != undefined)
+			return symbol.address;
+		throw new Error("'" + symbol.moduleLabel + "' has no value");
+	}
+	if (visited.has(symbol))
+		throw new Error("Circular definition of '" + symbol.moduleLabel + "'");
+	visited.add(symbol);
+
+	// The non-local parent, e.g. "main" for "main.size"
+	const parts = symbol.moduleLabel.split('.');
+	if (symbol.local)
+		parts.pop();
+	const parent = parts.join('.');
+
+	// The modules to search: e.g. "a.b", "a", ""
+	const modules: string[] = [];
+	for (let i = parts.length - 1; i >= 0; i--)
+		modules.push(parts.slice(0, i).join('.'));
+
+	const value = evaluateExpression(symbol.value, name => {
+		let candidates: string[];
+		if (name.startsWith('@'))
+			candidates = [name.substring(1)];
+		else if (name.startsWith('.'))
+			candidates = [parent + name];
+		else
+			candidates = modules.map(module => concatenateModuleAndLabel(module, name));
+		for (const candidate of candidates) {
+			const found = findSymbol(candidate);
+			if (found)
+				return evaluateSymbol(found, findSymbol, visited);
+		}
+		return undefined;
+	});
+
+	visited.delete(symbol);
+	return value;
+}
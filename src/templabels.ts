@@ -0,0 +1,136 @@
+/**
+ * Temporary and anonymous labels.
+ * - sjasmplus temporary labels: "1" (or "1:") is referenced by "1B" (backward)
+ *   and "1F" (forward).
+ * - GNU as local labels: "1:" is referenced by "1b" and "1f".
+ * - Anonymous labels (e.g. MASM, FASM): "@@:" is referenced by "@b" and "@f".
+ * A reference resolves to the nearest definition with the same name before
+ * (backward) or after (forward) the reference in the same file.
+ * Numeric temporary labels are only parsed for dialects that have them.
+ */
+
+import {defaultDialect} from './dialects';
+
+
+/**
+ * A definition or reference of a temporary label.
+ */
+export interface TempLabel {
+	/// The name of the label, e.g. "1" or "@@".
+	name: string,
+	/// 'b' (backward) or 'f' (forward) for references, undefined for definitions.
+	direction?: 'b' | 'f',
+	/// The line number:
+	line: number,
+	/// The start column:
+	start: number,
+	/// The end column:
+	end: number
+}
+
+
+/// The name of the anonymous labels.
+const anonymousName = '@@';
+
+
+/**
+ * Checks if a label is a reference to an anonymous label, i.e. "@b" or "@f".
+ * @param label E.g. "@b".
+ */
+export function isAnonymousReference(label: string): boolean {
+	return /^@[bf]$/i.test(label);
+}
+
+
+/**
+ * Parses the lines for the definitions and references of temporary labels.
+ * Definitions need to start at the beginning of the line, e.g. "1", "1:" or "@@:".
+ * Numbers with a 'b' or 'f' suffix that are part of other numbers (e.g. "0x1f",
+ * "$1b" or "1fh") are no references.
+ * Backward references that look like binary numbers (e.g. "0101b") are only
+ * references if a temporary label with that name is defined in the file.
+ * @param lines The comment stripped lines of the file.
+ * @param dialect The assembler dialect. Numeric temporary labels are only
+ * parsed if the dialect has them.
+ * @returns The definitions and references sorted by position.
+ */
+export function parseTempLabels(lines: string[], dialect = defaultDialect): TempLabel[] {
+	const regexDefinition = /^(\d+|@@)(?::|\s|$)/;
+	const regexReference = /(?<![\w$#%.@])(?:(\d+)|(@))([bf])(?![\w@])/gi;
+	const tempLabels: TempLabel[] = [];
+	const len = lines.length;
+	for (let row = 0; row < len; row++) {
+		const line = lines[row];
+		const matchDef = regexDefinition.exec(line);
+		let k = 0;
+		if (matchDef && (dialect.tempLabels || matchDef[1] == anonymousName)) {
+			const name = matchDef[1];
+			tempLabels.push({name, line: row, start: 0, end: name.length});
+			k = name.length;
+		}
+		regexReference.lastIndex = k;
+		let match;
+		while ((match = regexReference.exec(line))) {
+			if (match[1] != undefined && !dialect.tempLabels)
+				continue;
+			const name = match[1] ?? anonymousName;
+			const direction = match[3].toLowerCase() as 'b' | 'f';
+			tempLabels.push({name, direction, line: row, start: match.index, end: match.index + match[0].length});
+		}
+	}
+	// Binary numbers, e.g. "0101b"
+	const names = new Set<string>(tempLabels.filter(t => !t.direction).map(t => t.name));
+	return tempLabels.filter(t => t.direction != 'b' || names.has(t.name) || !/^[01]+$/.test(t.name));
+}
+
+
+/**
+ * Returns the temporary label (definition or reference) at a position.
+ * @param tempLabels The temporary labels of the file.
+ * @param row The line of the position.
+ * @param column The column of the position.
+ */
+export function getTempLabelAt(tempLabels: TempLabel[], row: number, column: number): TempLabel | undefined {
+	return tempLabels.find(t => t.line == row && t.start <= column && column <= t.end);
+}
+
+
+/**
+ * Returns the definition a reference refers to.
+ * @param tempLabels The temporary labels of the file.
+ * @param reference The reference, e.g. "1B".
+ * @returns The nearest definition before (backward) or after (forward)
+ * the reference. For a definition the definition itself is returned.
+ * undefined if there is no matching definition.
+ */
+export function resolveTempLabel(tempLabels: TempLabel[], reference: TempLabel): TempLabel | undefined {
+	if (!reference.direction)
+		return reference;
+	const isBefore = (a: TempLabel, b: TempLabel) => (a.line < b.line) || (a.line == b.line && a.start < b.start);
+	const definitions = tempLabels.filter(t => !t.direction && t.name == reference.name);
+	if (reference.direction == 'b')
+		return definitions.reverse().find(def => isBefore(def, reference));
+	return definitions.find(def => isBefore(reference, def));
+}
+
+
+/**
+ * Returns the definition and all references of the temporary label
+ * at a position.
+ * @param tempLabels The temporary labels of the file.
+ * @param row The line of the position.
+ * @param column The column of the position.
+ * @returns The definition (first) and the references that resolve to it.
+ * Empty if there is no temporary label at the position or if the
+ * reference cannot be resolved.
+ */
+export function findTempLabelOccurrences(tempLabels: TempLabel[], row: number, column: number): TempLabel[] {
+	const tempLabel = getTempLabelAt(tempLabels, row, column);
+	if (!tempLabel)
+		return [];
+	const definition = resolveTempLabel(tempLabels, tempLabel);
+	if (!definition)
+		return [];
+	const references = tempLabels.filter(t => t.direction && t.name == definition.name && resolveTempLabel(tempLabels, t) == definition);
+	return [definition, ...references];
+}
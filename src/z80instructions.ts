@@ -0,0 +1,486 @@
+/**
+ * The Z80 instruction table: opcodes, sizes, T-states and affected flags
+ * for the Z80 (incl. undocumented instructions) and the ZX Next (Z80N).
+ * Instructions are looked up by their mnemonic and the kinds of their operands,
+ * e.g. "ld a,(ix+5)" is found as "ld R8,(IX+D)".
+ */
+
+import {getInstruction} from './asmblocks';
+import {defaultDialect} from './dialects';
+
+
+/**
+ * The information about one instruction.
+ */
+export interface Z80Instruction {
+	/// The pattern, e.g. "ld R8,(IX+D)".
+	pattern: string,
+	/// The opcode bytes, e.g. "DD 46+8*r d".
+	opcode: string,
+	/// The size in bytes.
+	size: number,
+	/// The T-states. For conditional instructions [taken, not taken]
+	/// or [repeated, finished] for block instructions.
+	tStates: number | [number, number],
+	/// The affected flags, e.g. "S Z H P/V N C". '-' if none.
+	flags: string,
+	/// 'z80' for documented, 'undoc' for undocumented Z80 and 'z80n' for ZX Next instructions.
+	cpu: 'z80' | 'undoc' | 'z80n'
+}
+
+
+/**
+ * The summed cycles and sizes of several lines.
+ */
+export interface CycleSum {
+	/// The number of instructions found.
+	instructions: number,
+	/// The number of bytes.
+	bytes: number,
+	/// The T-states if all branches are not taken (resp. block instructions finish).
+	min: number,
+	/// The T-states if all branches are taken (resp. block instructions repeat once).
+	max: number
+}
+
+
+/// Shortcuts for the flags.
+const ALL = 'S Z H P/V N C';
+const LOGIC = 'S Z H=1 P/V N=0 C=0';
+const INCDEC = 'S Z H P/V N';
+const ROT = 'H=0 N=0 C';
+const SHIFT = 'S Z H=0 P N=0 C';
+const BLOCKLD = 'H=0 P/V N=0';
+const BLOCKCP = 'S Z H P/V N=1';
+const BLOCKIO = 'S Z H P/V N C';
+const NONE = '-';
+
+
+/**
+ * The table entries: [pattern, opcode, size, T-states, flags, cpu].
+ * Operand kinds in the patterns:
+ * R8 = a, b, c, d, e, h, l
+ * IXR = ixh, ixl, iyh, iyl
+ * RR = bc, de, hl, sp (resp. af for push/pop)
+ * IX = ix, iy
+ * N = an immediate value, an address or a relative jump target
+ * (N) = a memory address or port
+ * (IX+D) = (ix+d), (iy+d)
+ * CC = nz, z, nc, c, po, pe, p, m
+ */
+type TableEntry = [string, string, number, number | [number, number], string, ('undoc' | 'z80n')?];
+const table: TableEntry[] = [
+	// 8 bit loads
+	['ld R8,R8', '40+8*r+r\'', 1, 4, NONE],
+	['ld R8,N', '06+8*r n', 2, 7, NONE],
+	['ld R8,(hl)', '46+8*r', 1, 7, NONE],
+	['ld (hl),R8', '70+r', 1, 7, NONE],
+	['ld (hl),N', '36 n', 2, 10, NONE],
+	['ld R8,(IX+D)', 'DD 46+8*r d', 3, 19, NONE],
+	['ld (IX+D),R8', 'DD 70+r d', 3, 19, NONE],
+	['ld (IX+D),N', 'DD 36 d n', 4, 19, NONE],
+	['ld a,(bc)', '0A', 1, 7, NONE],
+	['ld a,(de)', '1A', 1, 7, NONE],
+	['ld a,(N)', '3A nn', 3, 13, NONE],
+	['ld (bc),a', '02', 1, 7, NONE],
+	['ld (de),a', '12', 1, 7, NONE],
+	['ld (N),a', '32 nn', 3, 13, NONE],
+	['ld a,i', 'ED 57', 2, 9, 'S Z H=0 P/V=IFF2 N=0'],
+	['ld a,r', 'ED 5F', 2, 9, 'S Z H=0 P/V=IFF2 N=0'],
+	['ld i,a', 'ED 47', 2, 9, NONE],
+	['ld r,a', 'ED 4F', 2, 9, NONE],
+	['ld IXR,N', 'DD 26 n', 3, 11, NONE, 'undoc'],
+	['ld R8,IXR', 'DD 44+8*r', 2, 8, NONE, 'undoc'],
+	['ld IXR,R8', 'DD 60+r', 2, 8, NONE, 'undoc'],
+	['ld IXR,IXR', 'DD 64', 2, 8, NONE, 'undoc'],
+
+	// 16 bit loads
+	['ld RR,N', '01+16*rr nn', 3, 10, NONE],
+	['ld IX,N', 'DD 21 nn', 4, 14, NONE],
+	['ld hl,(N)', '2A nn', 3, 16, NONE],
+	['ld RR,(N)', 'ED 4B+16*rr nn', 4, 20, NONE],
+	['ld IX,(N)', 'DD 2A nn', 4, 20, NONE],
+	['ld (N),hl', '22 nn', 3, 16, NONE],
+	['ld (N),RR', 'ED 43+16*rr nn', 4, 20, NONE],
+	['ld (N),IX', 'DD 22 nn', 4, 20, NONE],
+	['ld sp,hl', 'F9', 1, 6, NONE],
+	['ld sp,IX', 'DD F9', 2, 10, NONE],
+	['push RR', 'C5+16*rr', 1, 11, NONE],
+	['push IX', 'DD E5', 2, 15, NONE],
+	['push N', 'ED 8A nn', 4, 23, NONE, 'z80n'],
+	['pop RR', 'C1+16*rr', 1, 10, NONE],
+	['pop IX', 'DD E1', 2, 14, NONE],
+
+	// Exchange
+	['ex de,hl', 'EB', 1, 4, NONE],
+	['ex af,af', '08', 1, 4, NONE],	// "af'": the apostrophe is removed by stripping the comments/strings
+	['exx', 'D9', 1, 4, NONE],
+	['ex (sp),hl', 'E3', 1, 19, NONE],
+	['ex (sp),IX', 'DD E3', 2, 23, NONE],
+
+	// Block transfer, search and I/O
+	['ldi', 'ED A0', 2, 16, BLOCKLD],
+	['ldd', 'ED A8', 2, 16, BLOCKLD],
+	['ldir', 'ED B0', 2, [21, 16], BLOCKLD],
+	['lddr', 'ED B8', 2, [21, 16], BLOCKLD],
+	['cpi', 'ED A1', 2, 16, BLOCKCP],
+	['cpd', 'ED A9', 2, 16, BLOCKCP],
+	['cpir', 'ED B1', 2, [21, 16], BLOCKCP],
+	['cpdr', 'ED B9', 2, [21, 16], BLOCKCP],
+	['ini', 'ED A2', 2, 16, BLOCKIO],
+	['ind', 'ED AA', 2, 16, BLOCKIO],
+	['inir', 'ED B2', 2, [21, 16], BLOCKIO],
+	['indr', 'ED BA', 2, [21, 16], BLOCKIO],
+	['outi', 'ED A3', 2, 16, BLOCKIO],
+	['outd', 'ED AB', 2, 16, BLOCKIO],
+	['otir', 'ED B3', 2, [21, 16], BLOCKIO],
+	['otdr', 'ED BB', 2, [21, 16], BLOCKIO],
+
+	// 16 bit arithmetic
+	['add hl,RR', '09+16*rr', 1, 11, 'H N=0 C'],
+	['adc hl,RR', 'ED 4A+16*rr', 2, 15, ALL],
+	['sbc hl,RR', 'ED 42+16*rr', 2, 15, ALL],
+	['add IX,RR', 'DD 09+16*rr', 2, 15, 'H N=0 C'],
+	['add IX,IX', 'DD 29', 2, 15, 'H N=0 C'],
+	['inc RR', '03+16*rr', 1, 6, NONE],
+	['dec RR', '0B+16*rr', 1, 6, NONE],
+	['inc IX', 'DD 23', 2, 10, NONE],
+	['dec IX', 'DD 2B', 2, 10, NONE],
+	['add hl,a', 'ED 31', 2, 8, NONE, 'z80n'],
+	['add de,a', 'ED 32', 2, 8, NONE, 'z80n'],
+	['add bc,a', 'ED 33', 2, 8, NONE, 'z80n'],
+	['add hl,N', 'ED 34 nn', 4, 16, NONE, 'z80n'],
+	['add de,N', 'ED 35 nn', 4, 16, NONE, 'z80n'],
+	['add bc,N', 'ED 36 nn', 4, 16, NONE, 'z80n'],
+
+	// 8 bit increment/decrement
+	['inc R8', '04+8*r', 1, 4, INCDEC],
+	['dec R8', '05+8*r', 1, 4, INCDEC],
+	['inc (hl)', '34', 1, 11, INCDEC],
+	['dec (hl)', '35', 1, 11, INCDEC],
+	['inc (IX+D)', 'DD 34 d', 3, 23, INCDEC],
+	['dec (IX+D)', 'DD 35 d', 3, 23, INCDEC],
+	['inc IXR', 'DD 24+8*r', 2, 8, INCDEC, 'undoc'],
+	['dec IXR', 'DD 25+8*r', 2, 8, INCDEC, 'undoc'],
+
+	// General purpose
+	['daa', '27', 1, 4, 'S Z H P C'],
+	['cpl', '2F', 1, 4, 'H=1 N=1'],
+	['neg', 'ED 44', 2, 8, ALL],
+	['ccf', '3F', 1, 4, 'H N=0 C'],
+	['scf', '37', 1, 4, 'H=0 N=0 C=1'],
+	['nop', '00', 1, 4, NONE],
+	['halt', '76', 1, 4, NONE],
+	['di', 'F3', 1, 4, NONE],
+	['ei', 'FB', 1, 4, NONE],
+	['im N', 'ED 46/56/5E', 2, 8, NONE],
+
+	// Rotate and shift
+	['rlca', '07', 1, 4, ROT],
+	['rrca', '0F', 1, 4, ROT],
+	['rla', '17', 1, 4, ROT],
+	['rra', '1F', 1, 4, ROT],
+	['rld', 'ED 6F', 2, 18, 'S Z H=0 P N=0'],
+	['rrd', 'ED 67', 2, 18, 'S Z H=0 P N=0'],
+
+	// Bit set, reset and test
+	['bit N,R8', 'CB 40+8*b+r', 2, 8, 'S Z H=1 P/V N=0'],
+	['bit N,(hl)', 'CB 46+8*b', 2, 12, 'S Z H=1 P/V N=0'],
+	['bit N,(IX+D)', 'DD CB d 46+8*b', 4, 20, 'S Z H=1 P/V N=0'],
+	['set N,R8', 'CB C0+8*b+r', 2, 8, NONE],
+	['set N,(hl)', 'CB C6+8*b', 2, 15, NONE],
+	['set N,(IX+D)', 'DD CB d C6+8*b', 4, 23, NONE],
+	['set N,(IX+D),R8', 'DD CB d C0+8*b+r', 4, 23, NONE, 'undoc'],
+	['res N,R8', 'CB 80+8*b+r', 2, 8, NONE],
+	['res N,(hl)', 'CB 86+8*b', 2, 15, NONE],
+	['res N,(IX+D)', 'DD CB d 86+8*b', 4, 23, NONE],
+	['res N,(IX+D),R8', 'DD CB d 80+8*b+r', 4, 23, NONE, 'undoc'],
+
+	// Jumps
+	['jp N', 'C3 nn', 3, 10, NONE],
+	['jp CC,N', 'C2+8*cc nn', 3, 10, NONE],
+	['jp (hl)', 'E9', 1, 4, NONE],
+	['jp (IX)', 'DD E9', 2, 8, NONE],
+	['jp (c)', 'ED 98', 2, 13, NONE, 'z80n'],
+	['jr N', '18 e', 2, 12, NONE],
+	['jr CC,N', '20+8*cc e', 2, [12, 7], NONE],
+	['djnz N', '10 e', 2, [13, 8], NONE],
+
+	// Calls and returns
+	['call N', 'CD nn', 3, 17, NONE],
+	['call CC,N', 'C4+8*cc nn', 3, [17, 10], NONE],
+	['ret', 'C9', 1, 10, NONE],
+	['ret CC', 'C0+8*cc', 1, [11, 5], NONE],
+	['reti', 'ED 4D', 2, 14, NONE],
+	['retn', 'ED 45', 2, 14, NONE],
+	['rst N', 'C7+p', 1, 11, NONE],
+
+	// Input and output
+	['in a,(N)', 'DB n', 2, 11, NONE],
+	['in R8,(c)', 'ED 40+8*r', 2, 12, 'S Z H=0 P N=0'],
+	['in (c)', 'ED 70', 2, 12, 'S Z H=0 P N=0', 'undoc'],
+	['in f,(c)', 'ED 70', 2, 12, 'S Z H=0 P N=0', 'undoc'],
+	['out (N),a', 'D3 n', 2, 11, NONE],
+	['out (c),R8', 'ED 41+8*r', 2, 12, NONE],
+	['out (c),N', 'ED 71', 2, 12, NONE, 'undoc'],
+
+	// ZX Next
+	['ldix', 'ED A4', 2, 16, NONE, 'z80n'],
+	['ldws', 'ED A5', 2, 14, INCDEC, 'z80n'],
+	['ldirx', 'ED B4', 2, [21, 16], NONE, 'z80n'],
+	['lddx', 'ED AC', 2, 16, NONE, 'z80n'],
+	['lddrx', 'ED BC', 2, [21, 16], NONE, 'z80n'],
+	['ldpirx', 'ED B7', 2, [21, 16], NONE, 'z80n'],
+	['outinb', 'ED 90', 2, 16, NONE, 'z80n'],
+	['mul d,e', 'ED 30', 2, 8, NONE, 'z80n'],
+	['mul', 'ED 30', 2, 8, NONE, 'z80n'],
+	['swapnib', 'ED 23', 2, 8, NONE, 'z80n'],
+	['mirror a', 'ED 24', 2, 8, NONE, 'z80n'],
+	['mirror', 'ED 24', 2, 8, NONE, 'z80n'],
+	['nextreg N,N', 'ED 91 reg n', 4, 20, NONE, 'z80n'],
+	['nextreg N,a', 'ED 92 reg', 3, 17, NONE, 'z80n'],
+	['pixeldn', 'ED 93', 2, 8, NONE, 'z80n'],
+	['pixelad', 'ED 94', 2, 8, NONE, 'z80n'],
+	['setae', 'ED 95', 2, 8, NONE, 'z80n'],
+	['test N', 'ED 27 n', 3, 11, LOGIC, 'z80n'],
+	['bsla de,b', 'ED 28', 2, 8, NONE, 'z80n'],
+	['bsra de,b', 'ED 29', 2, 8, NONE, 'z80n'],
+	['bsrl de,b', 'ED 2A', 2, 8, NONE, 'z80n'],
+	['bsrf de,b', 'ED 2B', 2, 8, NONE, 'z80n'],
+	['brlc de,b', 'ED 2C', 2, 8, NONE, 'z80n'],
+];
+
+
+// The 8 bit arithmetic and logic instructions:
+// [mnemonic, opcode base for register, opcode for immediate, flags]
+const aluInstructions: [string, number, number, string][] = [
+	['add', 0x80, 0xC6, ALL],
+	['adc', 0x88, 0xCE, ALL],
+	['sub', 0x90, 0xD6, ALL],
+	['sbc', 0x98, 0xDE, ALL],
+	['and', 0xA0, 0xE6, LOGIC],
+	['xor', 0xA8, 0xEE, 'S Z H=0 P/V N=0 C=0'],
+	['or', 0xB0, 0xF6, 'S Z H=0 P/V N=0 C=0'],
+	['cp', 0xB8, 0xFE, ALL]
+];
+for (const [mnemonic, base, immediate, flags] of aluInstructions) {
+	const hex = (value: number) => value.toString(16).toUpperCase().padStart(2, '0');
+	// Both forms are allowed, e.g. "add a,b" and "sub b" or "sub a,b".
+	// The usual form first.
+	const prefixes = ['add', 'adc', 'sbc'].includes(mnemonic) ? ['a,', ''] : ['', 'a,'];
+	for (const prefix of prefixes) {
+		table.push(
+			[mnemonic + ' ' + prefix + 'R8', hex(base) + '+r', 1, 4, flags],
+			[mnemonic + ' ' + prefix + 'N', hex(immediate) + ' n', 2, 7, flags],
+			[mnemonic + ' ' + prefix + '(hl)', hex(base + 6), 1, 7, flags],
+			[mnemonic + ' ' + prefix + '(IX+D)', 'DD ' + hex(base + 6) + ' d', 3, 19, flags],
+			[mnemonic + ' ' + prefix + 'IXR', 'DD ' + hex(base + 4) + '+r', 2, 8, flags, 'undoc']
+		);
+	}
+}
+
+// The rotate and shift instructions with register operands.
+const shiftInstructions: [string, number, ('undoc')?][] = [
+	['rlc', 0x00], ['rrc', 0x08], ['rl', 0x10], ['rr', 0x18],
+	['sla', 0x20], ['sra', 0x28], ['sll', 0x30, 'undoc'], ['sli', 0x30, 'undoc'], ['slia', 0x30, 'undoc'], ['sl1', 0x30, 'undoc'], ['srl', 0x38]
+];
+for (const [mnemonic, base, cpu] of shiftInstructions) {
+	const hex = (value: number) => value.toString(16).toUpperCase().padStart(2, '0');
+	table.push(
+		[mnemonic + ' R8', 'CB ' + hex(base) + '+r', 2, 8, SHIFT, cpu],
+		[mnemonic + ' (hl)', 'CB ' + hex(base + 6), 2, 15, SHIFT, cpu],
+		[mnemonic + ' (IX+D)', 'DD CB d ' + hex(base + 6), 4, 23, SHIFT, cpu],
+		[mnemonic + ' (IX+D),R8', 'DD CB d ' + hex(base) + '+r', 4, 23, SHIFT, 'undoc']
+	);
+}
+
+
+/// The instructions. Key = pattern.
+const instructions = new Map<string, Z80Instruction>();
+for (const [pattern, opcode, size, tStates, flags, cpu] of table) {
+	instructions.set(pattern, {pattern, opcode, size, tStates, flags, cpu: cpu ?? 'z80'});
+}
+
+
+/**
+ * Returns all variants of an instruction.
+ * @param mnemonic The mnemonic, e.g. "ld".
+ * @returns The variants in the order of the table, e.g. "ld R8,R8", "ld R8,N", ...
+ */
+export function getInstructionVariants(mnemonic: string): Z80Instruction[] {
+	const prefix = mnemonic.toLowerCase();
+	return [...instructions.values()].filter(instruction => instruction.pattern.split(' ')[0] == prefix);
+}
+
+
+/**
+ * Returns the possible kinds of an operand, the most specific first.
+ * @param operand The operand in lower case, e.g. "a", "(ix+5)" or "label+1".
+ * @returns E.g. ['a', 'R8'] for "a" or ['N'] for "label+1".
+ */
+function getOperandKinds(operand: string): string[] {
+	switch (operand) {
+		case 'a': case 'b': case 'd': case 'e': case 'h': case 'l':
+			return [operand, 'R8'];
+		case 'c':
+			return ['c', 'R8', 'CC'];
+		case 'i': case 'r': case 'f':
+			return [operand];
+		case 'ixh': case 'ixl': case 'iyh': case 'iyl':
+		case 'xh': case 'xl': case 'yh': case 'yl':
+		case 'hx': case 'lx': case 'hy': case 'ly':
+			return ['IXR'];
+		case 'bc': case 'de': case 'hl': case 'sp':
+			return [operand, 'RR'];
+		case 'af':
+			return ['af', 'RR'];
+		case 'ix': case 'iy':
+			return ['IX'];
+		case 'nz': case 'z': case 'nc': case 'po': case 'pe': case 'p': case 'm':
+			return ['CC'];
+		case '(hl)': case '(bc)': case '(de)': case '(sp)': case '(c)':
+			return [operand];
+	}
+	if (/^\((ix|iy)\)$/.exec(operand))
+		return ['(IX)', '(IX+D)'];
+	if (/^\((ix|iy)\s*[+-]/.exec(operand))
+		return ['(IX+D)'];
+	if (/^\(.*\)$/.exec(operand))
+		return ['(N)', 'N'];	// "(N)" or an expression in parentheses
+	return ['N'];
+}
+
+
+/**
+ * Splits the operands at the commas (but not inside parentheses).
+ * @param operands E.g. "a,(ix+5)".
+ * @returns E.g. ["a", "(ix+5)"]
+ */
+function splitOperands(operands: string): string[] {
+	const result: string[] = [];
+	let depth = 0;
+	let current = '';
+	for (const char of operands) {
+		if (char == '(')
+			depth++;
+		else if (char == ')')
+			depth--;
+		if (char == ',' && depth == 0) {
+			result.push(current.trim());
+			current = '';
+		}
+		else {
+			current += char;
+		}
+	}
+	if (current.trim() || result.length > 0)
+		result.push(current.trim());
+	return result;
+}
+
+
+/**
+ * Looks up an instruction.
+ * @param mnemonic The mnemonic, e.g. "ld".
+ * @param operands The operands, e.g. "a,(ix+5)".
+ * @returns The instruction info or undefined if not found.
+ */
+export function findInstruction(mnemonic: string, operands: string): Z80Instruction | undefined {
+	const ops = splitOperands(operands.toLowerCase().replace(/\s+/g, ' '));
+	const kindsList = ops.map(op => getOperandKinds(op.replace(/\s+/g, '').replace(/'$/, '')));
+	// Try all combinations, the most specific first
+	const prefix = mnemonic.toLowerCase();
+	const indexes = kindsList.map(() => 0);
+	while (true) {
+		const pattern = prefix + (kindsList.length ? ' ' + kindsList.map((kinds, i) => kinds[indexes[i]]).join(',') : '');
+		const instruction = instructions.get(pattern);
+		if (instruction)
+			return instruction;
+		// Next combination
+		let i = kindsList.length - 1;
+		while (i >= 0) {
+			indexes[i]++;
+			if (indexes[i] < kindsList[i].length)
+				break;
+			indexes[i] = 0;
+			i--;
+		}
+		if (i < 0)
+			return undefined;
+	}
+}
+
+
+/**
+ * Returns the instruction of a line.
+ * @param line A comment stripped line, e.g. "label: ld a,(ix+5)".
+ * @param dialect The assembler dialect.
+ * @returns The instruction info or undefined if the line contains no (known) instruction.
+ */
+export function getLineInstruction(line: string, dialect = defaultDialect): Z80Instruction | undefined {
+	const instr = getInstruction(line, dialect);
+	if (!instr)
+		return undefined;
+	const operands = line.substring(instr.start + instr.instruction.length).trim();
+	return findInstruction(instr.instruction, operands);
+}
+
+
+/**
+ * Returns the minimum and maximum T-states of an instruction.
+ * @param instruction The instruction info.
+ * @returns E.g. {min: 7, max: 12} for "jr nz,label".
+ */
+export function getTStatesRange(instruction: Z80Instruction): {min: number, max: number} {
+	const tStates = instruction.tStates;
+	if (typeof tStates == 'number')
+		return {min: tStates, max: tStates};
+	return {min: Math.min(...tStates), max: Math.max(...tStates)};
+}
+
+
+/**
+ * Formats the T-states of an instruction.
+ * @param instruction The instruction info.
+ * @returns E.g. "4" or "12/7".
+ */
+export function formatTStates(instruction: Z80Instruction): string {
+	const tStates = instruction.tStates;
+	if (typeof tStates == 'number')
+		return tStates.toString();
+	return tStates.join('/');
+}
+
+
+/**
+ * Sums up the T-states and sizes of several lines.
+ * Lines without a known instruction are skipped.
+ * @param lines The comment stripped lines.
+ * @param dialect The assembler dialect.
+ * @returns The sums.
+ */
+export function sumCycles(lines: string[], dialect = defaultDialect): CycleSum {
+	const sum: CycleSum = {instructions: 0, bytes: 0, min: 0, max: 0};
+	for (const line of lines) {
+		const instruction = getLineInstruction(line, dialect);
+		if (!instruction)
+			continue;
+		const {min, max} = getTStatesRange(instruction);
+		sum.instructions++;
+		sum.bytes += instruction.size;
+		sum.min += min;
+		sum.max += max;
+	}
+	return sum;
+}
+
+
+/**
+ * Formats a cycle sum.
+ * @param sum The sum.
+ * @returns E.g. "123 T-states, 45 bytes" or "100-123 T-states, 45 bytes".
+ */
+export function formatCycleSum(sum: CycleSum): string {
+	const tStates = (sum.min == sum.max) ? sum.min.toString() : sum.min + '-' + sum.max;
+	return tStates + ' T-states, ' + sum.bytes + ' byte' + ((sum.bytes == 1) ? '' : 's');
+}
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import {getInstruction, isLineInsideBlocks, parseBlocks} from '../src/asmblocks';
+
+
+describe('asmblocks', () => {
+
+    test('getInstruction', () => {
+        assert.deepEqual(getInstruction('  ld a,5'), {instruction: 'ld', start: 2});
+        assert.deepEqual(getInstruction('label: ld a,5'), {instruction: 'ld', start: 7});
+        assert.deepEqual(getInstruction('label:ld a,5'), {instruction: 'ld', start: 6});
+        assert.deepEqual(getInstruction('label ld a,5'), {instruction: 'ld', start: 6});
+        assert.deepEqual(getInstruction('mac1 MACRO p1'), {instruction: 'MACRO', start: 5});
+        assert.deepEqual(getInstruction('ENDIF'), {instruction: 'ENDIF', start: 0});
+        assert.deepEqual(getInstruction('  .db 1'), {instruction: '.db', start: 2});
+        assert.equal(getInstruction('label:'), undefined);
+        assert.equal(getInstruction('CONST = 5'), undefined);
+        assert.equal(getInstruction(''), undefined);
+    });
+
+
+    test('balanced', () => {
+        const lines = [
+            '    MODULE mod',     // 0
+            '    IF DEBUG',       // 1
+            '    nop',            // 2
+            '    ELSE',           // 3
+            '    MACRO m1',       // 4
+            '    ENDM',           // 5
+            '    ENDIF',          // 6
+            '    STRUCT s',       // 7
+            'f1  BYTE 0',         // 8
+            '    ENDS',           // 9
+            '    ENDMODULE',      // 10
+        ];
+        const {blocks, errors} = parseBlocks(lines);
+        assert.equal(errors.length, 0);
+        assert.deepEqual(blocks, [
+            {kind: 'module', startLine: 0, endLine: 10, elseLines: []},
+            {kind: 'if', startLine: 1, endLine: 6, elseLines: [3]},
+            {kind: 'macro', startLine: 4, endLine: 5, elseLines: []},
+            {kind: 'struct', startLine: 7, endLine: 9, elseLines: []},
+        ]);
+        assert.ok(isLineInsideBlocks(blocks, 5, ['if']));
+        assert.ok(!isLineInsideBlocks(blocks, 5, ['macro']));
+        assert.ok(!isLineInsideBlocks(blocks, 8, ['macro', 'if']));
+    });
+
+
+    test('unbalanced', () => {
+        const lines = [
+            '    ENDM',           // 0
+            '    MODULE mod',     // 1
+            '    IFDEF X',        // 2
+            '    ENDMODULE',      // 3
+            '    ELSE',           // 4
+            'm2  MACRO',          // 5
+        ];
+        const {blocks, errors} = parseBlocks(lines);
+        assert.deepEqual(blocks, [
+            {kind: 'module', startLine: 1, endLine: 3, elseLines: []},
+        ]);
+        assert.deepEqual(errors, [
+            {message: 'ENDM without MACRO', line: 0, start: 4, end: 8},
+            {message: 'IF without ENDIF', line: 2, start: 4, end: 9},
+            {message: 'ELSE without IF', line: 4, start: 4, end: 8},
+            {message: 'MACRO without ENDM', line: 5, start: 4, end: 9},
+        ]);
+    });
+
+
+    test('dup', () => {
+        const lines = [
+            '    DUP 3',          // 0
+            '    nop',            // 1
+            '    EDUP',           // 2
+            '    REPT 2',         // 3
+            '    ENDR',           // 4
+            'm1  MACRO',          // 5
+            '    DUP 2',          // 6
+            '    ENDM',           // 7
+            '    ENDM',           // 8
+            '    EDUP',           // 9
+        ];
+        const {blocks, errors} = parseBlocks(lines);
+        assert.deepEqual(blocks, [
+            {kind: 'dup', startLine: 0, endLine: 2, elseLines: []},
+            {kind: 'dup', startLine: 3, endLine: 4, elseLines: []},
+            {kind: 'macro', startLine: 5, endLine: 8, elseLines: []},
+            {kind: 'dup', startLine: 6, endLine: 7, elseLines: []},
+        ]);
+        assert.deepEqual(errors, [
+            {message: 'EDUP without DUP', line: 9, start: 4, end: 8},
+        ]);
+    });
+});
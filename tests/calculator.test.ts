@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import {addToHistory, continuesLastResult, evaluateCalculatorInput, formatWordHex, getLastResult, getResultFlags, getWordBits, interpretWord, toggleBit, toSigned, toWord} from '../src/calculator';
+
+
+describe('calculator', () => {
+
+    const symbols = new Map<string, number>([['SCREEN_BASE', 0x4000], ['row', 3]]);
+    const resolve = (name: string) => symbols.get(name);
+
+
+    test('continuesLastResult', () => {
+        assert.ok(continuesLastResult('+ 5'));
+        assert.ok(continuesLastResult('-5'));
+        assert.ok(continuesLastResult('<<2'));
+        assert.ok(continuesLastResult('AND 0Fh'));
+        assert.ok(continuesLastResult(' or 1'));
+        assert.ok(!continuesLastResult('5+3'));
+        assert.ok(!continuesLastResult('(5)'));
+        assert.ok(!continuesLastResult('~5'));
+        assert.ok(!continuesLastResult('order'));
+    });
+
+
+    test('evaluateCalculatorInput', () => {
+        assert.equal(evaluateCalculatorInput('SCREEN_BASE + 32*row', 0, resolve), 0x4060);
+        assert.equal(evaluateCalculatorInput('(1+2)*3', 100, resolve), 9);
+        // Continue with the last result
+        assert.equal(evaluateCalculatorInput('+ 5', 100, resolve), 105);
+        assert.equal(evaluateCalculatorInput('*2+1', 100, resolve), 201);
+        assert.equal(evaluateCalculatorInput('and 0x0F', 0x1234, resolve), 4);
+        assert.equal(evaluateCalculatorInput('- 5', -10, resolve), -15);
+        // Hex input
+        assert.equal(evaluateCalculatorInput('+ 10', 0x10, resolve, 16), 0x20);
+        assert.equal(evaluateCalculatorInput('FF', 0, resolve, 16), 0xFF);
+        assert.throws(() => evaluateCalculatorInput('+ unknown', 0, resolve), /Unknown symbol/);
+    });
+
+
+    test('word size', () => {
+        assert.equal(toWord(0x1234, 8), 0x34);
+        assert.equal(toWord(-1, 8), 0xFF);
+        assert.equal(toWord(-1, 32), 0xFFFFFFFF);
+        assert.equal(toWord(0x1FFFF, 16), 0xFFFF);
+        assert.equal(toSigned(0xFF, 8), -1);
+        assert.equal(toSigned(0x7F, 8), 127);
+        assert.equal(toSigned(0x800000, 24), -0x800000);
+        assert.equal(interpretWord(255, 8, true), -1);
+        assert.equal(interpretWord(-1, 16, false), 0xFFFF);
+        assert.equal(interpretWord(0x10005, 16, true), 5);
+    });
+
+
+    test('getResultFlags', () => {
+        assert.deepEqual(getResultFlags(127, 8), {carry: false, overflow: false});
+        assert.deepEqual(getResultFlags(128, 8), {carry: false, overflow: true});
+        assert.deepEqual(getResultFlags(256, 8), {carry: true, overflow: true});
+        assert.deepEqual(getResultFlags(-1, 8), {carry: true, overflow: false});
+        assert.deepEqual(getResultFlags(-129, 8), {carry: true, overflow: true});
+        assert.deepEqual(getResultFlags(0xFFFF, 16), {carry: false, overflow: true});
+        assert.deepEqual(getResultFlags(0xFFFFFFFF, 32), {carry: false, overflow: true});
+    });
+
+
+    test('formatWordHex', () => {
+        assert.equal(formatWordHex(0xF, 8, '0x'), '0x0F');
+        assert.equal(formatWordHex(0xF, 16, '$'), '$000F');
+        assert.equal(formatWordHex(-1, 24, '0x'), '0xFFFFFF');
+        assert.equal(formatWordHex(0x12345, 16, '0x'), '0x2345');
+    });
+
+
+    test('bits', () => {
+        assert.deepEqual(getWordBits(0x81, 8), [1, 0, 0, 0, 0, 0, 0, 1]);
+        assert.deepEqual(getWordBits(-2, 8), [1, 1, 1, 1, 1, 1, 1, 0]);
+        assert.equal(getWordBits(0, 32).length, 32);
+        assert.equal(toggleBit(0x80, 0, 8, false), 0x81);
+        assert.equal(toggleBit(0x81, 7, 8, false), 0x01);
+        assert.equal(toggleBit(0x7F, 7, 8, true), -1);
+        assert.equal(toggleBit(0, 31, 32, false), 0x80000000);
+    });
+
+
+    test('history', () => {
+        const history = [{input: '1+2', value: 3}];
+        addToHistory(history, {value: 4}, 3);
+        addToHistory(history, {input: '+1', value: 5}, 3);
+        assert.deepEqual(history.map(e => e.value), [3, 4, 5]);
+        addToHistory(history, {value: 6}, 3);
+        assert.deepEqual(history.map(e => e.value), [4, 5, 6]);
+        assert.equal(getLastResult({wordSize: 8, signed: false, history}), 6);
+        assert.equal(getLastResult({wordSize: 8, signed: false, history: []}), 0);
+        assert.equal(getLastResult(undefined), 0);
+    });
+});
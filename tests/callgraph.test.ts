@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import {analyzeCalls, buildCallGraph} from '../src/callgraph';
+import {parseFile} from './helpers';
+
+
+describe('callgraph', () => {
+
+    function parse(filePath: string, file: string) {
+        const {lines, fileSymbols} = parseFile(file);
+        return {filePath, lines, fileSymbols};
+    }
+
+
+    test('analyzeCalls', () => {
+        const {filePath, lines, fileSymbols} = parse('main.asm', `
+main:
+    call init
+    call nz,sound.play
+.loop:
+    rst 38h
+    djnz .loop
+    jp (hl)
+data:   defb 0
+init:
+    ld a,5
+    ret
+    call unreachable
+.skip:
+    jp main
+`);
+        const {routines, callSites} = analyzeCalls(filePath, lines, fileSymbols);
+        assert.deepEqual(routines.map(r => [r.symbol.moduleLabel, r.symbol.line, r.endLine]), [
+            ['main', 1, 7],
+            ['init', 9, 14],
+        ]);
+        assert.deepEqual(callSites.map(c => [c.kind, c.caller, c.target, c.line, c.start]), [
+            ['call', 'main', 'init', 2, 9],
+            ['call', 'main', 'sound.play', 3, 12],
+            ['jump', 'main', '.loop', 6, 9],
+            ['jump', 'init', 'main', 14, 7],
+        ]);
+    });
+
+
+    test('buildCallGraph', () => {
+        const main = parse('main.asm', `
+main:
+    call snd.init
+    call local_sub
+    jp main
+local_sub:
+    call @util
+    ret
+`);
+        const sound = parse('sound.asm', `
+    MODULE snd
+init:
+    call play
+    jr play
+play:
+    jp util
+    ENDMODULE
+util:
+    ret
+`);
+        const graph = buildCallGraph([main, sound]);
+        assert.deepEqual(Array.from(graph.routines.keys()), ['main', 'local_sub', 'snd.init', 'snd.play', 'util']);
+        assert.deepEqual(graph.calls.map(c => [c.kind, c.caller, c.targetRoutine, c.filePath, c.line]), [
+            ['call', 'main', 'snd.init', 'main.asm', 2],
+            ['call', 'main', 'local_sub', 'main.asm', 3],
+            ['call', 'local_sub', 'util', 'main.asm', 6],
+            ['call', 'snd.init', 'snd.play', 'sound.asm', 3],
+            ['jump', 'snd.init', 'snd.play', 'sound.asm', 4],
+            ['jump', 'snd.play', 'util', 'sound.asm', 6],
+        ]);
+    });
+});
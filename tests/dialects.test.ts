@@ -0,0 +1,165 @@
+import * as assert from 'assert';
+import {getDialect, getModelineDialect, selectDialect} from '../src/dialects';
+import {parseBlocks} from '../src/asmblocks';
+import {parseIncludes} from '../src/includegraph';
+import {parseMacros} from '../src/macros';
+import {parseFile, stripLines} from './helpers';
+
+
+describe('dialects', () => {
+
+    /**
+     * Returns the comment stripped lines of a file.
+     */
+    function strip(file: string, dialectId: string): string[] {
+        return stripLines(file, getDialect(dialectId));
+    }
+
+
+    /**
+     * Returns the symbols as strings "moduleLabel:kind" for easier comparison.
+     */
+    function getSymbols(file: string, dialectId: string): string[] {
+        const {fileSymbols} = parseFile(file, 'asm-collection', getDialect(dialectId));
+        return fileSymbols.symbols.map(s => s.moduleLabel + ':' + s.kind);
+    }
+
+
+    test('getDialect', () => {
+        assert.equal(getDialect('sjasmplus')!.id, 'sjasmplus');
+        assert.equal(getDialect('RASM')!.id, 'rasm');
+        assert.equal(getDialect('gnu-as')!.id, 'gnu-as');
+        assert.equal(getDialect('tasm'), undefined);
+        assert.equal(getDialect(undefined), undefined);
+    });
+
+
+    test('modeline', () => {
+        assert.equal(getModelineDialect(['; asm-code-lens: dialect=rasm', ' nop'])!.id, 'rasm');
+        assert.equal(getModelineDialect(['# asm-code-lens: dialect = gnu-as'])!.id, 'gnu-as');
+        // At the end of the file
+        const lines = new Array(20).fill(' nop');
+        lines.push('; asm-code-lens: dialect=pasmo');
+        assert.equal(getModelineDialect(lines)!.id, 'pasmo');
+        // Not in the middle
+        lines[10] = lines.pop();
+        assert.equal(getModelineDialect(lines), undefined);
+        // Unknown dialect
+        assert.equal(getModelineDialect(['; asm-code-lens: dialect=tasm']), undefined);
+    });
+
+
+    test('selectDialect', () => {
+        assert.equal(selectDialect([' nop']).id, 'sjasmplus');
+        assert.equal(selectDialect([' nop'], 'z80asm').id, 'z80asm');
+        assert.equal(selectDialect([' nop'], 'unknown').id, 'sjasmplus');
+        assert.equal(selectDialect(['; asm-code-lens: dialect=rasm'], 'z80asm').id, 'rasm');
+    });
+
+
+    test('comments', () => {
+        assert.deepEqual(strip(' nop ; comment\n nop // comment', 'sjasmplus'), [' nop ', ' nop ']);
+        assert.deepEqual(strip(' nop # comment\n movl $1, %eax ; nop', 'gnu-as'), [' nop ', ' movl $1, %eax ; nop']);
+        assert.deepEqual(strip(' .ascii "#;"  /* comment */', 'gnu-as'), [' .ascii ' + ' '.repeat(19)]);
+    });
+
+
+    test('sjasmplus', () => {
+        const file = `
+    MODULE audio
+init:
+.loop:
+@global:
+    ret
+mac MACRO p1
+    ENDM
+    ENDMODULE
+`;
+        assert.deepEqual(getSymbols(file, 'sjasmplus'), [
+            'audio:module',
+            'audio.init:code',
+            'audio.init.loop:code',
+            'global:code',
+            'audio.mac:macro'
+        ]);
+    });
+
+
+    test('z80asm', () => {
+        // MODULE is no namespace, there are no local labels
+        const file = `
+    MODULE audio
+init:
+    ret
+`;
+        assert.deepEqual(getSymbols(file, 'z80asm'), [
+            'init:code'
+        ]);
+    });
+
+
+    test('rasm', () => {
+        const file = `
+    MACRO wait, count
+    ld b,{count}
+    MEND
+init:
+.loop:
+    ret
+`;
+        assert.deepEqual(getSymbols(file, 'rasm'), [
+            'wait:macro',
+            'init:code',
+            'init.loop:code'
+        ]);
+        const lines = strip(file, 'rasm');
+        const {blocks, errors} = parseBlocks(lines, getDialect('rasm'));
+        assert.deepEqual(blocks.map(b => b.kind + ':' + b.startLine + '-' + b.endLine), ['macro:1-3']);
+        assert.equal(errors.length, 0);
+        assert.deepEqual(parseMacros(lines, getDialect('rasm')).map(m => m.name + ' ' + m.params.join(',')), ['wait count']);
+        // With sjasmplus the MEND is not known
+        assert.deepEqual(parseBlocks(lines).errors.map(e => e.message), ['MACRO without ENDM']);
+    });
+
+
+    test('gnu-as', () => {
+        const file = `
+    .macro push_all a, b
+    .endm
+main:
+.Lloop:
+    jmp .Lloop  # comment
+    .endm
+`;
+        assert.deepEqual(getSymbols(file, 'gnu-as'), [
+            'push_all:macro',
+            'main:code'
+        ]);
+        const lines = strip(file, 'gnu-as');
+        const {blocks, errors} = parseBlocks(lines, getDialect('gnu-as'));
+        assert.deepEqual(blocks.map(b => b.kind + ':' + b.startLine + '-' + b.endLine), ['macro:1-2']);
+        assert.deepEqual(errors.map(e => e.message + ':' + e.line), ['ENDM without MACRO:6']);
+        assert.deepEqual(parseMacros(lines, getDialect('gnu-as')).map(m => m.name + ' ' + m.params.join(',')), ['push_all a,b']);
+    });
+
+
+    test('labels', () => {
+        // Block directives at the start of the line are no labels
+        assert.deepEqual(getSymbols('mac MACRO\n ret\nENDM\nlabel nop', 'sjasmplus'), ['mac:macro', 'label:code']);
+        assert.deepEqual(getSymbols(' MACRO wait\nMEND', 'rasm'), ['wait:macro']);
+        // The global label prefix
+        assert.deepEqual(getSymbols('@init:\n ret', 'sjasmplus'), ['init:code']);
+        assert.deepEqual(getSymbols('@init:\n ret', 'rasm'), []);
+    });
+
+
+    test('includes', () => {
+        const file = ` .include "macros.s"\n .incbin "data.bin"\n include "other.asm"`;
+        const lines = file.split('\n');
+        const includes = parseIncludes(lines, strip(file, 'gnu-as'), getDialect('gnu-as'));
+        assert.deepEqual(includes.map(i => i.kind + ':' + i.path), ['include:macros.s', 'incbin:data.bin']);
+        // RASM: READ includes source
+        const rasmLines = [' read "macros.asm"'];
+        assert.deepEqual(parseIncludes(rasmLines, strip(rasmLines[0], 'rasm'), getDialect('rasm')).map(i => i.kind + ':' + i.path), ['include:macros.asm']);
+    });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import {evaluateExpression, formatValue, parseNumber} from '../src/expression';
+
+
+describe('expression', () => {
+
+    const noSymbols = () => undefined;
+
+    test('parseNumber', () => {
+        assert.equal(parseNumber('123'), 123);
+        assert.equal(parseNumber('0x1F'), 0x1F);
+        assert.equal(parseNumber('$1f'), 0x1F);
+        assert.equal(parseNumber('#1F'), 0x1F);
+        assert.equal(parseNumber('0FFh'), 0xFF);
+        assert.equal(parseNumber('%0101'), 5);
+        assert.equal(parseNumber('0b0101'), 5);
+        assert.equal(parseNumber('0101b'), 5);
+        assert.equal(parseNumber('17o'), 15);
+        assert.equal(parseNumber('17q'), 15);
+        assert.equal(parseNumber('0q17'), 15);
+        assert.equal(parseNumber('FFh'), undefined);
+        assert.equal(parseNumber('12a'), undefined);
+    });
+
+
+    test('operators', () => {
+        assert.equal(evaluateExpression('1+2*3', noSymbols), 7);
+        assert.equal(evaluateExpression('(1+2)*3', noSymbols), 9);
+        assert.equal(evaluateExpression('10-4-3', noSymbols), 3);
+        assert.equal(evaluateExpression('7/2', noSymbols), 3);
+        assert.equal(evaluateExpression('-7/2', noSymbols), -3);
+        assert.equal(evaluateExpression('7%4', noSymbols), 3);
+        // Modulo with a binary looking right operand
+        assert.equal(evaluateExpression('7%11', noSymbols), 7);
+        assert.equal(evaluateExpression('(7)%10', noSymbols), 7);
+        assert.equal(evaluateExpression('2*%11', noSymbols), 6);
+        assert.equal(evaluateExpression('1<<4+1', noSymbols), 32);
+        assert.equal(evaluateExpression('0x1234>>8', noSymbols), 0x12);
+        assert.equal(evaluateExpression('0xF0|0x0F&0x3C', noSymbols), 0xFC);
+        assert.equal(evaluateExpression('0xFF^0x0F', noSymbols), 0xF0);
+        assert.equal(evaluateExpression('~0 & 0xFF', noSymbols), 0xFF);
+        assert.equal(evaluateExpression('-(2+3)', noSymbols), -5);
+        assert.equal(evaluateExpression('!0 + !5', noSymbols), 1);
+        assert.equal(evaluateExpression(" 'A' + 1 ", noSymbols), 66);
+    });
+
+
+    test('word operators', () => {
+        assert.equal(evaluateExpression('0xF0 OR 0x0F AND 0x3C', noSymbols), 0xFC);
+        assert.equal(evaluateExpression('0xFF xor 0x0F', noSymbols), 0xF0);
+        assert.equal(evaluateExpression('NOT 0 and 0xFF', noSymbols), 0xFF);
+        assert.equal(evaluateExpression('7 MOD 4', noSymbols), 3);
+        assert.equal(evaluateExpression('1 shl 4 + 1', noSymbols), 32);
+        assert.equal(evaluateExpression('0x1234 SHR 8', noSymbols), 0x12);
+    });
+
+
+    test('default radix 16', () => {
+        const symbols = new Map<string, number>([['SCREEN', 0x4000]]);
+        const resolve = (name: string) => symbols.get(name);
+        assert.equal(evaluateExpression('FF+1', resolve, undefined, 16), 0x100);
+        assert.equal(evaluateExpression('10*10', resolve, undefined, 16), 0x100);
+        assert.equal(evaluateExpression('SCREEN+20', resolve, undefined, 16), 0x4020);
+        // Prefixes and suffixes are still used
+        assert.equal(evaluateExpression('0x10+%11+12q', resolve, undefined, 16), 0x10 + 3 + 10);
+        // Decimal by default
+        assert.throws(() => evaluateExpression('FF', noSymbols), /Unknown symbol 'FF'/);
+    });
+
+
+    test('symbols and $', () => {
+        const symbols = new Map<string, number>([['SCREEN', 0x4000], ['mod.label', 10]]);
+        const resolve = (name: string) => symbols.get(name);
+        assert.equal(evaluateExpression('SCREEN+32', resolve), 0x4020);
+        assert.equal(evaluateExpression('mod.label*2', resolve), 20);
+        assert.equal(evaluateExpression('$+2', resolve, 0x8000), 0x8002);
+        assert.equal(evaluateExpression('$FF+$', resolve, 1), 0x100);
+        assert.equal(evaluateExpression('SCREEN%10', resolve), 0x4000 % 10);
+        assert.equal(evaluateExpression('x%10', name => (name == 'x') ? 23 : undefined), 3);
+        assert.equal(evaluateExpression('$%10', resolve, 7), 7);
+    });
+
+
+    test('errors', () => {
+        assert.throws(() => evaluateExpression('', noSymbols), /Empty/);
+        assert.throws(() => evaluateExpression('1+', noSymbols), /end of expression/);
+        assert.throws(() => evaluateExpression('(1+2', noSymbols), /Missing '\)'/);
+        assert.throws(() => evaluateExpression('1 2', noSymbols), /Unexpected '2'/);
+        assert.throws(() => evaluateExpression('1/0', noSymbols), /Division by zero/);
+        assert.throws(() => evaluateExpression('unknown', noSymbols), /Unknown symbol 'unknown'/);
+        assert.throws(() => evaluateExpression('$', noSymbols), /Address/);
+        assert.throws(() => evaluateExpression('1 ? 2', noSymbols), /Unexpected character/);
+        assert.throws(() => evaluateExpression('12a', noSymbols), /Invalid number/);
+    });
+
+
+    test('formatValue', () => {
+        assert.deepEqual(formatValue(123), {dec: '123', hex: '0x7B', bin: '0b01111011'});
+        assert.deepEqual(formatValue(0x4000, '$'), {dec: '16384', hex: '$4000', bin: '0b0100000000000000'});
+        assert.deepEqual(formatValue(-1), {dec: '-1', hex: '0xFFFF', bin: '0b1111111111111111'});
+        assert.equal(formatValue(0x12345).hex, '0x00012345');
+    });
+});
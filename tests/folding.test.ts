@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import {getFoldingRanges} from '../src/folding';
+import {parseFile} from './helpers';
+
+
+describe('folding', () => {
+
+    /**
+     * Returns the ranges as strings "start-end kind" for easier comparison.
+     */
+    function getRanges(file: string, routines: boolean): string[] {
+        const {origLines, lines, fileSymbols, blocks} = parseFile(file);
+        return getFoldingRanges(lines, origLines, fileSymbols, blocks, routines).map(r => r.start + '-' + r.end + ' ' + r.kind);
+    }
+
+
+    const file = `
+; Comment block
+; second line
+    MODULE audio
+init:
+    IF DEBUG
+    nop
+    ELSE
+    ld a,5
+    ENDIF
+    ret
+
+; play
+play:
+    DUP 3
+    nop
+    EDUP
+    ret
+    ENDMODULE
+wait MACRO count
+    ld b,count
+    ENDM
+main:
+    ret
+`;
+    //  0: (empty)
+    //  1: ; Comment block
+    //  3: MODULE audio
+    //  4: init:
+    //  5: IF DEBUG
+    //  7: ELSE
+    //  9: ENDIF
+    // 12: ; play
+    // 13: play:
+    // 14: DUP 3
+    // 16: EDUP
+    // 18: ENDMODULE
+    // 19: wait MACRO
+    // 21: ENDM
+    // 22: main:
+
+
+    test('blocks and comments', () => {
+        assert.deepEqual(getRanges(file, false), [
+            '1-2 comment',
+            '3-17 region',
+            '5-6 region',
+            '7-8 region',
+            '14-15 region',
+            '19-20 region',
+        ]);
+    });
+
+
+    test('routines', () => {
+        assert.deepEqual(getRanges(file, true), [
+            '1-2 comment',
+            '3-17 region',
+            '4-10 region',
+            '5-6 region',
+            '7-8 region',
+            '13-17 region',
+            '14-15 region',
+            '19-20 region',
+            '22-23 region',
+        ]);
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import {FormatOptions, formatLine, formatLines} from '../src/formatter';
+import {getDialect} from '../src/dialects';
+import {stripLines} from './helpers';
+
+
+describe('formatter', () => {
+
+    const sjasmplus = getDialect('sjasmplus')!;
+
+    const options: FormatOptions = {
+        mnemonicColumn: 8,
+        operandColumn: 14,
+        commentColumn: 28,
+        case: 'lower',
+        labelsWithColons: true,
+        labelsWithoutColons: true,
+        useTabs: false,
+        tabSize: 4
+    };
+
+
+    /**
+     * Formats a single line.
+     */
+    function format(origLine: string, opts = options): string | undefined {
+        const lines = stripLines([origLine], sjasmplus);
+        return formatLine(origLine, lines[0], sjasmplus, opts);
+    }
+
+
+    test('alignment', () => {
+        assert.equal(format('start: LD A,5'), 'start:  ld    a,5');
+        assert.equal(format('   nop'), '        nop');
+        assert.equal(format('  .loop: djnz .loop ; again'), '.loop:  djnz  .loop         ; again');
+        assert.equal(format('a_very_long_label: ret'), 'a_very_long_label: ret');
+        assert.equal(format('label'), 'label');
+        assert.equal(format('label: // comment'), 'label:                      // comment');
+        assert.equal(format('CONST equ 5'), 'CONST   equ   5');
+    });
+
+
+    test('tabs', () => {
+        const tabs = {...options, useTabs: true, mnemonicColumn: 8, operandColumn: 12, commentColumn: 24};
+        assert.equal(format('start: ld a,5 ; x', tabs), 'start:\tld\ta,5\t\t\t; x');
+        assert.equal(format(' nop', tabs), '\t\tnop');
+    });
+
+
+    test('case', () => {
+        assert.equal(format(' LD (IX+5),A'), '        ld    (ix+5),a');
+        assert.equal(format(' jr NC,Loop'), '        jr    nc,Loop');
+        assert.equal(format(' ld a,C_VALUE+$C'), '        ld    a,C_VALUE+$C');
+        assert.equal(format(' ex AF,AF\''), '        ex    af,af\'');
+        assert.equal(format(' defb "LD A"', {...options, case: 'upper'}), '        DEFB  "LD A"');
+        assert.equal(format(' Ld a,b', {...options, case: 'keep'}), '        Ld    a,b');
+    });
+
+
+    test('colons', () => {
+        const withColon = {...options, labelsWithoutColons: false};
+        const withoutColon = {...options, labelsWithColons: false};
+        assert.equal(format('start ret', withColon), 'start:  ret');
+        assert.equal(format('start: ret', withoutColon), 'start   ret');
+        assert.equal(format('start ret'), 'start   ret');
+        // Mnemonics at column 0 are no labels
+        assert.equal(format('nop', withColon), '        nop');
+    });
+
+
+    test('unchanged lines', () => {
+        assert.equal(format('; comment'), undefined);
+        assert.equal(format(''), undefined);
+        assert.equal(format(' nop /* comment */'), undefined);
+        assert.equal(format(' ld a,"unterminated'), undefined);
+        // Strings are kept
+        assert.equal(format(' defm  "a  ;  b"  ; x'), '        defm  "a  ;  b"     ; x');
+    });
+
+
+    test('formatLines', () => {
+        const origLines = [
+            'start:  ld a,1',
+            '/* block',
+            ' LD A,B',
+            '*/',
+            ' NOP',
+            '\tret'
+        ];
+        const lines = stripLines(origLines, sjasmplus);
+        assert.deepEqual(formatLines(origLines, lines, sjasmplus, options), [
+            {line: 0, text: 'start:  ld    a,1'},
+            {line: 4, text: '        nop'},
+            {line: 5, text: '        ret'}
+        ]);
+        // Range
+        assert.deepEqual(formatLines(origLines, lines, sjasmplus, options, 2, 4), [
+            {line: 4, text: '        nop'}
+        ]);
+    });
+});
@@ -0,0 +1,38 @@
+import {AsmBlock, parseBlocks} from '../src/asmblocks';
+import {setCustomCommentPrefix, stripAllComments} from '../src/comments';
+import {Dialect} from '../src/dialects';
+import {AllowedLanguageIds} from '../src/languageId';
+import {CommonRegexes} from '../src/regexes/commonregexes';
+import {FileSymbols, parseSymbols} from '../src/symbolparser';
+
+
+/**
+ * Returns the comment stripped lines of a file.
+ * @param file The file contents or its lines. The lines are not changed.
+ * @param dialect The assembler dialect. If undefined the default comment prefixes are used.
+ */
+export function stripLines(file: string | string[], dialect?: Dialect): string[] {
+    const lines = (typeof file == 'string') ? file.split('\n') : [...file];
+    setCustomCommentPrefix(undefined);
+    stripAllComments(lines, dialect?.commentPrefixes);
+    return lines;
+}
+
+
+/**
+ * Parses a file like the symbol index does: strips the comments and
+ * parses the symbols and blocks.
+ * Labels without colons are only allowed for 'asm-collection'.
+ * @param file The file contents.
+ * @param languageId 'asm-collection' or 'asm-list-file'.
+ * @param dialect The assembler dialect.
+ * @returns The original lines, the comment stripped lines, the symbols and the blocks.
+ */
+export function parseFile(file: string, languageId: AllowedLanguageIds = 'asm-collection', dialect?: Dialect): {origLines: string[], lines: string[], fileSymbols: FileSymbols, blocks: AsmBlock[]} {
+    const origLines = file.split('\n');
+    const lines = stripLines(origLines, dialect);
+    const regexLbls = CommonRegexes.regexesLabel({labelsWithColons: true, labelsWithoutColons: languageId == 'asm-collection'}, languageId, dialect);
+    const fileSymbols = parseSymbols(lines, regexLbls, languageId, origLines, dialect);
+    const {blocks} = parseBlocks(lines, dialect);
+    return {origLines, lines, fileSymbols, blocks};
+}
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import {findHighlights} from '../src/highlights';
+import {parseFile} from './helpers';
+
+
+describe('highlights', () => {
+
+    /**
+     * Returns the highlights as strings "line:start-end kind" for easier comparison.
+     */
+    function getHighlights(file: string, row: number, column: number): string[] {
+        const {lines, fileSymbols, blocks} = parseFile(file);
+        return findHighlights(lines, fileSymbols, blocks, row, column).map(h => h.line + ':' + h.start + '-' + h.end + ' ' + h.kind);
+    }
+
+
+    const file = `
+sub1:
+.loop:
+    djnz .loop
+    jr sub1.loop
+sub2:
+.loop:
+    djnz .loop
+    call sub1
+    MODULE audio
+init:
+    call init
+    call audio.init
+    call @init
+    ENDMODULE
+init:
+    ld a,(value)    ; value is not defined in this file
+    ld (value),a
+`;
+
+
+    test('local labels', () => {
+        // On the definition of sub1.loop
+        assert.deepEqual(getHighlights(file, 2, 1), [
+            '2:0-5 write',
+            '3:9-14 read',
+            '4:7-16 read',
+        ]);
+        // On the reference of sub2.loop
+        assert.deepEqual(getHighlights(file, 7, 10), [
+            '6:0-5 write',
+            '7:9-14 read',
+        ]);
+    });
+
+
+    test('modules', () => {
+        // audio.init
+        assert.deepEqual(getHighlights(file, 11, 10), [
+            '10:0-4 write',
+            '11:9-13 read',
+            '12:9-19 read',
+        ]);
+        // Global init
+        assert.deepEqual(getHighlights(file, 13, 10), [
+            '13:9-14 read',
+            '15:0-4 write',
+        ]);
+    });
+
+
+    test('undefined labels', () => {
+        assert.deepEqual(getHighlights(file, 16, 10), [
+            '16:10-15 read',
+            '17:8-13 read',
+        ]);
+    });
+
+
+    test('no label', () => {
+        assert.deepEqual(getHighlights(file, 3, 5), []);
+        assert.deepEqual(getHighlights(file, 0, 0), []);
+    });
+});
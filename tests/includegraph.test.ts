@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {getTranslationUnitFiles, parseIncludes, resolveIncludePath} from '../src/includegraph';
+import {stripLines} from './helpers';
+
+
+describe('includegraph', () => {
+
+    test('parseIncludes', () => {
+        const lines = [
+            '  include "util/math.asm"',
+            '  INCLUDE <lib.inc>',
+            '; include "commented.asm"',
+            '  nop ; include "commented2.asm"',
+            'gfx:  incbin "gfx.bin",0,128',
+            '  binary \'data.bin\'',
+            '  ld a,include_count',
+        ];
+        const stripped = stripLines(lines);
+        const includes = parseIncludes(lines, stripped);
+
+        assert.deepEqual(includes, [
+            {kind: 'include', path: 'util/math.asm', line: 0, start: 11, end: 24},
+            {kind: 'include', path: 'lib.inc', line: 1, start: 11, end: 18},
+            {kind: 'incbin', path: 'gfx.bin', line: 4, start: 14, end: 21},
+            {kind: 'incbin', path: 'data.bin', line: 5, start: 10, end: 18},
+        ]);
+    });
+
+
+    test('resolveIncludePath', () => {
+        const root = path.join(path.sep, 'prj');
+        const existing = new Set<string>([
+            path.join(root, 'src', 'util', 'math.asm'),
+            path.join(root, 'lib', 'lib.inc'),
+            path.join(root, 'src', 'lib.inc'),
+        ]);
+        const fileExists = (filePath: string) => existing.has(filePath);
+        const mainFile = path.join(root, 'src', 'main.asm');
+        const includePaths = [path.join(root, 'lib')];
+
+        assert.equal(resolveIncludePath(mainFile, 'util/math.asm', includePaths, fileExists), path.join(root, 'src', 'util', 'math.asm'));
+        // Relative to the including file first
+        assert.equal(resolveIncludePath(mainFile, 'lib.inc', includePaths, fileExists), path.join(root, 'src', 'lib.inc'));
+        // Then the include paths
+        const otherFile = path.join(root, 'other', 'main.asm');
+        assert.equal(resolveIncludePath(otherFile, 'lib.inc', includePaths, fileExists), path.join(root, 'lib', 'lib.inc'));
+        // Not found
+        assert.equal(resolveIncludePath(mainFile, 'unknown.asm', includePaths, fileExists), undefined);
+    });
+
+
+    test('getTranslationUnitFiles', () => {
+        const graph = new Map<string, string[]>([
+            ['prg1.asm', ['util.asm', 'prg1_sub.asm']],
+            ['prg1_sub.asm', ['prg1_sub2.asm']],
+            ['prg1_sub2.asm', []],
+            ['prg2.asm', ['util.asm']],
+            ['util.asm', []],
+            ['prg3.asm', []],
+            ['cycle_a.asm', ['cycle_b.asm']],
+            ['cycle_b.asm', ['cycle_a.asm']],
+        ]);
+
+        // Root file
+        assert.deepEqual(Array.from(getTranslationUnitFiles(graph, 'prg2.asm')).sort(), ['prg2.asm', 'util.asm']);
+        // Included file
+        assert.deepEqual(Array.from(getTranslationUnitFiles(graph, 'prg1_sub2.asm')).sort(), ['prg1.asm', 'prg1_sub.asm', 'prg1_sub2.asm', 'util.asm']);
+        // Shared file: both translation units
+        assert.deepEqual(Array.from(getTranslationUnitFiles(graph, 'util.asm')).sort(), ['prg1.asm', 'prg1_sub.asm', 'prg1_sub2.asm', 'prg2.asm', 'util.asm']);
+        // Standalone file
+        assert.deepEqual(Array.from(getTranslationUnitFiles(graph, 'prg3.asm')), ['prg3.asm']);
+        // Cyclic includes
+        assert.deepEqual(Array.from(getTranslationUnitFiles(graph, 'cycle_a.asm')).sort(), ['cycle_a.asm', 'cycle_b.asm']);
+    });
+});
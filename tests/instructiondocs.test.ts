@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import {getDirectiveDoc, getInstructionDoc, getRegisterDoc} from '../src/instructiondocs';
+
+
+describe('instructiondocs', () => {
+
+    test('getInstructionDoc', () => {
+        const ldir = getInstructionDoc('LDIR')!;
+        assert.ok(ldir.startsWith('**LDIR** - Load, increment and repeat'));
+        assert.ok(ldir.includes('| `LDIR` | ED B0 | 2 | 21/16 | H=0 P/V N=0 |'));
+        assert.ok(ldir.includes('T-states: taken/not taken'));
+
+        const daa = getInstructionDoc('daa')!;
+        assert.ok(daa.includes('| `DAA` | 27 | 1 | 4 |'));
+        assert.ok(!daa.includes('T-states: taken/not taken'));
+
+        // Operand kinds, undocumented and fake instructions
+        const ld = getInstructionDoc('ld')!;
+        assert.ok(ld.includes('| `LD r,(ix+d)` | DD 46+8*r d | 3 | 19 | - |'));
+        assert.ok(ld.includes('`LD ixh,n` (undoc.)'));
+        assert.ok(ld.includes('sjasmplus fake instructions: `ld bc,de`'));
+
+        // "sub b" and "sub a,b" are shown only once
+        const sub = getInstructionDoc('sub')!;
+        assert.ok(sub.includes('`SUB r`'));
+        assert.ok(!sub.includes('`SUB a,r`'));
+        const add = getInstructionDoc('add')!;
+        assert.ok(add.includes('`ADD a,r`'));
+        assert.ok(add.includes('`ADD hl,a` (Z80N)'));
+
+        // Aliases
+        assert.ok(getInstructionDoc('sli')!.includes('`SLL r`'));
+        assert.ok(getInstructionDoc('swap')!.includes('`SWAPNIB`'));
+
+        assert.equal(getInstructionDoc('label'), undefined);
+    });
+
+
+    test('getRegisterDoc', () => {
+        assert.ok(getRegisterDoc('HL')!.startsWith('**HL** - '));
+        assert.ok(getRegisterDoc('ixh')!.includes('undocumented'));
+        assert.equal(getRegisterDoc('nz'), undefined);
+    });
+
+
+    test('getDirectiveDoc', () => {
+        assert.ok(getDirectiveDoc('DUP')!.startsWith('`DUP count[,var]`'));
+        assert.ok(getDirectiveDoc('.dup')!.startsWith('`DUP count[,var]`'));
+        assert.ok(getDirectiveDoc('defarray+')!.includes('Appends'));
+        assert.ok(getDirectiveDoc('device')!.includes('ZXSPECTRUMNEXT'));
+        assert.ok(getDirectiveDoc('savesna')!.includes('snapshot'));
+        assert.equal(getDirectiveDoc('ld'), undefined);
+    });
+});
@@ -0,0 +1,125 @@
+import * as assert from 'assert';
+import {findLabelReferences, findReferencedLabels, getLabelCandidates, getUniqueDefinitions, isReferenceDefined} from '../src/labelcheck';
+import {IndexedSymbol} from '../src/symbolparser';
+import {parseFile} from './helpers';
+
+
+describe('labelcheck', () => {
+
+    test('getLabelCandidates', () => {
+        assert.deepEqual(getLabelCandidates('BASE', '', ''), ['BASE']);
+        assert.deepEqual(getLabelCandidates('BASE', 'a.b', 'a.b.init'), ['a.b.BASE', 'a.BASE', 'BASE']);
+        assert.deepEqual(getLabelCandidates('@BASE', 'a.b', 'a.b.init'), ['BASE']);
+        assert.deepEqual(getLabelCandidates('.loop', 'a', 'a.init'), ['a.init.loop']);
+    });
+
+
+    test('findLabelReferences', () => {
+        const {lines, fileSymbols, blocks} = parseFile(`
+    MODULE snd
+init:
+    ld a,(ix+VOLUME)    ; comment label
+    ld hl,0FFh+$1F
+.loop:
+    djnz .loop
+    jp nz,@main
+    defb 'A', LOW table
+    jr nz,@b            ; anonymous and temporary labels
+    djnz 1B
+    ENDMODULE
+m1  MACRO p1
+    ld a,p1
+    ENDM
+    m1 param
+`);
+        const references = findLabelReferences(lines, fileSymbols, blocks);
+        assert.deepEqual(references.map(r => [r.label, r.candidates, r.line, r.start]), [
+            ['VOLUME', ['snd.VOLUME', 'VOLUME'], 3, 13],
+            ['.loop', ['snd.init.loop'], 6, 9],
+            ['@main', ['main'], 7, 10],
+            ['table', ['snd.table', 'table'], 8, 18],
+        ]);
+    });
+
+
+    test('findLabelReferences with several statements', () => {
+        const {lines, fileSymbols, blocks} = parseFile(`
+start:  ld a,1 : ld b,2
+    push af : call start
+    ld a,':' : jp (hl)
+    ld (ix+1),a : jr start
+`);
+        const references = findLabelReferences(lines, fileSymbols, blocks);
+        assert.deepEqual(references.map(r => [r.label, r.line, r.start]), [
+            ['start', 2, 19],
+            ['start', 4, 21],
+        ]);
+    });
+
+
+    test('isReferenceDefined', () => {
+        const symbol = (moduleLabel: string, kind: 'code' | 'data' | 'module' | 'struct') => ({label: moduleLabel, moduleLabel, kind, local: false, line: 0, start: 0, end: 0});
+        const symbols = new Map<string, IndexedSymbol>([
+            ['VOLUME', symbol('VOLUME', 'data')],
+            ['player', symbol('player', 'data')],
+            ['screen', symbol('screen', 'module')],
+            ['POINT', symbol('POINT', 'struct')],
+        ]);
+        const findSymbol = (moduleLabel: string) => symbols.get(moduleLabel);
+        const ref = (label: string, module = '') => ({label, candidates: getLabelCandidates(label, module, 'x'), line: 0, start: 0, end: 0});
+        assert.ok(isReferenceDefined(ref('VOLUME', 'snd'), findSymbol));
+        assert.ok(!isReferenceDefined(ref('volume'), findSymbol));
+        assert.ok(isReferenceDefined(ref('player.x'), findSymbol));
+        assert.ok(!isReferenceDefined(ref('screen.x'), findSymbol));
+        assert.ok(!isReferenceDefined(ref('.y'), findSymbol));
+        // Struct size and module name
+        assert.ok(isReferenceDefined(ref('POINT', 'snd'), findSymbol));
+        assert.ok(isReferenceDefined(ref('screen'), findSymbol));
+        assert.ok(!isReferenceDefined(ref('POINT.z'), findSymbol));
+    });
+
+
+    test('getUniqueDefinitions', () => {
+        const {lines, fileSymbols, blocks} = parseFile(`
+    MODULE a
+label1:
+CONST1  equ 1
+CONST2  defl 2
+CONST3 = 3
+    IF X
+label2:
+    ENDIF
+m1  MACRO
+label3:
+    ENDM
+    ENDMODULE
+`);
+        const unique = getUniqueDefinitions(lines, fileSymbols.symbols, blocks);
+        assert.deepEqual(unique.map(s => s.moduleLabel), ['a.label1', 'a.CONST1', 'a.m1']);
+    });
+
+
+    test('findReferencedLabels', () => {
+        const {lines, fileSymbols} = parseFile(`
+    MODULE snd
+init:
+    call play
+.loop:
+    djnz .loop
+    ld a,(player.x)
+    jp @main    ; unused
+unused:
+    ENDMODULE
+`);
+        const referenced = findReferencedLabels(lines, fileSymbols);
+        assert.ok(referenced.has('snd.play'));
+        assert.ok(referenced.has('play'));
+        assert.ok(referenced.has('snd.init.loop'));
+        assert.ok(referenced.has('snd.player'));
+        assert.ok(referenced.has('player'));
+        assert.ok(referenced.has('main'));
+        assert.ok(!referenced.has('snd.main'));
+        assert.ok(!referenced.has('snd.init'));
+        assert.ok(!referenced.has('snd.unused'));
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import {findWordColumns, formatAddress, isSourceOfListFile, mapWordColumn, parseListAddress, parseListPrefix, parseListSourceLines} from '../src/listfile';
+
+
+describe('listfile', () => {
+
+    test('sjasmplus', () => {
+        assert.equal(parseListAddress('  18   6000 00           screen_top: defb    0'), 0x6000);
+        assert.equal(parseListAddress('21+  6005              pause_loop_l1:'), 0x6005);
+        assert.equal(parseListAddress(' 13   0000 ~                    DEVICE ZXSPECTRUMNEXT'), 0);
+        assert.equal(parseListAddress('# file opened: main.asm'), undefined);
+    });
+
+
+    test('z88dk', () => {
+        assert.equal(parseListAddress('     5  0000  3E 05              ld a,5'), 0);
+        assert.equal(parseListAddress('    12  8A2F  C9                 ret'), 0x8A2F);
+    });
+
+
+    test('address first', () => {
+        assert.equal(parseListAddress('0025  FF FF FF      DEFB FFh FFh FFh'), 0x25);
+        assert.equal(parseListAddress('0025.R1a FF FF FF      DEFB FFh FFh FFh'), 0x25);
+        assert.equal(parseListAddress('C000: 3E 05     ld a,5'), 0xC000);
+        assert.equal(parseListAddress('label: ld a,5'), undefined);
+    });
+
+
+    test('parseListPrefix', () => {
+        // sjasmplus
+        let prefix = parseListPrefix('  18   6000 3E 05        ld a,5');
+        assert.deepEqual(prefix.address, {start: 7, end: 11});
+        assert.deepEqual(prefix.bytes, [{start: 12, end: 14}, {start: 15, end: 17}]);
+        assert.equal(prefix.sourceStart, 17);
+
+        // "AF" is a byte, "DEFB" is not
+        prefix = parseListPrefix('0025.R1a AF FF      DEFB FFh');
+        assert.deepEqual(prefix.address, {start: 0, end: 4});
+        assert.deepEqual(prefix.bytes, [{start: 9, end: 11}, {start: 12, end: 14}]);
+        assert.equal(prefix.sourceStart, 14);
+
+        // "db" is no byte if it is far away from the address
+        prefix = parseListPrefix('  19   6002             db 5');
+        assert.equal(prefix.bytes.length, 0);
+        assert.equal(prefix.sourceStart, 11);
+
+        // No address
+        prefix = parseListPrefix('  20                    MODULE audio');
+        assert.equal(prefix.address, undefined);
+        assert.equal(prefix.sourceStart, 4);
+        prefix = parseListPrefix('# file opened: main.asm');
+        assert.equal(prefix.sourceStart, 0);
+    });
+
+
+    test('formatAddress', () => {
+        assert.equal(formatAddress(0x8123, '$'), '$8123');
+        assert.equal(formatAddress(0x12, '0x'), '0x0012');
+    });
+
+
+    test('parseListSourceLines', () => {
+        const lines = [
+            '# file opened: main.asm',
+            ' 35   6001              ;====',
+            ' 36   6001                  include "src/utilities.asm"',
+            '# file opened: src/utilities.asm',
+            '  1+  6001              ;====',
+            '  7+  6001              PAUSE_TIME:     equ 500',
+            '# file closed: src/utilities.asm',
+            ' 37   6001',
+            '0025  FF FF FF      DEFB FFh FFh FFh'
+        ];
+        assert.deepEqual(parseListSourceLines(lines), [
+            undefined,
+            {file: 'main.asm', line: 34},
+            {file: 'main.asm', line: 35},
+            undefined,
+            {file: 'src/utilities.asm', line: 0},
+            {file: 'src/utilities.asm', line: 6},
+            undefined,
+            {file: 'main.asm', line: 36},
+            undefined
+        ]);
+        // z88dk: no markers
+        assert.deepEqual(parseListSourceLines(['     5  0000  3E 05              ld a,5']), [{file: undefined, line: 4}]);
+    });
+
+
+    test('isSourceOfListFile', () => {
+        assert.ok(isSourceOfListFile('/project/main.asm', '/project/out/main.list', 'main.asm'));
+        assert.ok(isSourceOfListFile('/project/src/utilities.asm', '/project/out/main.list', 'src/utilities.asm'));
+        assert.ok(isSourceOfListFile('C:\\project\\src\\utilities.asm', 'C:\\project\\main.list', './src/utilities.asm'));
+        assert.ok(!isSourceOfListFile('/project/other/utilities.asm', '/project/out/main.list', 'src/utilities.asm'));
+        assert.ok(!isSourceOfListFile('/project/myutilities.asm', '/project/out/main.list', 'utilities.asm'));
+        // By file name
+        assert.ok(isSourceOfListFile('/project/src/utilities.asm', '/project/out/utilities.lis'));
+        assert.ok(!isSourceOfListFile('/project/src/main.asm', '/project/out/utilities.lis'));
+    });
+
+
+    test('mapWordColumn', () => {
+        assert.deepEqual(findWordColumns('init: call init2 ; init', 'init'), [0, 19]);
+        const source = 'init: call init';
+        const list = ' 12   8000 CD 00 80     init: call init';
+        // Source -> list
+        assert.equal(mapWordColumn(source, list, 'init', 0), 24);
+        assert.equal(mapWordColumn(source, list, 'init', 11), 35);
+        // List -> source
+        assert.equal(mapWordColumn(list, source, 'init', 35), 11);
+        // Not an occurrence
+        assert.equal(mapWordColumn(source, list, 'init', 5), undefined);
+        // Different contents, e.g. a macro expansion
+        assert.equal(mapWordColumn(source, ' 12   8000             >  ld a,init', 'init', 0), undefined);
+    });
+});
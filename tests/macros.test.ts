@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import {expandMacro, formatMacroSignature, getActiveArgument, getInvocation, getMacroAt, parseMacros, splitMacroArguments} from '../src/macros';
+import {stripLines} from './helpers';
+
+
+describe('macros', () => {
+
+    test('parseMacros', () => {
+        const lines = [
+            'wait MACRO count, color',    // 0
+            '    ld b,count',             // 1
+            '    ENDM',                   // 2
+            'border: macro col',          // 3
+            '    ld a,col',               // 4
+            '    endm',                   // 5
+            '    MACRO  fill p1,p2',      // 6
+            '    ENDMACRO',               // 7
+            'noparams MACRO',             // 8
+            '    nop',                    // 9
+            '    ENDM',                   // 10
+        ];
+        assert.deepEqual(parseMacros(lines), [
+            {name: 'wait', params: ['count', 'color'], line: 0, start: 0, end: 4, endLine: 2},
+            {name: 'border', params: ['col'], line: 3, start: 0, end: 6, endLine: 5},
+            {name: 'fill', params: ['p1', 'p2'], line: 6, start: 11, end: 15, endLine: 7},
+            {name: 'noparams', params: [], line: 8, start: 0, end: 8, endLine: 10},
+        ]);
+    });
+
+
+    test('parseMacros without ENDM', () => {
+        const lines = [
+            'wait MACRO count',
+            '    ld b,count',
+        ];
+        assert.deepEqual(parseMacros(lines), []);
+    });
+
+
+    test('getMacroAt', () => {
+        const lines = [
+            'wait MACRO count',   // 0
+            '    ld b,count',     // 1
+            '    ENDM',           // 2
+            '    nop',            // 3
+        ];
+        const macros = parseMacros(lines);
+        assert.equal(getMacroAt(macros, 0), undefined);
+        assert.equal(getMacroAt(macros, 1)?.name, 'wait');
+        assert.equal(getMacroAt(macros, 2), undefined);
+        assert.equal(getMacroAt(macros, 3), undefined);
+    });
+
+
+    test('formatMacroSignature', () => {
+        assert.equal(formatMacroSignature({name: 'wait', params: ['count', 'color'], line: 0, start: 0, end: 4, endLine: 2}), 'wait count, color');
+        assert.equal(formatMacroSignature({name: 'wait', params: [], line: 0, start: 0, end: 4, endLine: 2}), 'wait');
+    });
+
+
+    test('getInvocation', () => {
+        assert.deepEqual(getInvocation('    wait 5, 2'), {name: 'wait', start: 4, argsStart: 8});
+        assert.deepEqual(getInvocation('label: wait 5'), {name: 'wait', start: 7, argsStart: 11});
+        assert.equal(getInvocation('label:'), undefined);
+    });
+
+
+    test('splitMacroArguments', () => {
+        const line = '    wait 5, (ix+2), "a,b", <1, 2>,';
+        assert.deepEqual(splitMacroArguments(line, 8), [
+            {text: '5', start: 9},
+            {text: '(ix+2)', start: 12},
+            {text: '"a,b"', start: 20},
+            {text: '<1, 2>', start: 27},
+            {text: '', start: 34},
+        ]);
+        // Operators
+        assert.deepEqual(splitMacroArguments('    wait a<<2, b', 8).map(arg => arg.text), ['a<<2', 'b']);
+        assert.deepEqual(splitMacroArguments('    wait x < y, z>1, <a,b>', 8).map(arg => arg.text), ['x < y', 'z>1', '<a,b>']);
+        assert.deepEqual(splitMacroArguments('    wait', 8), []);
+        assert.deepEqual(splitMacroArguments('    wait ', 8), []);
+    });
+
+
+    test('getActiveArgument', () => {
+        const line = '    wait 5, (ix+2, 3), 7';
+        assert.equal(getActiveArgument(line, 8, 8), 0);
+        assert.equal(getActiveArgument(line, 8, 10), 0);
+        assert.equal(getActiveArgument(line, 8, 11), 1);
+        assert.equal(getActiveArgument(line, 8, 18), 1);
+        assert.equal(getActiveArgument(line, 8, 23), 2);
+    });
+
+
+    test('expandMacro', () => {
+        const origLines = [
+            'copy MACRO src, dst, len',       // 0
+            '    ld hl,src   ; copy src',     // 1
+            '    ld de,dst',                  // 2
+            '    ld bc,len',                  // 3
+            '    db "src"',                   // 4
+            '    ld a,srcx',                  // 5
+            '    ENDM',                       // 6
+        ];
+        const lines = stripLines(origLines);
+        const macros = parseMacros(lines);
+        assert.deepEqual(expandMacro(macros[0], origLines, lines, ['buffer', '<screen+2>']), [
+            '    ld hl,buffer   ; copy src',
+            '    ld de,screen+2',
+            '    ld bc,',
+            '    db "src"',
+            '    ld a,srcx',
+        ]);
+    });
+});
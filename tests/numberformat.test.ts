@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import {findNumberLiterals, formatBinary, formatChar, formatHex, getDigitCount, getNumberConversions, getNumberLiteralAt, normalizeNumberLiteral, removeTempLabels} from '../src/numberformat';
+import {stripLines} from './helpers';
+import {parseTempLabels} from '../src/templabels';
+
+
+describe('numberformat', () => {
+
+    /**
+     * Returns the literals of a line as strings "format:text=value@start".
+     */
+    function getLiterals(origLine: string): string[] {
+        const lines = stripLines([origLine]);
+        return findNumberLiterals(lines[0], origLine).map(l => l.format + ':' + l.text + '=' + l.value + '@' + l.start);
+    }
+
+
+    test('findNumberLiterals', () => {
+        assert.deepEqual(getLiterals(' ld a,$1F'), ['hex:$1F=31@6']);
+        assert.deepEqual(getLiterals(' ld hl,0x4000+#10'), ['hex:0x4000=16384@7', 'hex:#10=16@14']);
+        assert.deepEqual(getLiterals(' ld a,0FFh'), ['hex:0FFh=255@6']);
+        assert.deepEqual(getLiterals(' and %0101 | 0b11 | 0110b'), ['binary:%0101=5@5', 'binary:0b11=3@13', 'binary:0110b=6@20']);
+        assert.deepEqual(getLiterals(' ld a,17o+10'), ['octal:17o=15@6', 'decimal:10=10@10']);
+        assert.deepEqual(getLiterals(" cp 'A'"), ["char:'A'=65@4"]);
+        assert.deepEqual(getLiterals(" ld a,'\\n'"), ["char:'\\n'=10@6"]);
+    });
+
+
+    test('findNumberLiterals ignores', () => {
+        // Labels and registers
+        assert.deepEqual(getLiterals('label1: ld (ix+5),a'), ['decimal:5=5@15']);
+        assert.deepEqual(getLiterals(' ex af,af\''), []);
+        // Comments and strings
+        assert.deepEqual(getLiterals(' nop ; 12'), []);
+        assert.deepEqual(getLiterals(' defm "12 AB"'), []);
+        // Current address
+        assert.deepEqual(getLiterals(' jr $+5'), ['decimal:5=5@6']);
+        // Operator
+        assert.deepEqual(getLiterals(' ld a,5%10'), ['decimal:5=5@6']);
+    });
+
+
+    test('removeTempLabels', () => {
+        const lines = [
+            '1   ld a,0101b',
+            '    djnz 1b',
+            '    ld a,11b'
+        ];
+        const tempLabels = parseTempLabels(lines);
+        const getTexts = (row: number) => removeTempLabels(findNumberLiterals(lines[row]), tempLabels, row).map(l => l.text);
+        assert.deepEqual(getTexts(0), ['0101b']);
+        assert.deepEqual(getTexts(1), []);
+        assert.deepEqual(getTexts(2), ['11b']);
+    });
+
+
+    test('getNumberLiteralAt', () => {
+        const literals = findNumberLiterals(' ld a,$1F');
+        assert.equal(getNumberLiteralAt(literals, 6)?.text, '$1F');
+        assert.equal(getNumberLiteralAt(literals, 9)?.text, '$1F');
+        assert.equal(getNumberLiteralAt(literals, 3), undefined);
+    });
+
+
+    test('format', () => {
+        assert.equal(formatHex(255, '$'), '$FF');
+        assert.equal(formatHex(10, '0x'), '0x0A');
+        assert.equal(formatHex(0x123, '#'), '#0123');
+        assert.equal(formatHex(255, 'h'), '0FFh');
+        assert.equal(formatHex(0x1F, 'h', 4), '001Fh');
+        assert.equal(formatBinary(5, '%'), '%00000101');
+        assert.equal(formatBinary(0x1FF, '0b'), '0b0000000111111111');
+        assert.equal(formatBinary(5, 'b', 4), '0101b');
+        assert.equal(formatChar(65), "'A'");
+        assert.equal(formatChar(10), undefined);
+        assert.equal(formatChar(39), undefined);
+    });
+
+
+    test('getNumberConversions', () => {
+        const [literal] = findNumberLiterals(' cp 65');
+        assert.deepEqual(getNumberConversions(literal, '$', '%').map(c => c.text), ['$41', '%01000001', "'A'"]);
+        const [hex] = findNumberLiterals(' cp #41');
+        assert.deepEqual(getNumberConversions(hex, 'h', 'b').map(c => c.text), ['65', '41h', '01000001b', "'A'"]);
+    });
+
+
+    test('normalizeNumberLiteral', () => {
+        const normalize = (text: string) => normalizeNumberLiteral(findNumberLiterals(text)[0], '$', '%');
+        assert.equal(normalize('#0f'), '$0F');
+        assert.equal(normalize('0FFh'), '$FF');
+        assert.equal(normalize('0x001F'), '$001F');
+        assert.equal(normalize('0101b'), '%0101');
+        assert.equal(normalize('$FF'), undefined);
+        assert.equal(normalize('12'), undefined);
+        assert.equal(getDigitCount(findNumberLiterals('0FFh')[0]), 2);
+    });
+});
@@ -93,6 +93,26 @@ describe('CommonRegexes', () => {
         });
 
 
+        test('regexIncludeDirective', (done) => {
+            const regex = CommonRegexes.regexIncludeDirective();
+            const insOuts = [
+                // input-line, match, found-file
+                'include   "sound.asm" ', true, "sound.asm",
+                '  INCLUDE "src/sound.asm"', true, "src/sound.asm",
+                '  include <lib.asm>', true, "lib.asm",
+                '  incbin "gfx.bin", 0, 10', true, "gfx.bin",
+                "  BINARY 'data.bin'", true, "data.bin",
+                '29    0012  D3 FE  include   "sound.asm" ', true, "sound.asm",
+                'include   abcd ', false, "",
+                'includeX   "sound.asm" ', false, "",
+                '  ld a,incbin_size', false, "",
+            ];
+
+            checkResultsMatchFound(regex, insOuts, 3);
+            done();
+        });
+
+
         test('regexModuleStruct asm', (done) => {
             const regex = CommonRegexes.regexModuleStruct();
             const insOuts = [
@@ -319,6 +339,39 @@ describe('CommonRegexes', () => {
             checkResults1Capture(regex, insOuts);
             done();
         });
+
+
+        test('regexLocalLabel asm', (done) => {
+            const regex = CommonRegexes.regexLocalLabel("asm-collection");
+            const insOuts = [
+                ".loop", "", ".loop",
+                ".loop:", "", ".loop",
+                ".LOOP: ld a,b", "", ".LOOP",
+                ".l1 djnz .l1", "", ".l1",
+                " .loop:", "", "",
+                "label:", "", "",
+                "label.loop:", "", "",
+                ".0:", "", "",
+            ];
+
+            checkResults1Capture(regex, insOuts);
+            done();
+        });
+
+
+        test('regexLocalLabel list', (done) => {
+            const regex = CommonRegexes.regexLocalLabel("asm-list-file");
+            const insOuts = [
+                "626++C4D1 FE 10    .la:", "626++C4D1 FE 10    ", ".la",
+                "29    0012  D3 FE  .loop: djnz .loop", "29    0012  D3 FE  ", ".loop",
+                "29    0012  D3 FE  label:", "", "",
+                "29    0012  D3 FE  .la", "", "",
+                "# file closed: main.asm", "", ""
+            ];
+
+            checkResults1Capture(regex, insOuts);
+            done();
+        });
     });
 
 
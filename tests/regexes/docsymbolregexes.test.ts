@@ -106,7 +106,7 @@ describe('DocSymbolRegexes', () => {
             "24+  60D", false, "", "",
             "92+  6180   ENDMODULE", true, "ENDMODULE", undefined,
         ];
-        const regex = DocSymbolRegexes.regexModuleLabel();
+        const regex = DocSymbolRegexes.regexModuleLabel()!;
         checkResultsMatch(regex, insOuts);
     });
 
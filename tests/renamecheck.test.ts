@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import {checkNewName, findRenameConflict, getRenamedLabel, isReservedWord, resolveRenameTarget} from '../src/renamecheck';
+import {getDialect} from '../src/dialects';
+import {IndexedSymbol} from '../src/symbolparser';
+import {parseFile} from './helpers';
+
+
+describe('renamecheck', () => {
+
+    const sjasmplus = getDialect('sjasmplus')!;
+    const gnuAs = getDialect('gnu-as')!;
+
+    const file = `
+sub1:
+.loop:
+    djnz .loop
+    jr sub1.loop
+    MODULE audio
+init:
+    call init
+    ENDMODULE
+init:
+    call audio.init
+    STRUCT POINT
+x   BYTE 0
+    ENDS
+    ld a,(ix+POINT.x)
+`;
+
+
+    /**
+     * Returns the full label of the symbol the word at the position refers to.
+     */
+    function resolve(row: number, column: number): string | undefined {
+        const {lines, fileSymbols} = parseFile(file);
+        const symbolMap = new Map(fileSymbols.symbols.map(s => [s.moduleLabel, s]));
+        return resolveRenameTarget(lines, fileSymbols, row, column, moduleLabel => symbolMap.get(moduleLabel))?.moduleLabel;
+    }
+
+
+    test('isReservedWord', () => {
+        assert.ok(isReservedWord('LD', sjasmplus));
+        assert.ok(isReservedWord('hl', sjasmplus));
+        assert.ok(isReservedWord('nz', sjasmplus));
+        assert.ok(isReservedWord('endmodule', sjasmplus));
+        assert.ok(isReservedWord('high', sjasmplus));
+        assert.ok(!isReservedWord('init', sjasmplus));
+        // GNU as: no Z80 registers, directives with and without dot
+        assert.ok(!isReservedWord('hl', gnuAs));
+        assert.ok(isReservedWord('macro', gnuAs));
+        assert.ok(isReservedWord('.macro', gnuAs));
+    });
+
+
+    test('checkNewName', () => {
+        assert.equal(checkNewName('start', sjasmplus), undefined);
+        assert.equal(checkNewName('_start2', sjasmplus), undefined);
+        assert.ok(checkNewName('', sjasmplus));
+        assert.ok(checkNewName('2start', sjasmplus));
+        assert.ok(checkNewName('a-b', sjasmplus));
+        assert.ok(checkNewName('audio.start', sjasmplus)!.includes("'.'"));
+        assert.ok(checkNewName('ld', sjasmplus)!.includes('sjasmplus'));
+        assert.equal(checkNewName('ld', gnuAs), undefined);
+    });
+
+
+    test('resolveRenameTarget', () => {
+        // Definitions
+        assert.equal(resolve(1, 1), 'sub1');
+        assert.equal(resolve(2, 2), 'sub1.loop');
+        assert.equal(resolve(5, 12), 'audio');
+        // Local label reference
+        assert.equal(resolve(3, 11), 'sub1.loop');
+        // Module-qualified references
+        assert.equal(resolve(4, 8), 'sub1');
+        assert.equal(resolve(4, 13), 'sub1.loop');
+        assert.equal(resolve(10, 10), 'audio');
+        assert.equal(resolve(10, 16), 'audio.init');
+        // Inside the module the module label takes precedence
+        assert.equal(resolve(7, 10), 'audio.init');
+        // Struct name and field
+        assert.equal(resolve(14, 14), 'POINT');
+        assert.equal(resolve(14, 20), 'POINT.x');
+        // No label
+        assert.equal(resolve(3, 5), undefined);
+    });
+
+
+    test('getRenamedLabel', () => {
+        assert.equal(getRenamedLabel('init', 'start'), 'start');
+        assert.equal(getRenamedLabel('audio.init', 'start'), 'audio.start');
+        assert.equal(getRenamedLabel('audio.init.loop', 'next'), 'audio.init.next');
+    });
+
+
+    test('findRenameConflict', () => {
+        const symbol = (moduleLabel: string): IndexedSymbol => ({label: moduleLabel, moduleLabel, kind: 'code' as const, local: false, line: 0, start: 0, end: 0});
+        const symbols = [symbol('init'), symbol('init.loop'), symbol('start'), symbol('next.loop'), symbol('audio'), symbol('audio.init'), symbol('sound.init')];
+        assert.equal(findRenameConflict(symbols, 'init', 'start')?.moduleLabel, 'start');
+        assert.equal(findRenameConflict(symbols, 'init', 'begin'), undefined);
+        // The local labels are renamed, too
+        assert.equal(findRenameConflict(symbols, 'init', 'next')?.moduleLabel, 'next.loop');
+        // The labels of a module are renamed, too
+        assert.equal(findRenameConflict(symbols, 'audio', 'sound')?.moduleLabel, 'sound.init');
+        assert.equal(findRenameConflict(symbols, 'audio', 'music'), undefined);
+        // Unchanged
+        assert.equal(findRenameConflict(symbols, 'init', 'init'), undefined);
+    });
+});
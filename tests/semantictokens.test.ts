@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import {SemanticToken, getSemanticTokens} from '../src/semantictokens';
+import {IndexedSymbol} from '../src/symbolparser';
+import {AllowedLanguageIds} from '../src/languageId';
+import {parseFile} from './helpers';
+
+
+describe('semantictokens', () => {
+
+    /**
+     * Returns the tokens as strings "line:start text type modifiers" for easier comparison.
+     */
+    function getTokens(file: string, languageId: AllowedLanguageIds = 'asm-collection'): string[] {
+        const {lines, fileSymbols} = parseFile(file, languageId);
+        const symbolMap = new Map<string, IndexedSymbol>();
+        for (const symbol of fileSymbols.symbols) {
+            if (!symbolMap.has(symbol.moduleLabel))
+                symbolMap.set(symbol.moduleLabel, symbol);
+        }
+        const tokens = getSemanticTokens(lines, fileSymbols, moduleLabel => symbolMap.get(moduleLabel), languageId == 'asm-list-file');
+        return tokens.map((token: SemanticToken) => {
+            const text = lines[token.line].substring(token.start, token.start + token.length);
+            return (token.line + ':' + token.start + ' ' + text + ' ' + token.type + ' ' + token.modifiers.join(',')).trim();
+        });
+    }
+
+
+    test('definitions and references', () => {
+        const tokens = getTokens(`
+COUNT:  equ 5
+    MODULE audio
+init:
+    ld a,COUNT
+.loop:
+    djnz .loop
+    call main.sub
+    ret
+    ENDMODULE
+main:
+    call audio.init
+sub:
+    ld hl,buffer
+    ret
+buffer: defs 10`);
+        assert.deepEqual(tokens, [
+            '1:0 COUNT variable declaration,readonly',
+            '2:11 audio namespace declaration',
+            '3:0 init function declaration',
+            '4:9 COUNT variable readonly',
+            '5:0 .loop label declaration,local',
+            '6:9 .loop label local',
+            '10:0 main function declaration',
+            '11:9 audio namespace',
+            '11:15 init function',
+            '12:0 sub function declaration',
+            '13:10 buffer variable',
+            '15:0 buffer variable declaration'
+        ]);
+    });
+
+
+    test('structs and macros', () => {
+        const tokens = getTokens(`
+    STRUCT POINT
+x   byte 0
+y   byte 0
+    ENDS
+wait:   MACRO count
+    ld b,count
+    ENDM
+player: POINT
+    ld a,(player.y)
+    ld b,POINT.x
+    wait 5`);
+        assert.deepEqual(tokens, [
+            '1:11 POINT struct declaration',
+            '2:0 x property declaration',
+            '3:0 y property declaration',
+            '5:0 wait macro declaration',
+            '8:0 player variable declaration',
+            '9:10 player variable',
+            '9:17 y property',
+            '10:9 POINT struct',
+            '10:15 x property',
+            '11:4 wait macro'
+        ]);
+    });
+
+
+    test('structs and macros in modules', () => {
+        const tokens = getTokens(`
+    MODULE m
+    STRUCT PT
+x   byte 0
+    ENDS
+wait:   MACRO
+    ENDM
+p1: PT
+    wait
+    ENDMODULE
+    m.wait`);
+        assert.deepEqual(tokens, [
+            '1:11 m namespace declaration',
+            '2:11 PT struct declaration',
+            '3:0 x property declaration',
+            '5:0 wait macro declaration',
+            '7:0 p1 variable declaration',
+            '8:4 wait macro',
+            '10:4 m.wait macro'
+        ]);
+    });
+
+
+    test('list file', () => {
+        const tokens = getTokens(
+            '  18   6000 AF        start: xor a\n' +
+            '  19   6001 C3 00 60      jp start', 'asm-list-file');
+        assert.deepEqual(tokens, [
+            '0:7 6000 number',
+            '0:12 AF number',
+            '0:22 start function declaration',
+            '0:29 xor keyword',
+            '1:7 6001 number',
+            '1:12 C3 number',
+            '1:15 00 number',
+            '1:18 60 number',
+            '1:26 jp keyword',
+            '1:29 start function'
+        ]);
+    });
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import {StructFile, StructModel, buildStructModel, formatFieldInfo, resolveFieldAccess, resolveStructType} from '../src/structs';
+import {parseFile} from './helpers';
+
+
+describe('structs', () => {
+
+    /**
+     * Parses the files and builds the model.
+     * The constants are taken from 'values'.
+     */
+    function getModel(files: {[filePath: string]: string}, values: {[moduleLabel: string]: number} = {}): StructModel {
+        const structFiles: StructFile[] = [];
+        for (const filePath in files) {
+            const {lines, fileSymbols} = parseFile(files[filePath]);
+            structFiles.push({filePath, lines, ...fileSymbols});
+        }
+        return buildStructModel(structFiles, moduleLabel => values[moduleLabel]);
+    }
+
+
+    test('offsets and sizes', () => {
+        const model = getModel({'a.asm': `
+    STRUCT POINT
+x   BYTE 0
+y   WORD
+    ENDS
+
+    STRUCT ENTITY, 1
+pos     POINT
+name    TEXT NAME_LEN
+flags   DB 1, 2, 3
+        ALIGN 2
+next    DW 0
+ptr     D24 0
+count   DD 0
+buf     DS 2*NAME_LEN
+    ENDS
+`}, {NAME_LEN: 5});
+        const point = model.structs.get('POINT')!;
+        assert.equal(point.size, 3);
+        assert.deepEqual(point.fields.map(f => [f.moduleLabel, f.offset, f.size]), [
+            ['POINT.x', 0, 1],
+            ['POINT.y', 1, 2],
+        ]);
+        const entity = model.structs.get('ENTITY')!;
+        assert.equal(entity.size, 31);
+        assert.deepEqual(entity.fields.map(f => [f.label, f.offset, f.size]), [
+            ['pos', 1, 3],
+            ['name', 4, 5],
+            ['flags', 9, 3],
+            ['next', 12, 2],
+            ['ptr', 14, 3],
+            ['count', 17, 4],
+            ['buf', 21, 10],
+        ]);
+        assert.equal(entity.fields[0].type, 'POINT');
+        assert.equal(entity.fields[1].type, undefined);
+        assert.deepEqual(model.fields.get('ENTITY.buf')?.struct, entity);
+    });
+
+
+    test('unknown sizes', () => {
+        const model = getModel({'a.asm': `
+    STRUCT S
+a   BYTE 0
+b   DS UNKNOWN
+c   BYTE 0
+    ENDS
+`});
+        const fields = model.structs.get('S')!.fields;
+        assert.deepEqual(fields.map(f => [f.label, f.offset, f.size]), [
+            ['a', 0, 1],
+            ['b', 1, undefined],
+            ['c', undefined, 1],
+        ]);
+        assert.equal(model.structs.get('S')!.size, undefined);
+        assert.equal(formatFieldInfo(fields[0]), 'offset 0, size 1');
+        assert.equal(formatFieldInfo(fields[2]), 'offset ?, size 1');
+    });
+
+
+    test('modules and several files', () => {
+        const model = getModel({
+            'a.asm': `
+    MODULE gfx
+    STRUCT RECT
+topLeft     POINT
+bottomRight POINT
+    ENDS
+    ENDMODULE
+`,
+            'b.asm': `
+    STRUCT POINT
+x   BYTE 0
+y   BYTE 0
+    ENDS
+player: POINT
+enemy:  DS POINT
+rect    gfx.RECT {1, 2, 3, 4}
+other:  nop
+`});
+        assert.equal(model.structs.get('gfx.RECT')!.size, 4);
+        assert.equal(model.fields.get('gfx.RECT.bottomRight')!.field.offset, 2);
+        assert.equal(model.instances.get('player'), 'POINT');
+        assert.equal(model.instances.get('enemy'), 'POINT');
+        assert.equal(model.instances.get('rect'), 'gfx.RECT');
+        assert.equal(model.instances.has('other'), false);
+        assert.equal(model.instances.has('POINT.x'), false);
+    });
+
+
+    test('resolveFieldAccess', () => {
+        const model = getModel({'a.asm': `
+    STRUCT POINT
+x   BYTE 0
+y   BYTE 0
+    ENDS
+    STRUCT RECT
+topLeft     POINT
+bottomRight POINT
+    ENDS
+player: POINT
+rect:   RECT
+`});
+        assert.equal(resolveFieldAccess(model, 'POINT.y', ['POINT.y'])?.field.moduleLabel, 'POINT.y');
+        assert.equal(resolveFieldAccess(model, 'player.y', ['mod.player.y', 'player.y'])?.field.moduleLabel, 'POINT.y');
+        assert.equal(resolveFieldAccess(model, 'rect.bottomRight.x', ['rect.bottomRight.x'])?.field.moduleLabel, 'POINT.x');
+        assert.equal(resolveFieldAccess(model, 'RECT.topLeft.y', ['RECT.topLeft.y'])?.field.moduleLabel, 'POINT.y');
+        assert.equal(resolveFieldAccess(model, 'player.z', ['player.z']), undefined);
+        assert.equal(resolveFieldAccess(model, 'player', ['player']), undefined);
+        assert.equal(resolveFieldAccess(model, 'other.x', ['other.x']), undefined);
+
+        assert.equal(resolveStructType(model, 'POINT', ['POINT'])?.moduleLabel, 'POINT');
+        assert.equal(resolveStructType(model, 'player', ['player'])?.moduleLabel, 'POINT');
+        assert.equal(resolveStructType(model, 'rect.topLeft', ['rect.topLeft'])?.moduleLabel, 'POINT');
+        assert.equal(resolveStructType(model, 'RECT.topLeft', ['RECT.topLeft'])?.moduleLabel, 'POINT');
+        assert.equal(resolveStructType(model, 'POINT.x', ['POINT.x']), undefined);
+    });
+});
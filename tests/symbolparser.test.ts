@@ -0,0 +1,181 @@
+import * as assert from 'assert';
+import {IndexedSymbol, containsWord, evaluateSymbol, getContainerLabel, parseSymbols} from '../src/symbolparser';
+import {CommonRegexes} from '../src/regexes/commonregexes';
+import {parseFile} from './helpers';
+
+
+describe('symbolparser', () => {
+
+    const regexLbls = CommonRegexes.regexesLabel({labelsWithColons: true, labelsWithoutColons: true}, "asm-collection");
+
+    test('labels and kinds', () => {
+        const file = `
+label1:
+    ld a,5
+.loop:
+    djnz .loop
+CONST1: equ 8
+CONST2 = 9
+data1:  defb 1, 2
+data2:
+    defw 0
+mac1 MACRO p1
+    ENDM
+    MACRO mac2 p1, p2
+    ENDM
+`;
+        const lines = file.split('\n');
+        const {symbols} = parseSymbols(lines, regexLbls, 'asm-collection');
+
+        assert.deepEqual(symbols.map(s => [s.label, s.moduleLabel, s.kind, s.local, s.line]), [
+            ['label1', 'label1', 'code', false, 1],
+            ['.loop', 'label1.loop', 'code', true, 3],
+            ['CONST1', 'CONST1', 'equ', false, 5],
+            ['CONST2', 'CONST2', 'equ', false, 6],
+            ['data1', 'data1', 'data', false, 7],
+            ['data2', 'data2', 'data', false, 8],
+            ['mac1', 'mac1', 'macro', false, 10],
+            ['mac2', 'mac2', 'macro', false, 12],
+        ]);
+
+        // Columns
+        assert.equal(symbols[0].start, 0);
+        assert.equal(symbols[0].end, 6);
+        assert.equal(symbols[7].start, 10);
+        assert.equal(symbols[7].end, 14);
+    });
+
+
+    test('modules and structs', () => {
+        const file = `
+    MODULE mod_a
+label2:
+    STRUCT struct_a
+field1  BYTE 0
+    ENDS
+@global:
+    ENDMODULE
+label3:
+`;
+        const lines = file.split('\n');
+        const {symbols, modStructInfos} = parseSymbols(lines, regexLbls, 'asm-collection');
+
+        assert.equal(modStructInfos.length, 4);
+        assert.deepEqual(symbols.map(s => [s.label, s.moduleLabel, s.kind]), [
+            ['mod_a', 'mod_a', 'module'],
+            ['label2', 'mod_a.label2', 'code'],
+            ['struct_a', 'mod_a.struct_a', 'struct'],
+            ['field1', 'mod_a.struct_a.field1', 'data'],
+            ['global', 'global', 'code'],
+            ['label3', 'label3', 'code'],
+        ]);
+        assert.deepEqual(symbols.map(getContainerLabel), [
+            '',
+            'mod_a',
+            'mod_a',
+            'mod_a.struct_a',
+            '',
+            ''
+        ]);
+    });
+
+
+    test('list file', () => {
+        const file = `
+ 7   0000              NEX:    equ 0
+18   6000 00           screen_top: defb    0
+21+  6005              pause_loop_l1:
+22+  6005 10 FE        .l2:	djnz pause_loop_l1
+`;
+        const lines = file.split('\n');
+        const regexListLbls = CommonRegexes.regexesLabel({labelsWithColons: true, labelsWithoutColons: true}, "asm-list-file");
+        const {symbols} = parseSymbols(lines, regexListLbls, 'asm-list-file');
+
+        assert.deepEqual(symbols.map(s => [s.label, s.moduleLabel, s.kind, s.start, s.address]), [
+            ['NEX', 'NEX', 'equ', 23, undefined],
+            ['screen_top', 'screen_top', 'data', 23, 0x6000],
+            ['pause_loop_l1', 'pause_loop_l1', 'code', 23, 0x6005],
+            ['.l2', 'pause_loop_l1.l2', 'code', 23, 0x6005],
+        ]);
+    });
+
+
+    test('words', () => {
+        const lines = ['label1:', '  ld a,(mod.value)', '  call sub_1'];
+        const {words} = parseSymbols(lines, regexLbls, 'asm-collection');
+
+        assert.ok(containsWord(words, 'label1'));
+        assert.ok(containsWord(words, 'value'));
+        assert.ok(containsWord(words, 'mod.value'));
+        assert.ok(containsWord(words, 'mod\\.value'));
+        assert.ok(containsWord(words, 'sub_1'));
+        assert.ok(!containsWord(words, 'sub'));
+        assert.ok(!containsWord(words, 'mod.other'));
+    });
+
+
+    test('constant values', () => {
+        const file = `
+CONST1: equ 8   ; comment
+CONST2 = CONST1*2
+CONST3 defl 'A'+1
+label1:
+CONST4
+    equ 5
+`;
+        const {symbols} = parseFile(file).fileSymbols;
+
+        assert.deepEqual(symbols.map(s => [s.label, s.value]), [
+            ['CONST1', '8'],
+            ['CONST2', 'CONST1*2'],
+            ['CONST3', "'A'+1"],
+            ['label1', undefined],
+            ['CONST4', undefined],
+        ]);
+    });
+
+
+    describe('evaluateSymbol', () => {
+        const file = `
+BASE equ 0x4000
+    MODULE screen
+BASE    equ 0x5800
+ATTR    equ BASE+32     ; screen.BASE
+PIXELS  equ @BASE+1     ; global BASE
+    ENDMODULE
+OFFS    equ screen.ATTR-BASE
+LOOP1   equ LOOP2
+LOOP2   equ LOOP1
+UNDEF   equ unknown+1
+main:
+.size   equ .end+1
+.end    equ 3
+`;
+        const {symbols} = parseFile(file).fileSymbols;
+        const symbolMap = new Map<string, IndexedSymbol>(symbols.map(s => [s.moduleLabel, s]));
+        const evaluate = (moduleLabel: string) => evaluateSymbol(symbolMap.get(moduleLabel)!, ml => symbolMap.get(ml));
+
+        test('modules', () => {
+            assert.equal(evaluate('BASE'), 0x4000);
+            assert.equal(evaluate('screen.BASE'), 0x5800);
+            assert.equal(evaluate('screen.ATTR'), 0x5820);
+            assert.equal(evaluate('screen.PIXELS'), 0x4001);
+            assert.equal(evaluate('OFFS'), 0x1820);
+        });
+
+        test('local labels', () => {
+            assert.equal(evaluate('main.size'), 4);
+        });
+
+        test('label addresses', () => {
+            const label: IndexedSymbol = {label: 'label', moduleLabel: 'label', kind: 'code', local: false, line: 0, start: 0, end: 5, address: 0x8000};
+            const constant: IndexedSymbol = {label: 'CONST', moduleLabel: 'CONST', kind: 'equ', local: false, line: 1, start: 0, end: 5, value: 'label+3'};
+            assert.equal(evaluateSymbol(constant, ml => (ml == 'label') ? label : undefined), 0x8003);
+        });
+
+        test('errors', () => {
+            assert.throws(() => evaluate('LOOP1'), /Circular/);
+            assert.throws(() => evaluate('UNDEF'), /Unknown symbol 'unknown'/);
+        });
+    });
+});
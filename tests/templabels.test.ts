@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import {findTempLabelOccurrences, isAnonymousReference, parseTempLabels, resolveTempLabel} from '../src/templabels';
+import {getDialect} from '../src/dialects';
+
+
+describe('templabels', () => {
+
+    /**
+     * Returns the occurrences as strings "line:start-end" for easier comparison.
+     */
+    function getOccurrences(file: string, row: number, column: number): string[] {
+        const tempLabels = parseTempLabels(file.split('\n'));
+        return findTempLabelOccurrences(tempLabels, row, column).map(t => t.line + ':' + t.start + '-' + t.end);
+    }
+
+
+    test('parseTempLabels', () => {
+        const lines = [
+            '1   ld b,5',
+            '    djnz 1B',
+            '2:  jr 2f',
+            '@@: jr @b',
+            '    ld a,0x1f',
+            '    ld a,$1b',
+            '    ld a,1fh',
+            '    ld hl,label1b'
+        ];
+        const tempLabels = parseTempLabels(lines);
+        assert.deepEqual(tempLabels.map(t => t.name + (t.direction ?? '') + ':' + t.line + ':' + t.start), [
+            '1:0:0',
+            '1b:1:9',
+            '2:2:0',
+            '2f:2:7',
+            '@@:3:0',
+            '@@b:3:7'
+        ]);
+    });
+
+
+    test('parseTempLabels binary numbers and dialects', () => {
+        const lines = [
+            '1   ld a,0101b',
+            '    ld a,1b',
+            '    jr 2f',
+            '@@: jr @b'
+        ];
+        const format = (t: {name: string, direction?: string, line: number}) => t.name + (t.direction ?? '') + ':' + t.line;
+        // "0101b" is a binary number as "0101" is not defined
+        assert.deepEqual(parseTempLabels(lines).map(format), ['1:0', '1b:1', '2f:2', '@@:3', '@@b:3']);
+        // No numeric temporary labels
+        assert.deepEqual(parseTempLabels(lines, getDialect('rasm')).map(format), ['@@:3', '@@b:3']);
+        assert.deepEqual(parseTempLabels(lines, getDialect('gnu-as')).map(format), ['1:0', '1b:1', '2f:2', '@@:3', '@@b:3']);
+    });
+
+
+    test('resolveTempLabel', () => {
+        const lines = [
+            '1:  nop',
+            '1:  jr 1b',
+            '    jr 1f',
+            '1:  nop',
+            '    jr 2b'
+        ];
+        const tempLabels = parseTempLabels(lines);
+        const resolve = (line: number) => resolveTempLabel(tempLabels, tempLabels.find(t => t.line == line && t.direction)!)?.line;
+        // Backward includes the label on the same line
+        assert.equal(resolve(1), 1);
+        assert.equal(resolve(2), 3);
+        // Not defined
+        assert.equal(resolve(4), undefined);
+    });
+
+
+    test('occurrences', () => {
+        const file = `
+1   ld b,5
+.loop:
+    djnz 1B
+    jr 1F
+    nop
+1   ret
+    jr 1b
+`;
+        // On the first definition
+        assert.deepEqual(getOccurrences(file, 1, 0), ['1:0-1', '3:9-11']);
+        // On the forward reference
+        assert.deepEqual(getOccurrences(file, 4, 8), ['6:0-1', '4:7-9', '7:7-9']);
+        // No temporary label
+        assert.deepEqual(getOccurrences(file, 5, 5), []);
+    });
+
+
+    test('anonymous labels', () => {
+        const file = `
+@@: dec a
+    jr nz,@b
+    jr @f
+    nop
+@@: ret
+`;
+        assert.deepEqual(getOccurrences(file, 2, 10), ['1:0-2', '2:10-12']);
+        assert.deepEqual(getOccurrences(file, 5, 1), ['5:0-2', '3:7-9']);
+        assert.ok(isAnonymousReference('@F'));
+        assert.ok(!isAnonymousReference('@foo'));
+    });
+});
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import {findInstruction, formatCycleSum, formatTStates, getLineInstruction, sumCycles} from '../src/z80instructions';
+import {stripLines} from './helpers';
+
+
+describe('z80instructions', () => {
+
+    function tStates(line: string): string | undefined {
+        const instruction = getLineInstruction(line);
+        return instruction ? formatTStates(instruction) : undefined;
+    }
+
+
+    test('findInstruction', () => {
+        assert.equal(findInstruction('ld', 'a,b')!.pattern, 'ld R8,R8');
+        assert.equal(findInstruction('LD', 'A,(IX+5)')!.pattern, 'ld R8,(IX+D)');
+        assert.equal(findInstruction('ld', 'a,(ix)')!.pattern, 'ld R8,(IX+D)');
+        assert.equal(findInstruction('ld', 'a,(bc)')!.pattern, 'ld a,(bc)');
+        assert.equal(findInstruction('ld', 'a,(label)')!.pattern, 'ld a,(N)');
+        assert.equal(findInstruction('ld', 'hl,(label)')!.pattern, 'ld hl,(N)');
+        assert.equal(findInstruction('ld', 'de,(label)')!.pattern, 'ld RR,(N)');
+        assert.equal(findInstruction('ld', 'hl,label+1')!.pattern, 'ld RR,N');
+        assert.equal(findInstruction('ld', 'a,r')!.pattern, 'ld a,r');
+        assert.equal(findInstruction('jr', 'c,label')!.pattern, 'jr CC,N');
+        assert.equal(findInstruction('jp', '(ix)')!.pattern, 'jp (IX)');
+        assert.equal(findInstruction('in', 'a,(c)')!.pattern, 'in R8,(c)');
+        assert.equal(findInstruction('in', 'a,($fe)')!.pattern, 'in a,(N)');
+        assert.equal(findInstruction('add', 'hl,bc')!.pattern, 'add hl,RR');
+        assert.equal(findInstruction('sub', 'a,b')!.pattern, 'sub a,R8');
+
+        // Undocumented and Z80N
+        assert.equal(findInstruction('ld', 'a,ixh')!.cpu, 'undoc');
+        assert.equal(findInstruction('sll', 'b')!.cpu, 'undoc');
+        assert.equal(findInstruction('add', 'hl,a')!.cpu, 'z80n');
+        assert.equal(findInstruction('nextreg', '$07,a')!.pattern, 'nextreg N,a');
+
+        // Unknown
+        assert.equal(findInstruction('ld', 'hl,de'), undefined);
+        assert.equal(findInstruction('defb', '1,2'), undefined);
+    });
+
+
+    test('getLineInstruction', () => {
+        assert.equal(tStates(' nop'), '4');
+        assert.equal(tStates('label: ld a,(ix+5)'), '19');
+        assert.equal(tStates('label ld (hl),5'), '10');
+        assert.equal(tStates(' jr nz,.loop'), '12/7');
+        assert.equal(tStates(' djnz .loop'), '13/8');
+        assert.equal(tStates(' ret z'), '11/5');
+        assert.equal(tStates(' ldir'), '21/16');
+        assert.equal(tStates(' bit 7,(iy+0)'), '20');
+        assert.equal(tStates(' ex af,af'), '4');
+        assert.equal(tStates(' ld a,b : ld b,c'), undefined);
+        assert.equal(tStates('label:'), undefined);
+        assert.equal(tStates(' defw 0'), undefined);
+
+        const instruction = getLineInstruction(' ld (ix+2),7')!;
+        assert.equal(instruction.opcode, 'DD 36 d n');
+        assert.equal(instruction.size, 4);
+        assert.equal(instruction.flags, '-');
+        assert.equal(getLineInstruction(' add a,(hl)')!.opcode, '86');
+        assert.equal(getLineInstruction(' srl (ix+1)')!.opcode, 'DD CB d 3E');
+    });
+
+
+    test('sumCycles', () => {
+        const lines = stripLines(`
+delay:
+    ld b,10         ; 7
+.loop:
+    djnz .loop      ; 13/8
+    ex af,af'
+    ret             ; 10
+    defb 0
+`);
+        const sum = sumCycles(lines);
+        assert.equal(sum.instructions, 4);
+        assert.equal(sum.bytes, 6);
+        assert.equal(sum.min, 29);
+        assert.equal(sum.max, 34);
+        assert.equal(formatCycleSum(sum), '29-34 T-states, 6 bytes');
+        assert.equal(formatCycleSum({instructions: 1, bytes: 1, min: 4, max: 4}), '4 T-states, 1 byte');
+    });
+});